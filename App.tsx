@@ -1,14 +1,44 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { TeamInput } from './components/TeamInput';
 import { AnalysisResult } from './components/AnalysisResult';
 import { MatchList } from './components/MatchList';
 import { OracleChat } from './components/OracleChat';
-import { analyzeMatch, fetchTodaysMatches } from './services/geminiService';
-import { MatchAnalysis, MatchFixture, LoadingState, SportType } from './types';
+import { PredictionLedger } from './components/PredictionLedger';
+import { CalibrationReport } from './components/CalibrationReport';
+import { BetSlip } from './components/BetSlip';
+import { LoginScreen } from './components/LoginScreen';
+import { UserMenu } from './components/UserMenu';
+import { Watchlist } from './components/Watchlist';
+import { OfflineBanner } from './components/OfflineBanner';
+import { LiveTimeline } from './components/LiveTimeline';
+import { UpdatePrompt } from './components/UpdatePrompt';
+import { OfflineError, analyzeMatch, fetchLiveScore, fetchTodaysMatches, isOffline } from './services/geminiService';
+import { ledgerService } from './services/ledgerService';
+import { betSlipService } from './services/betSlipService';
+import { favouritesService } from './services/favouritesService';
+import { watchlistService } from './services/watchlistService';
+import { ANALYZE_MESSAGE, AnalyzeRequest, notificationService } from './services/notificationService';
+import { DRAIN_QUEUE_MESSAGE, analysisQueueService } from './services/analysisQueueService';
+import { applyCalibration } from './services/calibrationService';
+import { settingsService } from './services/settingsService';
+import { resolveTimeZone, timeService } from './services/timeService';
+import { authService } from './services/authService';
+import { SPORT_IDS } from './services/sportRegistry';
+import { MatchAnalysis, MatchFixture, LoadingState, SportType, LedgerEntry, BetSelection, CalibrationMethod, User, Favourites, WatchedFixture, QueuedAnalysis, CompletedAnalysis, LiveTimelineEntry } from './types';
 import { Radar, RefreshCw } from 'lucide-react';
 
-const App: React.FC = () => {
+const SESSION_CHECK_MS = 60 * 1000;
+const REMINDER_CHECK_MS = 30 * 1000;
+const LIVE_POLL_MS = 60 * 1000;
+
+interface DashboardProps {
+  user: User;
+  onLogout: () => void;
+}
+
+// Everything behind the login gate. Mounted per user, so state initialisers read that account's storage.
+const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
   const [loadingState, setLoadingState] = useState<LoadingState>(LoadingState.IDLE);
   const [analysisData, setAnalysisData] = useState<MatchAnalysis | null>(null);
   const [teams, setTeams] = useState<{home: string, away: string, league: string}>({ home: '', away: '', league: '' });
@@ -17,24 +47,82 @@ const App: React.FC = () => {
   // Sport State
   const [currentSport, setCurrentSport] = useState<SportType>('SOCCER');
 
-  // Date State (Default to local today YYYY-MM-DD)
-  const [matchDate, setMatchDate] = useState<string>(() => {
-    const d = new Date();
-    const year = d.getFullYear();
-    const month = String(d.getMonth() + 1).padStart(2, '0');
-    const day = String(d.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-  });
+  // Timezone State (empty follows the browser; kickoff times and day boundaries use it)
+  const [timeZone, setTimeZone] = useState<string>(() => settingsService.get().timeZone);
+
+  // Date State (Default to today YYYY-MM-DD in the chosen timezone)
+  const [matchDate, setMatchDate] = useState<string>(() => timeService.today(resolveTimeZone(settingsService.get().timeZone)));
 
   // Match List State
   const [todaysMatches, setTodaysMatches] = useState<MatchFixture[]>([]);
   const [loadingMatches, setLoadingMatches] = useState<boolean>(true);
 
+  // Prediction Ledger State
+  const [ledgerEntries, setLedgerEntries] = useState<LedgerEntry[]>(() => ledgerService.getEntries());
+  const [calibrationMethod, setCalibrationMethod] = useState<CalibrationMethod | 'OFF'>(() => settingsService.get().calibration);
+
+  // Bet Slip State (persists across sport and date switches)
+  const [betSlip, setBetSlip] = useState<BetSelection[]>(() => betSlipService.getSelections());
+
+  // Favourites State ("My Matches" pulls fixtures for every sport, only once the tab is opened)
+  const [favourites, setFavourites] = useState<Favourites>(() => favouritesService.get());
+  const [showingMyMatches, setShowingMyMatches] = useState(false);
+  const [allSportsMatches, setAllSportsMatches] = useState<MatchFixture[]>([]);
+  const [loadingAllSports, setLoadingAllSports] = useState(false);
+
+  // Watchlist State (kickoff reminders and LIVE / FINISHED alerts)
+  const [watchlist, setWatchlist] = useState<WatchedFixture[]>(() => watchlistService.getItems());
+  const [reminderMinutes, setReminderMinutes] = useState<number>(() => settingsService.get().reminderMinutes);
+  // Analysis requested from a notification tap; opened via URL when no window was running
+  const [pendingAnalysis, setPendingAnalysis] = useState<AnalyzeRequest | null>(() => {
+    const param = new URLSearchParams(window.location.search).get('analyze');
+    if (!param) return null;
+    window.history.replaceState(null, '', window.location.pathname);
+    try {
+      return JSON.parse(param);
+    } catch (e) {
+      return null;
+    }
+  });
+
+  // Offline State (analyses requested offline are queued and replayed on reconnect)
+  const [isOnline, setIsOnline] = useState(() => !isOffline());
+  const [queuedAnalyses, setQueuedAnalyses] = useState<QueuedAnalysis[]>(() => analysisQueueService.getItems());
+  const [completedAnalyses, setCompletedAnalyses] = useState<CompletedAnalysis[]>([]);
+  const [drainRequests, setDrainRequests] = useState(0);
+  const drainingRef = useRef(false);
+
+  // Live Tracker State (polls the in-play fixture on screen; a score change or the interval re-runs the analysis)
+  const [liveTimeline, setLiveTimeline] = useState<LiveTimelineEntry[]>([]);
+  const [liveRefreshing, setLiveRefreshing] = useState(false);
+  const [liveRefreshMinutes, setLiveRefreshMinutes] = useState<number>(() => settingsService.get().liveRefreshMinutes);
+  const liveFixtureRef = useRef<{ home: string; away: string; league: string; sport: SportType; date: string } | null>(null);
+  const liveSessionRef = useRef(0); // Bumped whenever another analysis opens, so late live results are dropped
+  const lastLiveAnalysisRef = useRef(0);
+  const liveBusyRef = useRef(false);
+  const analysisRef = useRef(analysisData);
+  analysisRef.current = analysisData;
+  // Read by finalizeAnalysis, which the live tracker's interval calls long after the render that started it
+  const calibrationRef = useRef({ method: calibrationMethod, entries: ledgerEntries });
+  calibrationRef.current = { method: calibrationMethod, entries: ledgerEntries };
+
+  // Alert on watched fixtures that went LIVE or FINISHED since the last refresh
+  const notifyStatusChanges = (matches: MatchFixture[], sport: SportType) => {
+    const changes = watchlistService.applyRefresh(matches, sport, matchDate);
+    changes.forEach(({ item, status }) => notificationService.statusChange(item, status));
+    setWatchlist(watchlistService.getItems());
+  };
+
   const loadMatches = async () => {
     setLoadingMatches(true);
     try {
-      const matches = await fetchTodaysMatches(currentSport, matchDate);
+      const matches = await fetchTodaysMatches(currentSport, matchDate, timeZone);
       setTodaysMatches(matches);
+      notifyStatusChanges(matches, currentSport);
+      // Settle any open predictions for fixtures that have now finished
+      if (ledgerService.settle(matches, currentSport, matchDate).length > 0) {
+        setLedgerEntries(ledgerService.getEntries());
+      }
     } catch (e) {
       console.error("Error fetching matches", e);
       setTodaysMatches([]);
@@ -43,29 +131,264 @@ const App: React.FC = () => {
     }
   };
 
+  // Reloading on connectivity changes swaps between saved and live fixture lists
   useEffect(() => {
     loadMatches();
-  }, [currentSport, matchDate]);
+  }, [currentSport, matchDate, timeZone, isOnline]);
+
+  const loadAllSportsMatches = async () => {
+    setLoadingAllSports(true);
+    const results = await Promise.all(SPORT_IDS.map(async (sport) => {
+      try {
+        const matches = await fetchTodaysMatches(sport, matchDate, timeZone);
+        notifyStatusChanges(matches, sport);
+        return matches.map(m => ({ ...m, sport: m.sport || sport }));
+      } catch (e) {
+        console.error(`Error fetching ${sport} matches`, e);
+        return [];
+      }
+    }));
+    setAllSportsMatches(results.flat());
+    setLoadingAllSports(false);
+  };
+
+  useEffect(() => {
+    if (showingMyMatches) loadAllSportsMatches();
+  }, [showingMyMatches, matchDate, timeZone]);
+
+  useEffect(() => {
+    const checkReminders = () => {
+      watchlistService.takeDueReminders(reminderMinutes)
+        .forEach(item => notificationService.kickoffReminder(item, reminderMinutes, resolveTimeZone(timeZone)));
+      setWatchlist(watchlistService.getItems());
+    };
+    checkReminders();
+    const timer = setInterval(checkReminders, REMINDER_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [reminderMinutes, timeZone]);
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type === ANALYZE_MESSAGE) setPendingAnalysis(event.data.request);
+      // Background Sync fired: the connection is back
+      if (event.data?.type === DRAIN_QUEUE_MESSAGE) setDrainRequests(n => n + 1);
+    };
+    navigator.serviceWorker.addEventListener('message', onMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+  }, []);
+
+  useEffect(() => {
+    const onOnline = () => {
+      setIsOnline(true);
+      setDrainRequests(n => n + 1);
+    };
+    const onOffline = () => setIsOnline(false);
+    window.addEventListener('online', onOnline);
+    window.addEventListener('offline', onOffline);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      window.removeEventListener('offline', onOffline);
+    };
+  }, []);
+
+  // Calibrates and records a fresh analysis; saved copies, heuristic estimates and demo data are not new predictions.
+  // The live tracker's automatic re-analyses pass record = false so they never reach the ledger.
+  const finalizeAnalysis = (stated: MatchAnalysis, home: string, away: string, league: string, sport: SportType, date: string, record = true): MatchAnalysis => {
+    const { method, entries } = calibrationRef.current;
+    const result = method === 'OFF' || stated.provenance === 'fallback' ? stated : applyCalibration(stated, entries, method);
+    if (record && (!stated.provenance || stated.provenance === 'live')) {
+      ledgerService.record(result, home, away, league, sport, date);
+      setLedgerEntries(ledgerService.getEntries());
+    }
+    return result;
+  };
+
+  // Runs queued analyses one at a time; stops as soon as the connection drops again
+  const drainQueue = async () => {
+    if (drainingRef.current || isOffline()) return;
+    drainingRef.current = true;
+    try {
+      for (const request of analysisQueueService.getItems().filter(q => !q.failure)) {
+        try {
+          const stated = await analyzeMatch(request.home, request.away, request.league, undefined, request.sport);
+          if (stated.provenance === 'cached') break;
+          const analysis = finalizeAnalysis(stated, request.home, request.away, request.league, request.sport, request.date);
+          setCompletedAnalyses(prev => [...prev, { request, analysis }]);
+          setQueuedAnalyses(analysisQueueService.remove(request.id));
+        } catch (e) {
+          if (e instanceof OfflineError) break;
+          // Kept in the queue with the reason so the banner can offer a retry
+          console.error("Queued analysis failed", e);
+          setQueuedAnalyses(analysisQueueService.markFailed(request.id, e instanceof Error ? e.message : String(e)));
+        }
+      }
+    } finally {
+      drainingRef.current = false;
+    }
+  };
+
+  useEffect(() => {
+    drainQueue();
+  }, [drainRequests]);
+
+  // Stops tracking whatever was on screen; a new in-play analysis then starts its own timeline
+  const resetLiveTracker = (analysis?: MatchAnalysis, fixture?: { home: string; away: string; league: string; sport: SportType; date: string }) => {
+    liveSessionRef.current++;
+    const live = !!analysis?.liveState?.isLive && !!fixture;
+    liveFixtureRef.current = live ? fixture! : null;
+    lastLiveAnalysisRef.current = Date.now();
+    setLiveTimeline(live ? [{ analysis: analysis!, trigger: 'INITIAL', analyzedAt: Date.now() }] : []);
+  };
+
+  // One tracker tick: refresh the score in place, then re-analyze if it moved or the interval elapsed
+  const trackLive = async (session: number) => {
+    const fixture = liveFixtureRef.current;
+    const current = analysisRef.current?.liveState;
+    if (!fixture || !current || liveBusyRef.current) return;
+    const { home, away, league, sport, date } = fixture;
+
+    const polled = await fetchLiveScore(home, away, sport);
+    if (session !== liveSessionRef.current) return;
+    if (polled && polled.status !== 'SCHEDULED') {
+      const finished = polled.status === 'FINISHED';
+      setAnalysisData(prev => prev?.liveState ? { ...prev, liveState: { ...prev.liveState, currentScore: polled.score, matchTime: polled.time, finished } } : prev);
+      if (finished) return;
+    }
+
+    const scoreChanged = !!polled && polled.status === 'LIVE' && polled.score !== current.currentScore;
+    const due = Date.now() - lastLiveAnalysisRef.current >= liveRefreshMinutes * 60 * 1000;
+    if (!scoreChanged && !due) return;
+
+    liveBusyRef.current = true;
+    setLiveRefreshing(true);
+    try {
+      const live = polled?.status === 'LIVE' ? { score: polled.score, time: polled.time } : { score: current.currentScore, time: current.matchTime };
+      const stated = await analyzeMatch(home, away, league, live, sport);
+      if (session !== liveSessionRef.current) return;
+      const analysis = finalizeAnalysis(stated, home, away, league, sport, date, false);
+      setAnalysisData(analysis);
+      setLiveTimeline(prev => [...prev, { analysis, trigger: scoreChanged ? 'SCORE_CHANGE' : 'INTERVAL', analyzedAt: Date.now() }]);
+    } catch (e) {
+      console.warn("Live re-analysis failed", e);
+    } finally {
+      lastLiveAnalysisRef.current = Date.now();
+      liveBusyRef.current = false;
+      setLiveRefreshing(false);
+    }
+  };
+
+  const isTrackingLive = loadingState === LoadingState.COMPLETE && isOnline && liveTimeline.length > 0
+    && !!analysisData?.liveState?.isLive && !analysisData.liveState.finished;
 
-  const handleAnalyze = async (home: string, away: string, league: string, liveState?: { score: string, time: string }) => {
+  useEffect(() => {
+    if (!isTrackingLive) return;
+    const session = liveSessionRef.current;
+    const timer = setInterval(() => trackLive(session), LIVE_POLL_MS);
+    return () => clearInterval(timer);
+  }, [isTrackingLive, liveRefreshMinutes]);
+
+  const handleAnalyze = async (home: string, away: string, league: string, liveState?: { score: string, time: string }, sport: SportType = currentSport) => {
+    // Fixtures picked from "My Matches" may belong to another sport
+    if (sport !== currentSport) setCurrentSport(sport);
     setLoadingState(LoadingState.ANALYZING);
     setErrorMsg(null);
     setTeams({ home, away, league });
     setAnalysisData(null);
+    resetLiveTracker();
     
     window.scrollTo({ top: 0, behavior: 'smooth' });
 
     try {
-      const result = await analyzeMatch(home, away, league, liveState, currentSport);
-      setAnalysisData(result);
+      const stated = await analyzeMatch(home, away, league, liveState, sport);
+      const analysis = finalizeAnalysis(stated, home, away, league, sport, matchDate);
+      setAnalysisData(analysis);
+      resetLiveTracker(analysis, { home, away, league, sport, date: matchDate });
       setLoadingState(LoadingState.COMPLETE);
     } catch (error) {
+      if (error instanceof OfflineError && !liveState) {
+        setQueuedAnalyses(analysisQueueService.enqueue(home, away, league, sport, matchDate));
+        setLoadingState(LoadingState.QUEUED);
+        return;
+      }
       console.error(error);
-      setErrorMsg("Failed to analyze match. This may be due to high demand or data connectivity. Please try again.");
+      setErrorMsg(error instanceof OfflineError ? error.message : "Failed to analyze match. This may be due to high demand or data connectivity. Please try again.");
       setLoadingState(LoadingState.ERROR);
     }
   };
 
+  const handleViewCompleted = (entry: CompletedAnalysis) => {
+    const { request, analysis } = entry;
+    if (request.sport !== currentSport) setCurrentSport(request.sport);
+    setTeams({ home: request.home, away: request.away, league: request.league });
+    setAnalysisData(analysis);
+    resetLiveTracker();
+    setErrorMsg(null);
+    setLoadingState(LoadingState.COMPLETE);
+    setCompletedAnalyses(prev => prev.filter(e => e !== entry));
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleCancelQueued = (id: string) => {
+    setQueuedAnalyses(analysisQueueService.remove(id));
+  };
+
+  const handleRetryQueued = (id: string) => {
+    setQueuedAnalyses(analysisQueueService.retry(id));
+    setDrainRequests(n => n + 1);
+  };
+
+  const handleRemoveLedgerEntry = (id: string) => {
+    ledgerService.remove(id);
+    setLedgerEntries(ledgerService.getEntries());
+  };
+
+  const handleToggleFavouriteTeam = (name: string, sport: SportType) => {
+    setFavourites(favouritesService.toggleTeam(name, sport));
+  };
+
+  const handleToggleFavouriteLeague = (name: string, sport: SportType) => {
+    setFavourites(favouritesService.toggleLeague(name, sport));
+  };
+
+  const handleToggleWatch = async (match: MatchFixture, sport: SportType) => {
+    setWatchlist(watchlistService.toggle(match, sport, matchDate));
+    if (notificationService.permission() === 'default') await notificationService.requestPermission();
+  };
+
+  const handleRemoveWatch = (id: string) => {
+    setWatchlist(watchlistService.remove(id));
+  };
+
+  const handleReminderMinutesChange = (minutes: number) => {
+    setReminderMinutes(minutes);
+    settingsService.update({ reminderMinutes: minutes });
+  };
+
+  // Viewing "today" stays on today in the new zone; any other picked day is kept as is
+  const handleTimeZoneChange = (zone: string) => {
+    if (matchDate === timeService.today(resolveTimeZone(timeZone))) setMatchDate(timeService.today(resolveTimeZone(zone)));
+    setTimeZone(zone);
+    settingsService.update({ timeZone: zone });
+  };
+
+  const handleLiveRefreshMinutesChange = (minutes: number) => {
+    setLiveRefreshMinutes(minutes);
+    settingsService.update({ liveRefreshMinutes: minutes });
+  };
+
+  const handleCalibrationChange = (method: CalibrationMethod | 'OFF') => {
+    setCalibrationMethod(method);
+    settingsService.update({ calibration: method });
+  };
+
+  useEffect(() => {
+    if (!pendingAnalysis) return;
+    const { home, away, league, sport } = pendingAnalysis;
+    setPendingAnalysis(null);
+    handleAnalyze(home, away, league, undefined, sport);
+  }, [pendingAnalysis]);
+
   const handleRetry = () => {
       if (teams.home && teams.away) {
           handleAnalyze(teams.home, teams.away, teams.league, undefined);
@@ -98,8 +421,11 @@ const App: React.FC = () => {
                 <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">Global Prediction Engine</span>
              </div>
           </div>
+          <UserMenu user={user} onLogout={onLogout} />
         </nav>
 
+        <OfflineBanner isOnline={isOnline} queued={queuedAnalyses} completed={completedAnalyses} onView={handleViewCompleted} onCancel={handleCancelQueued} onRetry={handleRetryQueued} />
+
         {/* Intro Content */}
         {loadingState === LoadingState.IDLE && !analysisData && (
           <div className="text-center mb-12 space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-700">
@@ -120,6 +446,26 @@ const App: React.FC = () => {
           onRefresh={loadMatches}
           selectedDate={matchDate}
           onDateChange={setMatchDate}
+          timeZone={timeZone}
+          onTimeZoneChange={handleTimeZoneChange}
+          currentSport={currentSport}
+          favourites={favourites}
+          onToggleFavouriteTeam={handleToggleFavouriteTeam}
+          onToggleFavouriteLeague={handleToggleFavouriteLeague}
+          allSportsMatches={allSportsMatches}
+          loadingAllSports={loadingAllSports}
+          onShowMyMatches={() => setShowingMyMatches(true)}
+          watchlist={watchlist}
+          onToggleWatch={handleToggleWatch}
+        />
+
+        <Watchlist
+          items={watchlist}
+          reminderMinutes={reminderMinutes}
+          timeZone={resolveTimeZone(timeZone)}
+          onReminderMinutesChange={handleReminderMinutesChange}
+          onRemove={handleRemoveWatch}
+          onAnalyze={(item) => handleAnalyze(item.fixture.home, item.fixture.away, item.fixture.league, item.lastStatus === 'LIVE' && item.fixture.score ? { score: item.fixture.score, time: item.fixture.time } : undefined, item.sport)}
         />
 
         {/* Input Section */}
@@ -128,6 +474,7 @@ const App: React.FC = () => {
             onAnalyze={(h, a, l) => handleAnalyze(h, a, l)} 
             onSportChange={setCurrentSport}
             currentSport={currentSport}
+            favourites={favourites}
             disabled={loadingState === LoadingState.ANALYZING} 
           />
         </div>
@@ -146,6 +493,16 @@ const App: React.FC = () => {
            </div>
         )}
 
+        {/* Queued While Offline */}
+        {loadingState === LoadingState.QUEUED && (
+           <div className="max-w-md mx-auto text-center p-6 bg-slate-800 border border-dashed border-slate-600 rounded-xl mb-8 shadow-xl">
+             <div className="text-amber-400 font-bold mb-2">Queued for When You're Back Online</div>
+             <p className="text-slate-400 text-sm">
+               There's no saved analysis for {teams.home} vs {teams.away}. It will run automatically once the connection returns.
+             </p>
+           </div>
+        )}
+
         {/* Results Section */}
         {loadingState === LoadingState.COMPLETE && analysisData && (
           <AnalysisResult 
@@ -153,6 +510,19 @@ const App: React.FC = () => {
             homeTeam={teams.home} 
             awayTeam={teams.away} 
             sport={currentSport}
+            league={teams.league}
+            matchDate={matchDate}
+            slip={betSlip}
+            onAddToSlip={(selection) => setBetSlip(betSlipService.add(selection))}
+          />
+        )}
+        {loadingState === LoadingState.COMPLETE && analysisData?.liveState && (
+          <LiveTimeline
+            entries={liveTimeline}
+            liveState={analysisData.liveState}
+            refreshing={liveRefreshing}
+            refreshMinutes={liveRefreshMinutes}
+            onRefreshMinutesChange={handleLiveRefreshMinutesChange}
           />
         )}
         
@@ -169,15 +539,61 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {/* Prediction Ledger */}
+        <PredictionLedger entries={ledgerEntries} onRemove={handleRemoveLedgerEntry} />
+        <CalibrationReport entries={ledgerEntries} method={calibrationMethod} onMethodChange={handleCalibrationChange} />
+
         <footer className="mt-24 text-center text-slate-600 text-sm pb-8">
           <p>&copy; {new Date().getFullYear()} MatchOracle AI. Data sourced via Google Search Grounding.</p>
           <p className="mt-2 text-xs opacity-60">Predictions are estimates. Please use responsibly.</p>
         </footer>
         
+        <BetSlip
+          selections={betSlip}
+          onRemove={(id) => setBetSlip(betSlipService.remove(id))}
+          onUpdateOdds={(id, odds) => setBetSlip(betSlipService.updateOdds(id, odds))}
+          onClear={() => setBetSlip(betSlipService.clear())}
+        />
         <OracleChat />
       </div>
     </div>
   );
 };
 
+const App: React.FC = () => {
+  const [user, setUser] = useState<User | null>(() => authService.getCurrentUser());
+  const [sessionExpired, setSessionExpired] = useState(false);
+
+  const handleLogout = useCallback(() => {
+    authService.logout();
+    setUser(null);
+  }, []);
+
+  // Drop back to the login screen once the session runs out
+  useEffect(() => {
+    if (!user) return;
+    const intervalId = setInterval(() => {
+      if (!authService.getCurrentUser()) {
+        setSessionExpired(true);
+        setUser(null);
+      }
+    }, SESSION_CHECK_MS);
+    return () => clearInterval(intervalId);
+  }, [user]);
+
+  return (
+    <>
+      <UpdatePrompt />
+      {user ? (
+        <Dashboard key={user.id} user={user} onLogout={handleLogout} />
+      ) : (
+        <LoginScreen
+          notice={sessionExpired ? "Your session expired. Please sign in again." : undefined}
+          onLoginSuccess={(u) => { setSessionExpired(false); setUser(u); }}
+        />
+      )}
+    </>
+  );
+};
+
 export default App;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { KeyRound, Trash2, X, Loader2, CheckCircle2 } from 'lucide-react';
+import { authService } from '../services/authService';
+import { User } from '../types';
+
+interface AccountSettingsProps {
+  user: User;
+  onClose: () => void;
+  onAccountDeleted: () => void;
+}
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-xl py-2.5 px-3 text-sm text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 focus:border-emerald-500 transition-all";
+
+export const AccountSettings: React.FC<AccountSettingsProps> = ({ user, onClose, onAccountDeleted }) => {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [deletePassword, setDeletePassword] = useState('');
+  const [busy, setBusy] = useState<'change' | 'delete' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [passwordChanged, setPasswordChanged] = useState(false);
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setPasswordChanged(false);
+    if (newPassword !== confirmPassword) {
+      setError("New passwords do not match.");
+      return;
+    }
+    setBusy('change');
+    try {
+      await authService.changePassword(user.id, currentPassword, newPassword);
+      setPasswordChanged(true);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+    } catch (err: any) {
+      setError(err.message || "Could not change password.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDeleteAccount = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!window.confirm("Delete your account? This cannot be undone.")) return;
+    setBusy('delete');
+    try {
+      await authService.deleteAccount(user.id, deletePassword);
+      onAccountDeleted();
+    } catch (err: any) {
+      setError(err.message || "Could not delete account.");
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-md bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="bg-slate-800 p-4 border-b border-slate-700 flex justify-between items-center">
+          <div>
+            <div className="font-bold text-white">Account</div>
+            <div className="text-xs text-slate-500">{user.email}</div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-6">
+          <form onSubmit={handleChangePassword} className="space-y-3">
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+              <KeyRound className="w-4 h-4 text-emerald-400" /> Change Password
+            </h4>
+            <input type="password" value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} className={inputClass} placeholder="Current password" required />
+            <input type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} className={inputClass} placeholder="New password (8+ characters)" required />
+            <input type="password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} className={inputClass} placeholder="Confirm new password" required />
+            <button type="submit" disabled={busy !== null} className="w-full bg-emerald-600 hover:bg-emerald-500 text-white text-sm font-bold py-2.5 rounded-xl flex items-center justify-center gap-2 disabled:opacity-60">
+              {busy === 'change' ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Update Password'}
+            </button>
+            {passwordChanged && (
+              <div className="text-emerald-400 text-xs flex items-center gap-1"><CheckCircle2 className="w-3 h-3" /> Password updated.</div>
+            )}
+          </form>
+
+          <form onSubmit={handleDeleteAccount} className="space-y-3 pt-5 border-t border-slate-800">
+            <h4 className="text-xs font-bold text-rose-400 uppercase tracking-wider flex items-center gap-2">
+              <Trash2 className="w-4 h-4" /> Delete Account
+            </h4>
+            <input type="password" value={deletePassword} onChange={(e) => setDeletePassword(e.target.value)} className={inputClass} placeholder="Confirm with your password" required />
+            <button type="submit" disabled={busy !== null} className="w-full bg-rose-600/20 hover:bg-rose-600/30 text-rose-400 border border-rose-500/30 text-sm font-bold py-2.5 rounded-xl flex items-center justify-center gap-2 disabled:opacity-60">
+              {busy === 'delete' ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Delete My Account'}
+            </button>
+          </form>
+
+          {error && (
+            <div className="text-rose-400 text-xs text-center bg-rose-500/10 py-3 rounded-lg border border-rose-500/20">
+              {error}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
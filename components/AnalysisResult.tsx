@@ -1,16 +1,31 @@
 
-import React, { useState, useEffect } from 'react';
-import { MatchAnalysis, PlayerStat, SportType } from '../types';
-import { TrendingUp, History, AlertTriangle, Activity, ExternalLink, CheckCircle2, Flag, Goal, Percent, BarChart3, Shield, Trophy, Users, Coins, RefreshCw, StickyNote, Timer, Radio, User, Siren, Dribbble, Snowflake, Hand, GripHorizontal, CloudRain, Gavel, Brain, Zap, ArrowRightCircle, Target, Sparkles, EyeOff, Minus, MessageCircle, MapPin, Volume2, Image as ImageIcon, Video, Loader2, Play } from 'lucide-react';
-import { fetchLiveOdds, fetchTeamDetails, getStadiumDetails, playMatchAudio, generateMatchImage } from '../services/geminiService';
+import React, { useState, useEffect, useMemo } from 'react';
+import { BetSelection, CourtSurface, MatchAnalysis, MatchStats, PlayerStat, Provenance, SportType, ValidationIssue } from '../types';
+import { TrendingUp, History, AlertTriangle, Activity, ExternalLink, CheckCircle2, Percent, BarChart3, Shield, Trophy, Users, Coins, RefreshCw, Timer, Radio, User, Siren, CloudRain, Gavel, Brain, Zap, ArrowRightCircle, Target, Sparkles, EyeOff, Minus, MessageCircle, MapPin, Volume2, Image as ImageIcon, Video, Loader2, Play, ShieldAlert, Sigma, LineChart, Flame, Ticket, Plus, CloudOff } from 'lucide-react';
+import { fetchLiveOdds, fetchTeamDetails, getStadiumDetails, playMatchAudio, generateMatchImage, isDegraded } from '../services/geminiService';
+import { ModelComparison, compareWithModel, probabilityOf } from '../services/statModelService';
+import { parseScore } from '../services/ledgerService';
+import { MAX_SELECTIONS } from '../services/betSlipService';
+import { BankrollManager } from './BankrollManager';
+import { confidenceFromProbabilities } from '../services/calibrationService';
+import { DEVIG_METHODS, DevigMethod, ODDS_FORMATS, OddsFormat, calculateEdge, formatOdds, removeMargin } from '../services/oddsService';
+import { settingsService } from '../services/settingsService';
+import { getSport } from '../services/sportRegistry';
+import { OddsSnapshot, detectSteam, oddsHistoryService } from '../services/oddsHistoryService';
 
 interface AnalysisResultProps {
   data: MatchAnalysis;
   homeTeam: string;
   awayTeam: string;
   sport: SportType;
+  league?: string;
+  matchDate?: string;
+  slip?: BetSelection[];
+  onAddToSlip?: (selection: Omit<BetSelection, 'id' | 'addedAt'>) => void;
 }
 
+type SlipPick = Pick<BetSelection, 'market' | 'pick' | 'label' | 'odds' | 'modelProbability'>;
+
 const SectionCard: React.FC<{ title: string; icon: React.ReactNode; children: React.ReactNode; colorClass: string; className?: string }> = ({ title, icon, children, colorClass, className = '' }) => (
   <div className={`bg-slate-800/40 border border-slate-700/50 rounded-xl overflow-hidden h-full flex flex-col transition-all duration-500 ${className}`}>
     <div className={`px-5 py-3 border-b border-slate-700/50 bg-slate-800/60 flex items-center space-x-2 ${colorClass}`}>
@@ -58,6 +73,65 @@ const RiskAlert: React.FC<{ content: string; className?: string }> = ({ content,
   );
 };
 
+const PROVENANCE_NOTICES: Record<Exclude<Provenance, 'live'>, { title: string; body: string }> = {
+  fallback: {
+    title: 'Estimated Analysis',
+    body: 'The data provider is unavailable or rate limited. The numbers below are a heuristic estimate, not grounded in live data.',
+  },
+  cached: {
+    title: 'Cached Analysis',
+    body: "You're offline, so this is the copy saved the last time the match was analyzed. Odds, injuries and form may have changed since.",
+  },
+  mock: {
+    title: 'Demo Data',
+    body: 'Produced by the offline demo provider from recorded responses, not live data. Prices and picks are for trying out the tools only.',
+  },
+};
+
+const ProvenanceBanner: React.FC<{ provenance: Exclude<Provenance, 'live'>; savedAt?: number }> = ({ provenance, savedAt }) => {
+  const notice = PROVENANCE_NOTICES[provenance];
+  return (
+    <div className="w-full bg-slate-900/80 border-2 border-dashed border-slate-600 rounded-xl p-4 flex items-start space-x-3">
+      <div className="bg-slate-700/50 p-2 rounded-lg mt-0.5">
+        <CloudOff className="w-5 h-5 text-slate-300" />
+      </div>
+      <div className="flex-1">
+        <div className="flex items-center justify-between gap-2 mb-1">
+          <h3 className="text-sm font-bold text-slate-200 uppercase tracking-wider">{notice.title}</h3>
+          {savedAt && (
+            <span className="text-xs font-mono text-slate-500">
+              Saved {new Date(savedAt).toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+            </span>
+          )}
+        </div>
+        <p className="text-sm text-slate-400 leading-relaxed">{notice.body}{isDegraded(provenance) && ' Betting tools and sharing are disabled.'}</p>
+      </div>
+    </div>
+  );
+};
+
+const DataQualityNotice: React.FC<{ issues?: ValidationIssue[]; className?: string }> = ({ issues, className = '' }) => {
+  const rejected = issues?.filter(i => i.action === 'rejected') || [];
+  const repaired = issues?.filter(i => i.action === 'repaired') || [];
+  if (rejected.length === 0 && repaired.length === 0) return null;
+
+  return (
+    <details className={`w-full bg-amber-500/5 border border-amber-500/20 rounded-xl px-4 py-3 text-sm transition-all ${className}`}>
+      <summary className="flex items-center gap-2 cursor-pointer text-amber-400 font-bold text-xs uppercase tracking-wider">
+        <ShieldAlert className="w-4 h-4" />
+        Data Quality: {rejected.length} rejected, {repaired.length} repaired fields
+      </summary>
+      <ul className="mt-3 space-y-1 text-xs font-mono">
+        {[...rejected, ...repaired].map((issue, idx) => (
+          <li key={idx} className={issue.action === 'rejected' ? 'text-rose-400' : 'text-slate-400'}>
+            {issue.action === 'rejected' ? '✕' : '~'} {issue.field}: {issue.reason}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
 const RefereeBadge: React.FC<{ text: string }> = ({ text }) => {
   const lower = text.toLowerCase();
   let tendency = "Moderate";
@@ -134,8 +208,9 @@ const LivePredictionPanel: React.FC<{
   liveTip?: string,
   score: string, 
   time: string,
+  nextLabel?: string,
   className?: string 
-}> = ({ content, nextGoal, liveTip, score, time, className = '' }) => {
+}> = ({ content, nextGoal, liveTip, score, time, nextLabel = 'Next Goal', className = '' }) => {
   return (
     <div className={`bg-slate-950 border border-rose-500/30 rounded-2xl overflow-hidden mb-8 shadow-2xl shadow-rose-900/20 animate-in fade-in slide-in-from-top-6 duration-700 transition-all ${className}`}>
       <div className="bg-rose-500/10 border-b border-rose-500/20 px-6 py-4 flex items-center justify-between">
@@ -175,7 +250,7 @@ const LivePredictionPanel: React.FC<{
          <div className="bg-slate-900/50 rounded-xl p-4 border border-slate-800 flex flex-col justify-center items-center text-center relative overflow-hidden group">
             <div className="absolute inset-0 bg-rose-500/5 group-hover:bg-rose-500/10 transition-colors"></div>
             <Target className="w-10 h-10 text-rose-500 mb-3 animate-pulse" />
-            <div className="text-xs text-slate-500 uppercase font-bold tracking-wider mb-1">Next Goal Prediction</div>
+            <div className="text-xs text-slate-500 uppercase font-bold tracking-wider mb-1">{nextLabel} Prediction</div>
             <div className="text-white font-bold text-lg md:text-xl">{nextGoal || "Analyzing..."}</div>
          </div>
       </div>
@@ -183,7 +258,17 @@ const LivePredictionPanel: React.FC<{
   );
 };
 
-const FormTrendChart: React.FC<{ homeData: number[]; awayData: number[]; homeTeam: string; awayTeam: string; sport: SportType }> = ({ homeData, awayData, homeTeam, awayTeam, sport }) => {
+const SURFACE_STYLES: Record<CourtSurface, { label: string; className: string }> = {
+  HARD: { label: 'Hard', className: 'text-sky-400 border-sky-500/30 bg-sky-500/10' },
+  CLAY: { label: 'Clay', className: 'text-orange-400 border-orange-500/30 bg-orange-500/10' },
+  GRASS: { label: 'Grass', className: 'text-lime-400 border-lime-500/30 bg-lime-500/10' },
+  INDOOR: { label: 'Indoor', className: 'text-violet-400 border-violet-500/30 bg-violet-500/10' },
+};
+
+const formCaption = (sport: SportType, surface?: CourtSurface) =>
+  `${getSport(sport).chart.caption}${surface ? ` on ${SURFACE_STYLES[surface].label}` : ''} (Last 5)`;
+
+const FormTrendChart: React.FC<{ homeData: number[]; awayData: number[]; homeTeam: string; awayTeam: string; sport: SportType; surface?: CourtSurface }> = ({ homeData, awayData, homeTeam, awayTeam, sport, surface }) => {
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
   const height = 100;
   const width = 300;
@@ -194,8 +279,9 @@ const FormTrendChart: React.FC<{ homeData: number[]; awayData: number[]; homeTea
   const safeHomeData = homeData && homeData.length > 0 ? homeData : [0,0,0,0,0];
   const safeAwayData = awayData && awayData.length > 0 ? awayData : [0,0,0,0,0];
 
-  const maxVal = Math.max(...safeHomeData, ...safeAwayData, sport === 'BASKETBALL' ? 120 : 3); 
-  const minVal = sport === 'BASKETBALL' ? Math.min(...safeHomeData, ...safeAwayData) * 0.8 : 0;
+  const { chart } = getSport(sport);
+  const maxVal = Math.max(...safeHomeData, ...safeAwayData, chart.floor); 
+  const minVal = chart.zeroBased ? 0 : Math.min(...safeHomeData, ...safeAwayData) * 0.8;
   
   const getPoints = (data: number[]) => {
     return data.map((val, idx) => {
@@ -229,7 +315,10 @@ const FormTrendChart: React.FC<{ homeData: number[]; awayData: number[]; homeTea
             <polyline points={homePoints} fill="none" stroke="#10b981" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" className="drop-shadow-md"/>
             <polyline points={awayPoints} fill="none" stroke="#f43f5e" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" className="drop-shadow-md"/>
          </svg>
-         <div className="text-center text-[10px] text-slate-500 mt-1 uppercase tracking-wider">{sport === 'BASKETBALL' ? 'Points Scored (Last 5)' : 'Goals Scored (Last 5)'}</div>
+         <div className="flex items-center justify-center gap-2 text-[10px] text-slate-500 mt-1 uppercase tracking-wider">
+           {surface && <span className={`font-bold px-1.5 py-0.5 rounded border ${SURFACE_STYLES[surface].className}`}>{SURFACE_STYLES[surface].label}</span>}
+           <span>{formCaption(sport, surface)}</span>
+         </div>
       </div>
     </div>
   );
@@ -265,29 +354,50 @@ const OddsDisplay: React.FC<{
   probabilities?: { home: number; draw: number; away: number },
   isRefreshing: boolean, 
   onRefresh: () => void,
-  bettingMode: boolean
-}> = ({ odds, probabilities, isRefreshing, onRefresh, bettingMode }) => {
-  
-  const calculateEdge = (prob: number, odd: number) => {
-    if (!prob || !odd) return null;
-    const impliedProb = (1 / odd) * 100;
-    const edge = prob - impliedProb;
+  bettingMode: boolean,
+  format: OddsFormat,
+  devigMethod: DevigMethod,
+  onFormatChange: (format: OddsFormat) => void,
+  onDevigMethodChange: (method: DevigMethod) => void,
+  homeLabel?: string,
+  awayLabel?: string
+}> = ({ odds, probabilities, isRefreshing, onRefresh, bettingMode, format, devigMethod, onFormatChange, onDevigMethodChange, homeLabel = 'Home', awayLabel = 'Away' }) => {
+  // Two-way markets (tennis, or a book with no draw price) drop the middle column
+  const hasDraw = odds.draw > 1;
+
+  const market = removeMargin(odds, devigMethod);
+
+  // Value only counts against the margin-free price
+  const valueEdge = (prob: number | undefined, fair: number | undefined) => {
+    if (!prob || !fair) return null;
+    const edge = calculateEdge(prob, fair);
     return edge > 5.0 ? edge : null; // Show value if edge > 5%
   };
 
-  const homeEdge = probabilities ? calculateEdge(probabilities.home, odds.homeWin) : null;
-  const awayEdge = probabilities ? calculateEdge(probabilities.away, odds.awayWin) : null;
-  const drawEdge = probabilities ? calculateEdge(probabilities.draw, odds.draw) : null;
+  const homeEdge = valueEdge(probabilities?.home, market?.fair.home);
+  const awayEdge = valueEdge(probabilities?.away, market?.fair.away);
+  const drawEdge = valueEdge(probabilities?.draw, market?.fair.draw);
 
   const ValueBadge = ({ edge }: { edge: number | null }) => {
     if (!bettingMode || !edge) return null;
     return (
-      <div className="absolute -top-2 -right-2 bg-amber-400 text-amber-950 text-[9px] font-black px-1.5 py-0.5 rounded-full shadow-lg animate-pulse flex items-center border border-amber-300">
+      <div className="absolute -top-2 -right-2 bg-amber-400 text-amber-950 text-[9px] font-black px-1.5 py-0.5 rounded-full shadow-lg animate-pulse flex items-center border border-amber-300" title={`+${edge} pts vs fair price`}>
         <Sparkles className="w-2 h-2 mr-0.5" /> VALUE
       </div>
     );
   };
 
+  const PriceCell = ({ label, price, fair, implied, edge, priceClass, hoverClass }: { label: string; price: number; fair?: number; implied?: number; edge: number | null; priceClass: string; hoverClass: string }) => (
+    <div className={`bg-slate-800/80 rounded-lg p-3 border transition-all relative ${edge ? 'border-amber-500/50 shadow-[0_0_15px_rgba(245,158,11,0.15)]' : `border-slate-700 ${hoverClass}`}`}>
+       <ValueBadge edge={edge} />
+       <div className="text-[10px] text-slate-500 uppercase font-bold mb-1">{label}</div>
+       <div className={`${priceClass} font-bold font-mono text-lg`}>{formatOdds(price, format)}</div>
+       <div className="text-[9px] text-slate-600 mt-1 border-t border-slate-700/50 pt-1" title={implied ? `Raw implied: ${implied}%` : undefined}>
+         {fair ? `Fair: ${fair.toFixed(0)}%` : '-'}
+       </div>
+    </div>
+  );
+
   return (
     <div className="bg-slate-900/80 border border-amber-500/30 rounded-xl p-4 relative overflow-hidden">
       {/* Active Pulse Indicator */}
@@ -305,33 +415,33 @@ const OddsDisplay: React.FC<{
         </div>
       </div>
 
-      <div className="grid grid-cols-3 gap-3 text-center">
-        <div className={`bg-slate-800/80 rounded-lg p-3 border transition-all relative ${homeEdge ? 'border-amber-500/50 shadow-[0_0_15px_rgba(245,158,11,0.15)]' : 'border-slate-700 hover:border-emerald-500/30'}`}>
-           <ValueBadge edge={homeEdge} />
-           <div className="text-[10px] text-slate-500 uppercase font-bold mb-1">Home</div>
-           <div className="text-emerald-400 font-bold font-mono text-lg">{odds.homeWin.toFixed(2)}</div>
-           <div className="text-[9px] text-slate-600 mt-1 border-t border-slate-700/50 pt-1">
-             Implied: {((1/odds.homeWin)*100).toFixed(0)}%
-           </div>
-        </div>
-        
-        <div className={`bg-slate-800/80 rounded-lg p-3 border transition-all relative ${drawEdge ? 'border-amber-500/50 shadow-[0_0_15px_rgba(245,158,11,0.15)]' : 'border-slate-700 hover:border-slate-500/30'}`}>
-           <ValueBadge edge={drawEdge} />
-           <div className="text-[10px] text-slate-500 uppercase font-bold mb-1">Draw</div>
-           <div className="text-slate-200 font-bold font-mono text-lg">{odds.draw === 0 ? '-' : odds.draw.toFixed(2)}</div>
-           <div className="text-[9px] text-slate-600 mt-1 border-t border-slate-700/50 pt-1">
-             {odds.draw > 0 ? `Implied: ${((1/odds.draw)*100).toFixed(0)}%` : '-'}
-           </div>
-        </div>
-        
-        <div className={`bg-slate-800/80 rounded-lg p-3 border transition-all relative ${awayEdge ? 'border-amber-500/50 shadow-[0_0_15px_rgba(245,158,11,0.15)]' : 'border-slate-700 hover:border-rose-500/30'}`}>
-           <ValueBadge edge={awayEdge} />
-           <div className="text-[10px] text-slate-500 uppercase font-bold mb-1">Away</div>
-           <div className="text-rose-400 font-bold font-mono text-lg">{odds.awayWin.toFixed(2)}</div>
-           <div className="text-[9px] text-slate-600 mt-1 border-t border-slate-700/50 pt-1">
-             Implied: {((1/odds.awayWin)*100).toFixed(0)}%
-           </div>
-        </div>
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-[10px]">
+        <select
+          value={format}
+          onChange={(e) => onFormatChange(e.target.value as OddsFormat)}
+          className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-300 font-bold outline-none cursor-pointer"
+        >
+          {ODDS_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+        </select>
+        <select
+          value={devigMethod}
+          onChange={(e) => onDevigMethodChange(e.target.value as DevigMethod)}
+          className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-300 font-bold outline-none cursor-pointer"
+          title="Margin removal method"
+        >
+          {DEVIG_METHODS.map(m => <option key={m.id} value={m.id}>{m.label} de-vig</option>)}
+        </select>
+        {market && (
+          <span className="ml-auto font-bold uppercase tracking-wider text-slate-500">
+            Overround: <span className={market.overround > 8 ? 'text-rose-400' : 'text-slate-300'}>{market.overround.toFixed(1)}%</span>
+          </span>
+        )}
+      </div>
+
+      <div className={`grid ${hasDraw ? 'grid-cols-3' : 'grid-cols-2'} gap-3 text-center`}>
+        <PriceCell label={homeLabel} price={odds.homeWin} fair={market?.fair.home} implied={market?.implied.home} edge={homeEdge} priceClass="text-emerald-400" hoverClass="hover:border-emerald-500/30" />
+        {hasDraw && <PriceCell label="Draw" price={odds.draw} fair={market?.fair.draw} implied={market?.implied.draw} edge={drawEdge} priceClass="text-slate-200" hoverClass="hover:border-slate-500/30" />}
+        <PriceCell label={awayLabel} price={odds.awayWin} fair={market?.fair.away} implied={market?.implied.away} edge={awayEdge} priceClass="text-rose-400" hoverClass="hover:border-rose-500/30" />
       </div>
       
       <div className="mt-3 text-[10px] text-slate-600 text-center flex items-center justify-center gap-1">
@@ -342,12 +452,148 @@ const OddsDisplay: React.FC<{
   );
 };
 
+const OddsMovementChart: React.FC<{ snapshots: OddsSnapshot[]; homeTeam: string; awayTeam: string }> = ({ snapshots, homeTeam, awayTeam }) => {
+  const height = 120;
+  const width = 300;
+  const padding = 10;
+  const chartW = width - padding * 2;
+  const chartH = height - padding * 2;
+  const steam = detectSteam(snapshots);
+
+  const series = [
+    { key: 'homeWin' as const, label: homeTeam, color: '#10b981' },
+    { key: 'draw' as const, label: 'Draw', color: '#94a3b8' },
+    { key: 'awayWin' as const, label: awayTeam, color: '#f43f5e' },
+  ].filter(s => snapshots.some(snap => snap[s.key] > 1));
+
+  const prices = snapshots.flatMap(snap => series.map(s => snap[s.key])).filter(p => p > 1);
+  const maxVal = Math.max(...prices) * 1.05;
+  const minVal = Math.min(...prices) * 0.95;
+  const start = snapshots[0]?.timestamp || 0;
+  const span = Math.max(1, (snapshots.at(-1)?.timestamp || 0) - start);
+
+  const getPoints = (key: 'homeWin' | 'draw' | 'awayWin') => snapshots
+    .filter(snap => snap[key] > 1)
+    .map(snap => {
+      const x = padding + ((snap.timestamp - start) / span) * chartW;
+      const y = height - padding - ((snap[key] - minVal) / (maxVal - minVal)) * chartH;
+      return `${x},${y}`;
+    }).join(' ');
+
+  const formatTime = (ts: number) => new Date(ts).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="bg-slate-900/80 border border-slate-700/50 rounded-xl p-4 h-full flex flex-col">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-xs font-bold text-cyan-400 uppercase tracking-wider flex items-center gap-2">
+          <LineChart className="w-4 h-4" /> Line Movement
+        </h4>
+        {steam && (
+          <span className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded border bg-orange-500/10 text-orange-400 border-orange-500/30 animate-pulse">
+            <Flame className="w-3 h-3" /> Steam: {steam.selection} {steam.from.toFixed(2)} → {steam.to.toFixed(2)}
+          </span>
+        )}
+      </div>
+      {snapshots.length < 2 ? (
+        <div className="flex-1 flex items-center justify-center text-xs text-slate-500 text-center py-8">
+          Tracking prices. Movement appears after the next odds refresh.
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-3 mb-2 text-[10px] font-semibold">
+            {series.map(s => (
+              <div key={s.key} className="flex items-center gap-1">
+                <div className="w-2 h-2 rounded-full" style={{ backgroundColor: s.color }}></div>
+                <span className="text-slate-400 truncate max-w-[90px]">{s.label}</span>
+                <span className="font-mono text-slate-300">{snapshots[0][s.key].toFixed(2)} → {snapshots.at(-1)![s.key].toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+          <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-28 overflow-visible">
+            {[0, 0.5, 1].map(t => (
+              <line key={t} x1={padding} y1={padding + t * chartH} x2={width-padding} y2={padding + t * chartH} stroke="#334155" strokeWidth="1" strokeDasharray="4 4"/>
+            ))}
+            {series.map(s => (
+              <polyline key={s.key} points={getPoints(s.key)} fill="none" stroke={s.color} strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+            ))}
+          </svg>
+          <div className="flex justify-between text-[10px] text-slate-500 mt-1 font-mono">
+            <span>{formatTime(start)}</span>
+            <span>{snapshots.length} snapshots</span>
+            <span>{formatTime(snapshots.at(-1)!.timestamp)}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const ModelComparisonPanel: React.FC<{
+  comparison: ModelComparison,
+  llmScore?: string,
+  llmProbabilities: { home: number; draw: number; away: number },
+  homeTeam: string,
+  awayTeam: string,
+  className?: string
+}> = ({ comparison, llmScore, llmProbabilities, homeTeam, awayTeam, className = '' }) => {
+  const { model, disagrees, maxDeviation, favouriteDiffers } = comparison;
+  const rows = [
+    { label: `${homeTeam} Win`, llm: llmProbabilities.home, model: model.winProbability.home },
+    { label: 'Draw', llm: llmProbabilities.draw, model: model.winProbability.draw },
+    { label: `${awayTeam} Win`, llm: llmProbabilities.away, model: model.winProbability.away },
+  ];
+
+  return (
+    <div className={`bg-slate-800/40 border rounded-xl p-6 transition-all duration-500 ${disagrees ? 'border-amber-500/40' : 'border-slate-700/50'} ${className}`}>
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-2 text-cyan-400">
+          <Sigma className="w-5 h-5" />
+          <h3 className="font-semibold tracking-wide">Statistical Model vs AI</h3>
+        </div>
+        {disagrees ? (
+          <span className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded border bg-amber-500/10 text-amber-400 border-amber-500/20">
+            <AlertTriangle className="w-3 h-3" /> {favouriteDiffers ? 'Different Favourite' : `Disagree by ${maxDeviation} pts`}
+          </span>
+        ) : (
+          <span className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded border bg-emerald-500/10 text-emerald-400 border-emerald-500/20">
+            <CheckCircle2 className="w-3 h-3" /> Models Agree
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="md:col-span-2 space-y-3">
+          <div className="grid grid-cols-3 text-[10px] text-slate-500 uppercase font-bold tracking-wider">
+            <span>Outcome</span><span className="text-center">AI</span><span className="text-center">Dixon-Coles</span>
+          </div>
+          {rows.map(row => (
+            <div key={row.label} className="grid grid-cols-3 items-center text-sm">
+              <span className="text-slate-300 truncate">{row.label}</span>
+              <span className="text-center font-mono text-white">{row.llm}%</span>
+              <span className={`text-center font-mono font-bold ${Math.abs(row.llm - row.model) >= 15 ? 'text-amber-400' : 'text-cyan-400'}`}>{row.model}%</span>
+            </div>
+          ))}
+          <div className="text-[10px] text-slate-500 pt-2 border-t border-slate-700/50">
+            Expected goals: {homeTeam} {model.lambdaHome} • {awayTeam} {model.lambdaAway} • Over {model.totals.line}: {model.totals.over}%
+          </div>
+        </div>
+        <div className="bg-slate-900/50 rounded-lg p-4 border border-slate-700/50 text-center space-y-2">
+          <div className="text-[10px] text-slate-500 uppercase font-bold tracking-wider">Most Likely Score</div>
+          <div className="text-3xl font-black text-white font-mono">{model.mostLikely.score}</div>
+          <div className="text-xs text-cyan-400">{model.mostLikely.probability}%</div>
+          <div className="text-[10px] text-slate-500 pt-2 border-t border-slate-700/50">AI: {llmScore || '-'}</div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const PossessionMeter: React.FC<{ home: number; away: number; homeTeam: string; awayTeam: string; sport: SportType }> = ({ home, away, homeTeam, awayTeam, sport }) => {
   return (
     <div className="space-y-2">
       <div className="flex justify-between text-xs text-slate-400 font-semibold">
         <span>{homeTeam}</span>
-        <span className="text-slate-500">{sport === 'SOCCER' ? 'Possession' : 'Win % Trend'}</span>
+        <span className="text-slate-500">{getSport(sport).possessionLabel}</span>
         <span>{awayTeam}</span>
       </div>
       <div className="flex items-center space-x-2">
@@ -369,23 +615,24 @@ const StrengthComparison: React.FC<{
   keyPlayers?: { home: PlayerStat[], away: PlayerStat[] },
   homeTeam: string, awayTeam: string 
 }> = ({ homeValue, awayValue, homePosition, awayPosition, homeRating, awayRating, keyPlayers, homeTeam, awayTeam }) => {
-  const hRating = homeRating || 50;
-  const aRating = awayRating || 50;
+  const hasRatings = homeRating !== undefined && awayRating !== undefined;
   return (
     <div className="bg-slate-900/50 rounded-lg p-4 space-y-4 border border-slate-700/50 mb-4">
       <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2 flex items-center gap-2">
          <Shield className="w-3 h-3" /> Squad Strength
       </h4>
-      <div className="space-y-1">
-        <div className="h-2 w-full bg-slate-800 rounded-full flex overflow-hidden">
-           <div style={{ width: `${hRating}%` }} className="bg-emerald-500 h-full"></div>
-           <div className="flex-1 bg-transparent"></div>
-        </div>
-        <div className="h-2 w-full bg-slate-800 rounded-full flex overflow-hidden transform rotate-180">
-           <div style={{ width: `${aRating}%` }} className="bg-rose-500 h-full"></div>
-           <div className="flex-1 bg-transparent"></div>
+      {hasRatings && (
+        <div className="space-y-1">
+          <div className="h-2 w-full bg-slate-800 rounded-full flex overflow-hidden">
+             <div style={{ width: `${homeRating}%` }} className="bg-emerald-500 h-full"></div>
+             <div className="flex-1 bg-transparent"></div>
+          </div>
+          <div className="h-2 w-full bg-slate-800 rounded-full flex overflow-hidden transform rotate-180">
+             <div style={{ width: `${awayRating}%` }} className="bg-rose-500 h-full"></div>
+             <div className="flex-1 bg-transparent"></div>
+          </div>
         </div>
-      </div>
+      )}
       <div className="grid grid-cols-2 gap-4 text-xs pb-2">
         <div className="space-y-1">
            <div className="text-slate-500">Standing</div>
@@ -437,7 +684,50 @@ const StrengthComparison: React.FC<{
   );
 }
 
-export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, homeTeam, awayTeam, sport }) => {
+const SlipPicker: React.FC<{
+  picks: SlipPick[],
+  slip: BetSelection[],
+  homeTeam: string,
+  awayTeam: string,
+  onAdd: (pick: SlipPick) => void,
+  className?: string
+}> = ({ picks, slip, homeTeam, awayTeam, onAdd, className = '' }) => {
+  const isInSlip = (pick: SlipPick) => slip.some(s =>
+    s.homeTeam === homeTeam && s.awayTeam === awayTeam && s.market === pick.market && s.pick === pick.pick
+  );
+
+  return (
+    <div className={`bg-slate-800/40 border border-slate-700/50 rounded-xl p-4 transition-all duration-500 ${className}`}>
+      <div className="flex items-center space-x-2 mb-3 text-amber-400">
+        <Ticket className="w-5 h-5" />
+        <h3 className="font-semibold tracking-wide">Add to Bet Slip</h3>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {picks.map(pick => {
+          const added = isInSlip(pick);
+          const full = !added && slip.length >= MAX_SELECTIONS;
+          return (
+            <button
+              key={`${pick.market}_${pick.pick}`}
+              onClick={() => onAdd(pick)}
+              disabled={added || full}
+              title={full ? `Bet slip is full (${MAX_SELECTIONS} selections)` : undefined}
+              className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-bold border transition-colors disabled:opacity-60 ${
+                added ? 'bg-amber-500/10 border-amber-500/30 text-amber-400 cursor-default' : 'bg-slate-900/60 border-slate-700 text-slate-300 hover:border-amber-500/50 hover:text-white'
+              }`}
+            >
+              {added ? <CheckCircle2 className="w-3 h-3" /> : <Plus className="w-3 h-3" />}
+              {pick.label}
+              <span className="font-mono text-slate-500">{pick.odds ? `@ ${pick.odds.toFixed(2)}` : ''}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, homeTeam, awayTeam, sport, league = '', matchDate = '', slip = [], onAddToSlip }) => {
   const { scorePrediction, scoreProbability, totalGoals, corners, cards, weather, referee, redFlags, confidence, summary, recentForm, headToHead, keyFactors, predictionLogic, liveAnalysis, nextGoal, liveTip } = data.sections;
   const stats = data.stats;
   const liveState = data.liveState;
@@ -445,6 +735,11 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, homeTeam,
   const [isRefreshingOdds, setIsRefreshingOdds] = useState(false);
   const [comparison, setComparison] = useState(stats?.comparison);
   const [bettingMode, setBettingMode] = useState(false);
+  // Fallback and cached data get a degraded view: no betting angles, odds tools or sharing
+  const degraded = isDegraded(data.provenance);
+  const [oddsFormat, setOddsFormat] = useState<OddsFormat>(() => settingsService.get().oddsFormat);
+  const [devigMethod, setDevigMethod] = useState<DevigMethod>(() => settingsService.get().devigMethod);
+  const [oddsHistory, setOddsHistory] = useState<OddsSnapshot[]>(() => oddsHistoryService.getHistory(homeTeam, awayTeam, sport));
   
   // New Features State
   const [stadium, setStadium] = useState<{text: string, mapLink?: {uri: string, title: string}} | null>(null);
@@ -452,6 +747,49 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, homeTeam,
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
   const [isPlayingAudio, setIsPlayingAudio] = useState(false);
 
+  const sportDef = getSport(sport);
+
+  // Confidence follows the (possibly calibrated) numbers; the model's own label is only a fallback
+  const confidenceLevel = stats ? confidenceFromProbabilities(stats.winProbability) : confidence;
+
+  const modelComparison = useMemo(() => {
+    if (!stats) return null;
+    return compareWithModel({ ...stats, comparison: comparison || stats.comparison }, sport);
+  }, [stats, comparison, sport]);
+
+  const slipPicks = useMemo(() => {
+    const picks: SlipPick[] = [];
+    if (stats) {
+      const wp = stats.winProbability;
+      picks.push({ market: '1X2', pick: 'HOME', label: `${homeTeam} Win`, odds: odds?.homeWin || undefined, modelProbability: wp.home });
+      if (odds?.draw || wp.draw) picks.push({ market: '1X2', pick: 'DRAW', label: 'Draw', odds: odds?.draw || undefined, modelProbability: wp.draw });
+      picks.push({ market: '1X2', pick: 'AWAY', label: `${awayTeam} Win`, odds: odds?.awayWin || undefined, modelProbability: wp.away });
+    }
+    // The scoreline model is pre-match only, so in-play totals and scores carry no model probability
+    const modelStats = stats && !liveState?.isLive ? { ...stats, comparison: comparison || stats.comparison } : null;
+    const line = totalGoals?.match(/(over|under)\s*(\d+(?:\.\d+)?)/i);
+    if (line) {
+      const isOver = line[1].toLowerCase() === 'over';
+      const threshold = parseFloat(line[2]);
+      const pick = `${isOver ? 'Over' : 'Under'} ${threshold}`;
+      const probability = modelStats ? probabilityOf(modelStats, sport, (h, a) => isOver ? h + a > threshold : h + a < threshold) : null;
+      picks.push({ market: 'TOTALS', pick, label: sportDef.markets.totalsUnit ? `${pick} ${sportDef.markets.totalsUnit}` : pick, modelProbability: probability ?? undefined });
+    }
+    const score = parseScore(scorePrediction);
+    if (score) {
+      const stated = scoreProbability?.match(/(\d+(?:\.\d+)?)\s*%/);
+      const probability = stated
+        ? parseFloat(stated[1])
+        : modelStats ? probabilityOf(modelStats, sport, (h, a) => h === score[0] && a === score[1]) : null;
+      picks.push({ market: 'CORRECT_SCORE', pick: score.join('-'), label: `${sportDef.markets.correctScoreLabel} ${score.join('-')}`, modelProbability: probability ?? undefined });
+    }
+    return picks;
+  }, [stats, odds, comparison, liveState, totalGoals, scorePrediction, scoreProbability, homeTeam, awayTeam, sport, sportDef]);
+
+  const handleAddToSlip = (pick: SlipPick) => {
+    onAddToSlip?.({ ...pick, homeTeam, awayTeam, league, sport, date: matchDate });
+  };
+
   useEffect(() => {
     setOdds(stats?.odds);
     setComparison(stats?.comparison);
@@ -459,12 +797,19 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, homeTeam,
     getStadiumDetails(homeTeam).then(res => setStadium(res));
   }, [stats, homeTeam]);
 
+  // Only polled prices become snapshots: the analysis's own odds were quoted whenever it ran, so
+  // stamping them with the time it was opened would fake line movement
+  const applyPolledOdds = (newOdds: MatchStats['odds']) => {
+    if (!newOdds) return;
+    setOdds(newOdds);
+    setOddsHistory(oddsHistoryService.record(homeTeam, awayTeam, sport, newOdds));
+  };
+
   const handleManualOddsRefresh = async () => {
     if (isRefreshingOdds) return;
     setIsRefreshingOdds(true);
     try {
-      const newOdds = await fetchLiveOdds(homeTeam, awayTeam);
-      if (newOdds) setOdds(newOdds);
+      applyPolledOdds(await fetchLiveOdds(homeTeam, awayTeam, sport));
     } catch (err) {
       console.error("Error refreshing odds", err);
     } finally {
@@ -472,15 +817,29 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, homeTeam,
     }
   };
 
+  useEffect(() => {
+    setOddsHistory(oddsHistoryService.getHistory(homeTeam, awayTeam, sport));
+  }, [homeTeam, awayTeam, sport]);
+
+  const handleOddsFormatChange = (format: OddsFormat) => {
+    setOddsFormat(format);
+    settingsService.update({ oddsFormat: format });
+  };
+
+  const handleDevigMethodChange = (method: DevigMethod) => {
+    setDevigMethod(method);
+    settingsService.update({ devigMethod: method });
+  };
+
   const handleShareToWhatsApp = () => {
-    const icon = sport === 'BASKETBALL' ? '🏀' : sport === 'HOCKEY' ? '🏒' : '⚽';
+    const icon = sportDef.emoji;
     const text = 
       `🤖 *MatchOracle AI Prediction* 🤖%0A%0A` +
       `${icon} *${homeTeam} vs ${awayTeam}*%0A` +
       (liveState?.isLive ? `🔴 *LIVE:* ${liveState.currentScore} (${liveState.matchTime})%0A` : '') +
       `🔮 *Prediction:* ${scorePrediction} ${scoreProbability ? `(${scoreProbability})` : ''}%0A` +
       `📊 *Stats:* ${totalGoals || 'N/A'} | ${corners || 'N/A'}%0A` +
-      `🧠 *Confidence:* ${confidence}%0A%0A` +
+      `🧠 *Confidence:* ${confidenceLevel}%0A%0A` +
       `💡 *Verdict:* ${summary}%0A%0A` +
       (liveTip ? `🔥 *Live Tip:* ${liveTip}%0A%0A` : '') +
       `_Generated via MatchOracle AI_`;
@@ -498,7 +857,7 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, homeTeam,
   const handleGenerateImage = async () => {
       if (isGeneratingImage) return;
       setIsGeneratingImage(true);
-      const prompt = `A realistic cinematic soccer match poster for ${homeTeam} vs ${awayTeam}, stadium atmosphere, 4k, dramatic lighting`;
+      const prompt = `A realistic cinematic ${sport.toLowerCase()} match poster for ${homeTeam} vs ${awayTeam}, stadium atmosphere, 4k, dramatic lighting`;
       const b64 = await generateMatchImage(prompt);
       if (b64) setGeneratedImage(`data:image/jpeg;base64,${b64}`);
       setIsGeneratingImage(false);
@@ -512,15 +871,15 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, homeTeam,
       } catch (e) {}
     };
     fetchDynamicData();
+    if (degraded) return;
     const intervalId = setInterval(async () => {
       setIsRefreshingOdds(true);
       try {
-        const newOdds = await fetchLiveOdds(homeTeam, awayTeam);
-        if (newOdds) setOdds(newOdds);
+        applyPolledOdds(await fetchLiveOdds(homeTeam, awayTeam, sport));
       } catch (err) {} finally { setIsRefreshingOdds(false); }
     }, 120000);
     return () => clearInterval(intervalId);
-  }, [homeTeam, awayTeam, sport]);
+  }, [homeTeam, awayTeam, sport, degraded]);
 
   const getConfidenceColor = (level?: string) => {
     const l = level?.toLowerCase() || '';
@@ -531,37 +890,33 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, homeTeam,
   };
 
   const focusClass = (isTarget: boolean) => {
-    if (!bettingMode) return '';
+    if (!bettingMode || degraded) return '';
     return isTarget ? 'ring-2 ring-rose-500 shadow-[0_0_30px_rgba(244,63,94,0.2)] opacity-100 scale-[1.01] z-10 relative transition-all duration-500' : 'opacity-20 grayscale blur-[2px] pointer-events-none transition-all duration-500';
   };
 
-  const getStatLabels = () => {
-    switch(sport) {
-      case 'BASKETBALL': return { main: { label: "Total Points", icon: <Dribbble /> }, sec: { label: "Rebounds", icon: <Activity /> }, ter: { label: "Turnovers", icon: <GripHorizontal /> } };
-      case 'HOCKEY': return { main: { label: "Total Goals", icon: <Goal /> }, sec: { label: "Shots", icon: <Snowflake /> }, ter: { label: "Penalties", icon: <StickyNote /> } };
-      case 'HANDBALL': return { main: { label: "Total Goals", icon: <Goal /> }, sec: { label: "7m Throws", icon: <Hand /> }, ter: { label: "Suspensions", icon: <StickyNote /> } };
-      default: return { main: { label: "Total Goals", icon: <Goal /> }, sec: { label: "Corners", icon: <Flag /> }, ter: { label: "Cards", icon: <StickyNote /> } };
-    }
-  }
-  const statConfig = getStatLabels();
-
   return (
     <div className="w-full max-w-5xl mx-auto space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-700 pb-12">
-      <div className="flex justify-end gap-2">
-          <button onClick={handleShareToWhatsApp} className="flex items-center gap-2 px-4 py-2 rounded-full font-bold text-xs uppercase tracking-wider transition-all duration-300 bg-green-600 text-white hover:bg-green-500 border border-green-500 shadow-lg shadow-green-500/20">
-              <MessageCircle className="w-4 h-4" />
-              Share to WhatsApp
-          </button>
-          <button onClick={() => setBettingMode(!bettingMode)} className={`flex items-center gap-2 px-4 py-2 rounded-full font-bold text-xs uppercase tracking-wider transition-all duration-300 ${bettingMode ? 'bg-rose-500 text-white shadow-lg shadow-rose-500/20' : 'bg-slate-800 text-slate-400 hover:bg-slate-700 border border-slate-700'}`}>
-              {bettingMode ? <Target className="w-4 h-4 animate-pulse" /> : <EyeOff className="w-4 h-4" />}
-              {bettingMode ? 'Betting Focus Active' : 'Highlight Betting Angles'}
-          </button>
-      </div>
+      {data.provenance && data.provenance !== 'live' && <ProvenanceBanner provenance={data.provenance} savedAt={data.cachedAt} />}
+
+      {!degraded && (
+        <div className="flex justify-end gap-2">
+            <button onClick={handleShareToWhatsApp} className="flex items-center gap-2 px-4 py-2 rounded-full font-bold text-xs uppercase tracking-wider transition-all duration-300 bg-green-600 text-white hover:bg-green-500 border border-green-500 shadow-lg shadow-green-500/20">
+                <MessageCircle className="w-4 h-4" />
+                Share to WhatsApp
+            </button>
+            <button onClick={() => setBettingMode(!bettingMode)} className={`flex items-center gap-2 px-4 py-2 rounded-full font-bold text-xs uppercase tracking-wider transition-all duration-300 ${bettingMode ? 'bg-rose-500 text-white shadow-lg shadow-rose-500/20' : 'bg-slate-800 text-slate-400 hover:bg-slate-700 border border-slate-700'}`}>
+                {bettingMode ? <Target className="w-4 h-4 animate-pulse" /> : <EyeOff className="w-4 h-4" />}
+                {bettingMode ? 'Betting Focus Active' : 'Highlight Betting Angles'}
+            </button>
+        </div>
+      )}
 
       {redFlags && <RiskAlert content={redFlags} className={focusClass(true)} />}
+
+      <DataQualityNotice issues={data.validationIssues} className={focusClass(false)} />
       
       {liveState?.isLive && (
-        <LivePredictionPanel content={liveAnalysis} nextGoal={nextGoal} liveTip={liveTip} score={liveState.currentScore} time={liveState.matchTime} className={focusClass(true)} />
+        <LivePredictionPanel content={liveAnalysis} nextGoal={nextGoal} liveTip={degraded ? undefined : liveTip} score={liveState.currentScore} time={liveState.matchTime} nextLabel={sportDef.nextEventLabel} className={focusClass(true)} />
       )}
 
       <div className={`relative overflow-hidden bg-gradient-to-br from-slate-800 to-slate-900 rounded-3xl border border-slate-700 shadow-2xl shadow-black/40 transition-all duration-500 ${bettingMode ? 'opacity-80' : ''}`}>
@@ -574,16 +929,21 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, homeTeam,
              </div>
           )}
           <div className="flex items-center space-x-3">
-             <span className={`px-4 py-1.5 rounded-full text-xs font-bold uppercase tracking-widest border shadow-sm ${getConfidenceColor(confidence)}`}>
-              {confidence || 'AI'} Confidence
+             <span className={`px-4 py-1.5 rounded-full text-xs font-bold uppercase tracking-widest border shadow-sm ${getConfidenceColor(confidenceLevel)}`} title={confidence ? `Model stated: ${confidence}` : undefined}>
+              {confidenceLevel || 'AI'} Confidence
              </span>
+             {data.calibration && (
+               <span className="text-[10px] font-bold uppercase tracking-wider text-violet-400 bg-violet-500/10 border border-violet-500/20 px-2 py-1 rounded" title={`Recalibrated from ${data.calibration.samples} settled outcomes`}>
+                 Calibrated
+               </span>
+             )}
              <span className="text-xs font-mono text-slate-500 uppercase bg-slate-900/50 px-2 py-1 rounded">{sport}</span>
           </div>
           <div className="flex flex-col md:flex-row items-center justify-center gap-8 md:gap-16 w-full">
             <div className="text-center flex-1 order-2 md:order-1 flex flex-col items-center">
               <TeamLogo url={stats?.homeLogo} name={homeTeam} />
               <h2 className="text-2xl md:text-4xl font-bold text-white mb-2 tracking-tight">{homeTeam}</h2>
-              <div className="text-xs md:text-sm font-semibold text-slate-500 uppercase tracking-widest">Home</div>
+              <div className="text-xs md:text-sm font-semibold text-slate-500 uppercase tracking-widest">{sportDef.sides.home}</div>
             </div>
             <div className="flex flex-col items-center min-w-[200px] order-1 md:order-2 bg-slate-950/30 rounded-2xl p-6 border border-slate-700/50 backdrop-blur-sm shadow-inner">
               {liveState?.isLive && (
@@ -596,7 +956,7 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, homeTeam,
                 {scorePrediction || "- : -"}
               </div>
               <span className="text-xs text-emerald-400 mt-3 uppercase tracking-widest font-bold">
-                 {liveState?.isLive ? "Predicted Final" : "Projected Score"}
+                 {liveState?.isLive ? "Predicted Final" : sportDef.scoring === 'SETS' ? "Projected Sets" : "Projected Score"}
               </span>
               {scoreProbability && (
                 <div className="mt-3 flex items-center space-x-1.5 px-3 py-1 rounded-full bg-slate-800/80 border border-slate-700/50">
@@ -608,7 +968,7 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, homeTeam,
             <div className="text-center flex-1 order-3 flex flex-col items-center">
               <TeamLogo url={stats?.awayLogo} name={awayTeam} />
               <h2 className="text-2xl md:text-4xl font-bold text-white mb-2 tracking-tight">{awayTeam}</h2>
-              <div className="text-xs md:text-sm font-semibold text-slate-500 uppercase tracking-widest">Away</div>
+              <div className="text-xs md:text-sm font-semibold text-slate-500 uppercase tracking-widest">{sportDef.sides.away}</div>
             </div>
           </div>
           
@@ -689,6 +1049,11 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, homeTeam,
               <div className="flex items-center space-x-2 mb-6 text-blue-400">
                 <BarChart3 className="w-5 h-5" />
                 <h3 className="font-semibold tracking-wide">Win Probability</h3>
+                {data.calibration && (
+                  <span className="text-[10px] font-mono text-slate-500" title={`${data.calibration.method === 'PLATT' ? 'Platt' : 'Isotonic'} recalibration`}>
+                    stated {data.calibration.raw.home}/{data.calibration.raw.draw}/{data.calibration.raw.away}
+                  </span>
+                )}
               </div>
               <div className="space-y-6">
                   <ProbabilityBar home={stats.winProbability.home} draw={stats.winProbability.draw} away={stats.winProbability.away} homeTeam={homeTeam} awayTeam={awayTeam} />
@@ -700,23 +1065,36 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, homeTeam,
                 <Activity className="w-5 h-5" />
                 <h3 className="font-semibold tracking-wide">Recent Scoring Trend</h3>
               </div>
-              <FormTrendChart homeData={stats.homeLast5Goals} awayData={stats.awayLast5Goals} homeTeam={homeTeam} awayTeam={awayTeam} sport={sport} />
+              <FormTrendChart homeData={stats.homeLast5Goals} awayData={stats.awayLast5Goals} homeTeam={homeTeam} awayTeam={awayTeam} sport={sport} surface={stats.surface} />
             </div>
           </div>
+
+          {modelComparison && (
+            <ModelComparisonPanel comparison={modelComparison} llmScore={scorePrediction} llmProbabilities={stats.winProbability} homeTeam={homeTeam} awayTeam={awayTeam} className={focusClass(true)} />
+          )}
           
-          {odds && (
-            <div className={`transition-all duration-500 ${focusClass(true)}`}>
-              <OddsDisplay odds={odds} probabilities={stats.winProbability} isRefreshing={isRefreshingOdds} onRefresh={handleManualOddsRefresh} bettingMode={bettingMode} />
+          {odds && !degraded && (
+            <div className={`grid grid-cols-1 lg:grid-cols-2 gap-6 transition-all duration-500 ${focusClass(true)}`}>
+              <OddsDisplay odds={odds} probabilities={stats.winProbability} isRefreshing={isRefreshingOdds} onRefresh={handleManualOddsRefresh} bettingMode={bettingMode} format={oddsFormat} devigMethod={devigMethod} onFormatChange={handleOddsFormatChange} onDevigMethodChange={handleDevigMethodChange} homeLabel={sportDef.competitor === 'Player' ? homeTeam : undefined} awayLabel={sportDef.competitor === 'Player' ? awayTeam : undefined} />
+              <OddsMovementChart snapshots={oddsHistory} homeTeam={homeTeam} awayTeam={awayTeam} />
             </div>
           )}
+
+          {odds && bettingMode && !degraded && (
+            <BankrollManager odds={odds} probabilities={stats.winProbability} homeTeam={homeTeam} awayTeam={awayTeam} className={focusClass(true)} />
+          )}
         </>
       )}
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        <StatCard label={liveState?.isLive ? "Rest of Game" : statConfig.main.label} value={totalGoals || "Calculating..."} icon={statConfig.main.icon} color="text-emerald-400" accentColor="text-emerald-500" className={focusClass(true)} />
-        <StatCard label={statConfig.sec.label} value={corners || "Calculating..."} icon={statConfig.sec.icon} color="text-amber-400" accentColor="text-amber-500" className={focusClass(true)} />
-        <StatCard label={statConfig.ter.label} value={cards || "Calculating..."} icon={statConfig.ter.icon} color="text-rose-400" accentColor="text-rose-500" className={focusClass(true)} />
+        <StatCard label={liveState?.isLive ? "Rest of Game" : sportDef.stats.main.label} value={totalGoals || "Calculating..."} icon={<sportDef.stats.main.icon />} color="text-emerald-400" accentColor="text-emerald-500" className={focusClass(true)} />
+        <StatCard label={sportDef.stats.sec.label} value={corners || (stats?.tiebreakProbability !== undefined ? `${stats.tiebreakProbability}% chance` : "Calculating...")} icon={<sportDef.stats.sec.icon />} color="text-amber-400" accentColor="text-amber-500" className={focusClass(true)} />
+        <StatCard label={sportDef.stats.ter.label} value={cards || "Calculating..."} icon={<sportDef.stats.ter.icon />} color="text-rose-400" accentColor="text-rose-500" className={focusClass(true)} />
       </div>
+
+      {onAddToSlip && slipPicks.length > 0 && !degraded && (
+        <SlipPicker picks={slipPicks} slip={slip} homeTeam={homeTeam} awayTeam={awayTeam} onAdd={handleAddToSlip} className={focusClass(true)} />
+      )}
       
       {(weather || referee) && (
          <div className={`grid grid-cols-1 md:grid-cols-2 gap-6 transition-all duration-500 ${focusClass(true)}`}>
@@ -753,16 +1131,25 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, homeTeam,
         <SectionCard title="Head to Head History" icon={<History className="w-5 h-5" />} colorClass="text-purple-400" className={focusClass(false)}>{headToHead || "No historical data available."}</SectionCard>
         <SectionCard title={liveState?.isLive ? "Live Factors" : "Key Physical Factors"} icon={liveState?.isLive ? <Timer className="w-5 h-5" /> : <AlertTriangle className="w-5 h-5" />} colorClass={liveState?.isLive ? "text-rose-400" : "text-amber-400"} className={focusClass(true)}>
           {(comparison || stats?.comparison || stats?.keyPlayers) && (
-            <StrengthComparison homeValue={comparison?.homeValue || stats?.comparison?.homeValue} awayValue={comparison?.awayValue || stats?.comparison?.awayValue} homePosition={comparison?.homePosition || stats?.comparison?.homePosition} awayPosition={comparison?.awayPosition || stats?.comparison?.awayPosition} homeRating={comparison?.homeRating || stats?.comparison?.homeRating} awayRating={comparison?.awayRating || stats?.comparison?.awayRating} keyPlayers={stats?.keyPlayers} homeTeam={homeTeam} awayTeam={awayTeam} />
+            <StrengthComparison homeValue={comparison?.homeValue || stats?.comparison?.homeValue} awayValue={comparison?.awayValue || stats?.comparison?.awayValue} homePosition={comparison?.homePosition || stats?.comparison?.homePosition} awayPosition={comparison?.awayPosition || stats?.comparison?.awayPosition} homeRating={comparison?.homeRating ?? stats?.comparison?.homeRating} awayRating={comparison?.awayRating ?? stats?.comparison?.awayRating} keyPlayers={stats?.keyPlayers} homeTeam={homeTeam} awayTeam={awayTeam} />
           )}
           {keyFactors || "No critical factors identified."}
         </SectionCard>
         <SectionCard title="AI Logic & Grounding" icon={<TrendingUp className="w-5 h-5" />} colorClass="text-emerald-400" className={focusClass(false)}>
-          <p className="text-slate-400 mb-3">Prediction generated using live search results for {sport.toLowerCase()}, analyzing physical metrics, form, and roster availability.</p>
-          <div className="flex items-center space-x-2 text-emerald-400 text-sm font-bold bg-emerald-900/20 p-2 rounded-lg w-fit">
-            <CheckCircle2 className="w-4 h-4" />
-            <span>Live Data Grounding Active</span>
-          </div>
+          {degraded || data.provenance === 'mock' ? (
+            <div className="flex items-center space-x-2 text-slate-400 text-sm font-bold bg-slate-800 p-2 rounded-lg w-fit">
+              <CloudOff className="w-4 h-4" />
+              <span>No Live Data Grounding</span>
+            </div>
+          ) : (
+            <>
+              <p className="text-slate-400 mb-3">Prediction generated using live search results for {sport.toLowerCase()}, analyzing physical metrics, form, and roster availability.</p>
+              <div className="flex items-center space-x-2 text-emerald-400 text-sm font-bold bg-emerald-900/20 p-2 rounded-lg w-fit">
+                <CheckCircle2 className="w-4 h-4" />
+                <span>Live Data Grounding Active</span>
+              </div>
+            </>
+          )}
         </SectionCard>
       </div>
       {data.groundingChunks && data.groundingChunks.length > 0 && (
@@ -0,0 +1,193 @@
+import React, { useMemo, useState } from 'react';
+import { Bankroll, BankrollBet, MatchStats, StakingPlan } from '../types';
+import { STAKING_PLANS, balanceHistory, balanceOf, bankrollService, exposureOf, profitOf, recommendStake } from '../services/bankrollService';
+import { Wallet, CheckCircle2, XCircle, MinusCircle, Trash2, RotateCcw } from 'lucide-react';
+
+interface BankrollManagerProps {
+  odds: NonNullable<MatchStats['odds']>;
+  probabilities: { home: number; draw: number; away: number };
+  homeTeam: string;
+  awayTeam: string;
+  className?: string;
+}
+
+const BalanceChart: React.FC<{ bankroll: Bankroll }> = ({ bankroll }) => {
+  const points = balanceHistory(bankroll);
+  const height = 100;
+  const width = 300;
+  const padding = 10;
+  const chartW = width - padding * 2;
+  const chartH = height - padding * 2;
+
+  if (points.length < 2) {
+    return (
+      <div className="flex items-center justify-center text-xs text-slate-500 text-center py-8">
+        The balance chart starts after your first settled bet.
+      </div>
+    );
+  }
+
+  const balances = points.map(p => p.balance);
+  const maxVal = Math.max(...balances, bankroll.startingBalance) * 1.02;
+  const minVal = Math.min(...balances, bankroll.startingBalance) * 0.98;
+  const range = Math.max(1, maxVal - minVal);
+  const toY = (v: number) => height - padding - ((v - minVal) / range) * chartH;
+  const line = points.map((p, i) => `${padding + (i / (points.length - 1)) * chartW},${toY(p.balance)}`).join(' ');
+  const up = balances.at(-1)! >= bankroll.startingBalance;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-24 overflow-visible">
+      <line x1={padding} y1={toY(bankroll.startingBalance)} x2={width - padding} y2={toY(bankroll.startingBalance)} stroke="#334155" strokeWidth="1" strokeDasharray="4 4"/>
+      <polyline points={line} fill="none" stroke={up ? '#10b981' : '#f43f5e'} strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+    </svg>
+  );
+};
+
+const BetRow: React.FC<{ bet: BankrollBet; onSettle: (id: string, result: NonNullable<BankrollBet['result']>) => void; onRemove: (id: string) => void }> = ({ bet, onSettle, onRemove }) => {
+  const pick = bet.selection === 'HOME' ? bet.homeTeam : bet.selection === 'AWAY' ? bet.awayTeam : 'Draw';
+  const profit = profitOf(bet);
+  return (
+    <div className="flex items-center gap-2 bg-slate-900/40 rounded-lg px-3 py-2 border border-slate-800 text-xs">
+      <span className="font-semibold text-slate-200 flex-1 truncate">{pick} <span className="text-slate-500 font-normal">@ {bet.odds.toFixed(2)}</span></span>
+      <span className="font-mono text-slate-400">{bet.stake.toFixed(2)}</span>
+      {bet.result ? (
+        <span className={`font-mono font-bold w-16 text-right ${profit > 0 ? 'text-emerald-400' : profit < 0 ? 'text-rose-400' : 'text-slate-500'}`}>
+          {bet.result === 'VOID' ? 'VOID' : `${profit > 0 ? '+' : ''}${profit.toFixed(2)}`}
+        </span>
+      ) : (
+        <div className="flex items-center gap-1">
+          <button onClick={() => onSettle(bet.id, 'WON')} className="text-slate-500 hover:text-emerald-400" title="Won"><CheckCircle2 className="w-4 h-4" /></button>
+          <button onClick={() => onSettle(bet.id, 'LOST')} className="text-slate-500 hover:text-rose-400" title="Lost"><XCircle className="w-4 h-4" /></button>
+          <button onClick={() => onSettle(bet.id, 'VOID')} className="text-slate-500 hover:text-slate-300" title="Void"><MinusCircle className="w-4 h-4" /></button>
+        </div>
+      )}
+      <button onClick={() => onRemove(bet.id)} className="text-slate-600 hover:text-rose-400"><Trash2 className="w-3 h-3" /></button>
+    </div>
+  );
+};
+
+export const BankrollManager: React.FC<BankrollManagerProps> = ({ odds, probabilities, homeTeam, awayTeam, className = '' }) => {
+  const [bankroll, setBankroll] = useState<Bankroll>(() => bankrollService.get());
+  const [startingInput, setStartingInput] = useState(() => String(bankroll.startingBalance));
+
+  const balance = balanceOf(bankroll);
+  const exposure = exposureOf(bankroll);
+  const settled = bankroll.bets.filter(b => b.result && b.result !== 'VOID');
+  const turnover = settled.reduce((acc, b) => acc + b.stake, 0);
+  const roi = turnover > 0 ? ((balance - bankroll.startingBalance) / turnover) * 100 : null;
+
+  const outcomes = useMemo(() => ([
+    { selection: 'HOME' as const, label: homeTeam, price: odds.homeWin, probability: probabilities.home },
+    { selection: 'DRAW' as const, label: 'Draw', price: odds.draw, probability: probabilities.draw },
+    { selection: 'AWAY' as const, label: awayTeam, price: odds.awayWin, probability: probabilities.away },
+  ].filter(o => o.price > 1).map(o => ({ ...o, advice: recommendStake(bankroll, o.probability, o.price) }))),
+  [bankroll, odds, probabilities, homeTeam, awayTeam]);
+
+  const fixtureBets = bankroll.bets.filter(b => b.homeTeam === homeTeam && b.awayTeam === awayTeam);
+
+  const planParam = bankroll.plan === 'PERCENTAGE'
+    ? { label: '% per bet', key: 'percentage' as const, step: 0.5 }
+    : bankroll.plan === 'KELLY'
+      ? { label: 'Kelly fraction', key: 'kellyFraction' as const, step: 0.05 }
+      : { label: 'Stake', key: 'flatStake' as const, step: 1 };
+
+  const handleReset = () => {
+    const amount = parseFloat(startingInput);
+    if (amount > 0 && window.confirm('Start a new bankroll? Recorded bets will be cleared.')) setBankroll(bankrollService.reset(amount));
+  };
+
+  return (
+    <div className={`bg-slate-900/80 border border-slate-700/50 rounded-xl p-4 transition-all duration-500 ${className}`}>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h4 className="text-xs font-bold text-amber-400 uppercase tracking-wider flex items-center gap-2">
+          <Wallet className="w-4 h-4" /> Bankroll
+        </h4>
+        <div className="flex items-center gap-4 text-xs font-mono">
+          <span className="text-slate-400">Balance <span className="text-white font-bold">{balance.toFixed(2)}</span></span>
+          <span className="text-slate-400">Open <span className="text-slate-200">{exposure.toFixed(2)}</span></span>
+          <span className={roi === null ? 'text-slate-500' : roi >= 0 ? 'text-emerald-400' : 'text-rose-400'}>
+            ROI {roi === null ? '-' : `${roi >= 0 ? '+' : ''}${roi.toFixed(1)}%`}
+          </span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-[10px]">
+            <select
+              value={bankroll.plan}
+              onChange={(e) => setBankroll(bankrollService.updateSettings({ plan: e.target.value as StakingPlan }))}
+              className="bg-slate-800 border border-slate-700 rounded px-1.5 py-1 text-slate-300 focus:outline-none"
+            >
+              {STAKING_PLANS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+            <label className="flex items-center gap-1 text-slate-500 uppercase font-bold">
+              {planParam.label}
+              <input
+                key={planParam.key}
+                type="number"
+                min="0"
+                step={planParam.step}
+                defaultValue={bankroll[planParam.key]}
+                onBlur={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (value > 0) setBankroll(bankrollService.updateSettings({ [planParam.key]: value }));
+                }}
+                className="w-16 bg-slate-800 border border-slate-700 rounded px-1.5 py-1 text-white font-mono focus:outline-none focus:ring-1 focus:ring-amber-500"
+              />
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            {outcomes.map(o => (
+              <div key={o.selection} className="flex items-center gap-2 bg-slate-800/60 rounded-lg px-3 py-2 border border-slate-700/50 text-xs">
+                <span className="font-semibold text-slate-200 flex-1 truncate">{o.label}</span>
+                <span className={`font-mono ${o.advice.edge > 0 ? 'text-emerald-400' : 'text-slate-500'}`}>
+                  EV {o.advice.edge > 0 ? '+' : ''}{(o.advice.edge * 100).toFixed(1)}%
+                </span>
+                {o.advice.stake > 0 ? (
+                  <button
+                    onClick={() => setBankroll(bankrollService.placeBet({ homeTeam, awayTeam, selection: o.selection, odds: o.price, stake: o.advice.stake, probability: o.probability, plan: bankroll.plan }))}
+                    className="bg-amber-500/10 hover:bg-amber-500/20 text-amber-400 border border-amber-500/30 rounded px-2 py-1 font-bold font-mono"
+                  >
+                    Stake {o.advice.stake.toFixed(2)}
+                  </button>
+                ) : (
+                  <span className="text-slate-600 font-bold px-2 py-1">No bet</span>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {fixtureBets.length > 0 && (
+            <div className="space-y-2">
+              {fixtureBets.map(bet => (
+                <BetRow key={bet.id} bet={bet} onSettle={(id, result) => setBankroll(bankrollService.settleBet(id, result))} onRemove={(id) => setBankroll(bankrollService.removeBet(id))} />
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-col">
+          <BalanceChart bankroll={bankroll} />
+          <div className="flex items-center justify-between gap-2 mt-auto pt-3 text-[10px]">
+            <span className="text-slate-500 font-mono">{settled.length} settled • {bankroll.bets.length - bankroll.bets.filter(b => b.result).length} open</span>
+            <div className="flex items-center gap-1">
+              <input
+                type="number"
+                min="1"
+                value={startingInput}
+                onChange={(e) => setStartingInput(e.target.value)}
+                className="w-20 bg-slate-800 border border-slate-700 rounded px-1.5 py-1 text-white font-mono focus:outline-none"
+              />
+              <button onClick={handleReset} className="flex items-center gap-1 text-slate-400 hover:text-white bg-slate-800 border border-slate-700 rounded px-2 py-1 font-bold uppercase" title="Start a new bankroll">
+                <RotateCcw className="w-3 h-3" /> Reset
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+      <p className="text-[10px] text-slate-600 mt-3">Stakes are suggested only where the analysis probability beats the price, capped at 25% of the available balance.</p>
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BetSelection } from '../types';
+import { MAX_SELECTIONS, summarizeSlip } from '../services/betSlipService';
+import { Ticket, X, Trash2, TrendingUp, TrendingDown } from 'lucide-react';
+
+interface BetSlipProps {
+  selections: BetSelection[];
+  onRemove: (id: string) => void;
+  onUpdateOdds: (id: string, odds?: number) => void;
+  onClear: () => void;
+}
+
+const BET_TYPE_LABELS = { SINGLES: 'Singles', DOUBLES: 'Doubles', TREBLES: 'Trebles', ACCUMULATOR: 'Accumulator' };
+
+const EvBadge: React.FC<{ ev?: number }> = ({ ev }) => {
+  if (ev === undefined) return <span className="text-slate-600 font-mono">EV -</span>;
+  const positive = ev > 0;
+  return (
+    <span className={`flex items-center gap-1 font-mono font-bold ${positive ? 'text-emerald-400' : 'text-rose-400'}`}>
+      {positive ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+      EV {positive ? '+' : ''}{(ev * 100).toFixed(1)}%
+    </span>
+  );
+};
+
+// Edits a draft while typing and commits on blur; a price changed elsewhere replaces the draft
+const OddsInput: React.FC<{ odds?: number; onCommit: (odds?: number) => void }> = ({ odds, onCommit }) => {
+  const [draft, setDraft] = useState(odds?.toFixed(2) ?? '');
+  useEffect(() => setDraft(odds?.toFixed(2) ?? ''), [odds]);
+
+  const commit = () => {
+    const value = parseFloat(draft);
+    const next = value > 1 ? value : undefined;
+    if (next === odds) setDraft(odds?.toFixed(2) ?? '');
+    else onCommit(next);
+  };
+
+  return (
+    <input
+      type="number"
+      step="0.01"
+      min="1.01"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      placeholder="-"
+      className="w-16 bg-slate-900 border border-slate-700 rounded px-1.5 py-0.5 text-white font-mono focus:outline-none focus:ring-1 focus:ring-amber-500"
+    />
+  );
+};
+
+export const BetSlip: React.FC<BetSlipProps> = ({ selections, onRemove, onUpdateOdds, onClear }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const summaries = useMemo(() => summarizeSlip(selections), [selections]);
+
+  return (
+    <div className="fixed bottom-6 left-6 z-50 flex flex-col items-start">
+      {isOpen && (
+        <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl w-80 md:w-96 max-h-[70vh] flex flex-col overflow-hidden mb-4 animate-in fade-in slide-in-from-bottom-10 duration-300">
+          <div className="bg-slate-800 p-4 border-b border-slate-700 flex justify-between items-center">
+            <div className="flex items-center gap-2">
+              <div className="bg-amber-500/20 p-1.5 rounded-lg">
+                <Ticket className="w-5 h-5 text-amber-400" />
+              </div>
+              <span className="font-bold text-white">Bet Slip</span>
+              <span className="text-xs text-slate-500">{selections.length}/{MAX_SELECTIONS} selections</span>
+            </div>
+            <div className="flex items-center gap-2">
+              {selections.length > 0 && (
+                <button onClick={onClear} className="text-xs text-slate-500 hover:text-rose-400">Clear</button>
+              )}
+              <button onClick={() => setIsOpen(false)} className="text-slate-400 hover:text-white">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-3">
+            {selections.length === 0 && (
+              <p className="text-sm text-slate-500 text-center py-8">Add picks from any match analysis to build singles, doubles and accumulators.</p>
+            )}
+            {selections.map(sel => {
+              const ev = sel.odds && sel.modelProbability !== undefined ? (sel.modelProbability / 100) * sel.odds - 1 : undefined;
+              return (
+                <div key={sel.id} className="bg-slate-800/60 rounded-lg p-3 border border-slate-700/50 text-xs space-y-2">
+                  <div className="flex justify-between items-start gap-2">
+                    <div className="min-w-0">
+                      <div className="font-bold text-white truncate">{sel.label}</div>
+                      <div className="text-slate-500 truncate">{sel.homeTeam} vs {sel.awayTeam} • {sel.date}</div>
+                    </div>
+                    <button onClick={() => onRemove(sel.id)} className="text-slate-600 hover:text-rose-400">
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-1 text-slate-500">
+                      Odds
+                      <OddsInput odds={sel.odds} onCommit={(odds) => onUpdateOdds(sel.id, odds)} />
+                    </label>
+                    <span className="text-slate-400 font-mono">Model {sel.modelProbability !== undefined ? `${sel.modelProbability}%` : '-'}</span>
+                    <span className="ml-auto"><EvBadge ev={ev} /></span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {summaries.length > 0 && (
+            <div className="p-4 bg-slate-800 border-t border-slate-700 space-y-2 text-xs">
+              {summaries.map(summary => {
+                const single = summary.combinations.length === 1 ? summary.combinations[0] : null;
+                return (
+                  <div key={summary.type} className="flex items-center justify-between gap-2">
+                    <span className="font-bold text-slate-300">
+                      {BET_TYPE_LABELS[summary.type]} <span className="text-slate-500 font-normal">×{summary.stake}</span>
+                    </span>
+                    <span className="font-mono text-slate-400">
+                      {single
+                        ? `@ ${single.odds?.toFixed(2) ?? '-'} • ${single.probability !== undefined ? `${single.probability}%` : '-'}`
+                        : `Return ${summary.expectedReturn?.toFixed(2) ?? '-'}u`}
+                    </span>
+                    <EvBadge ev={single ? single.expectedValue : summary.expectedValue} />
+                  </div>
+                );
+              })}
+              <p className="text-[10px] text-slate-600 pt-1">One unit per bet. Probabilities assume independent legs.</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`relative p-4 rounded-full shadow-xl transition-all duration-300 hover:scale-110 ${
+          isOpen ? 'bg-slate-700 text-slate-300' : 'bg-gradient-to-r from-amber-500 to-orange-500 text-white shadow-amber-500/20'
+        }`}
+        title="Bet Slip"
+      >
+        {isOpen ? <X className="w-6 h-6" /> : <Ticket className="w-6 h-6" />}
+        {!isOpen && selections.length > 0 && (
+          <span className="absolute -top-1 -right-1 bg-white text-amber-600 text-[10px] font-black w-5 h-5 rounded-full flex items-center justify-center">
+            {selections.length}
+          </span>
+        )}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import { CalibrationMethod, LedgerEntry } from '../types';
+import { CALIBRATION_METHODS, buildCalibrationReport, calibrate } from '../services/calibrationService';
+import { Crosshair, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface CalibrationReportProps {
+  entries: LedgerEntry[];
+  method: CalibrationMethod | 'OFF';
+  onMethodChange: (method: CalibrationMethod | 'OFF') => void;
+}
+
+const ReliabilityDiagram: React.FC<{ report: ReturnType<typeof buildCalibrationReport> }> = ({ report }) => {
+  const size = 220;
+  const padding = 24;
+  const chart = size - padding * 2;
+  const toX = (p: number) => padding + p * chart;
+  const toY = (p: number) => size - padding - p * chart;
+  const maxCount = Math.max(...report.buckets.map(b => b.count), 1);
+  const model = report.model;
+  const curve = model
+    ? Array.from({ length: 41 }, (_, i) => i / 40).map(p => `${toX(p)},${toY(calibrate(model, Math.min(0.999, Math.max(0.001, p))))}`).join(' ')
+    : null;
+
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} className="w-full max-w-[260px] mx-auto overflow-visible">
+      {[0, 0.25, 0.5, 0.75, 1].map(t => (
+        <g key={t}>
+          <line x1={toX(0)} y1={toY(t)} x2={toX(1)} y2={toY(t)} stroke="#1e293b" strokeWidth="1" />
+          <text x={padding - 4} y={toY(t) + 3} textAnchor="end" className="fill-slate-600 text-[8px] font-mono">{t * 100}</text>
+          <text x={toX(t)} y={size - padding + 12} textAnchor="middle" className="fill-slate-600 text-[8px] font-mono">{t * 100}</text>
+        </g>
+      ))}
+      <line x1={toX(0)} y1={toY(0)} x2={toX(1)} y2={toY(1)} stroke="#475569" strokeWidth="1" strokeDasharray="4 4" />
+      {curve && <polyline points={curve} fill="none" stroke="#a78bfa" strokeWidth="2" strokeLinecap="round" />}
+      {report.buckets.map(b => (
+        <circle key={b.lower} cx={toX(b.meanPredicted)} cy={toY(b.observed)} r={3 + 5 * (b.count / maxCount)} fill="#10b981" fillOpacity="0.7" stroke="#064e3b" />
+      ))}
+    </svg>
+  );
+};
+
+export const CalibrationReport: React.FC<CalibrationReportProps> = ({ entries, method, onMethodChange }) => {
+  const [expanded, setExpanded] = useState(false);
+  const fitMethod: CalibrationMethod = method === 'OFF' ? 'ISOTONIC' : method;
+  const report = useMemo(() => buildCalibrationReport(entries, fitMethod), [entries, fitMethod]);
+
+  if (report.predictions === 0) return null;
+
+  const metric = (value: number | null, digits = 3) => value === null ? '-' : value.toFixed(digits);
+
+  return (
+    <div className="bg-slate-800/40 border border-slate-700/50 rounded-xl overflow-hidden mb-16">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full px-5 py-3 border-b border-slate-700/50 bg-slate-800/60 flex items-center justify-between text-violet-400"
+      >
+        <div className="flex items-center space-x-2">
+          <Crosshair className="w-5 h-5" />
+          <h3 className="font-semibold tracking-wide">Probability Calibration</h3>
+          <span className="text-[10px] font-mono text-slate-500">{report.predictions} settled • {report.pairs} outcomes</span>
+        </div>
+        {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {expanded && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 p-5">
+          <div>
+            <ReliabilityDiagram report={report} />
+            <div className="flex justify-center gap-4 mt-2 text-[10px] text-slate-500">
+              <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-emerald-500"></span> Observed</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-violet-400"></span> {fitMethod === 'PLATT' ? 'Platt' : 'Isotonic'} fit</span>
+              <span className="flex items-center gap-1"><span className="w-3 border-t border-dashed border-slate-500"></span> Perfect</span>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3 text-center">
+              {[
+                { label: 'Brier', value: metric(report.brier) },
+                { label: 'Calibrated', value: metric(report.calibratedBrier) },
+                { label: 'ECE', value: report.ece === null ? '-' : `${(report.ece * 100).toFixed(1)}%` },
+              ].map(s => (
+                <div key={s.label} className="bg-slate-900/50 rounded-lg p-3 border border-slate-700/50">
+                  <div className="text-[10px] text-slate-500 uppercase font-bold mb-1">{s.label}</div>
+                  <div className="text-white font-bold font-mono">{s.value}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              {report.buckets.map(b => (
+                <div key={b.lower} className="flex items-center gap-2 text-[10px] font-mono">
+                  <span className="text-slate-500 w-14">{Math.round(b.lower * 100)}-{Math.round(b.upper * 100)}%</span>
+                  <div className="flex-1 h-1.5 bg-slate-900 rounded-full overflow-hidden">
+                    <div className="h-full bg-emerald-500/70" style={{ width: `${b.observed * 100}%` }}></div>
+                  </div>
+                  <span className="text-slate-300 w-10 text-right">{Math.round(b.observed * 100)}%</span>
+                  <span className="text-slate-600 w-8 text-right">n={b.count}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between gap-2 pt-2 border-t border-slate-700/50">
+              <span className="text-xs text-slate-400">Apply to new predictions</span>
+              <select
+                value={method}
+                onChange={(e) => onMethodChange(e.target.value as CalibrationMethod | 'OFF')}
+                className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none"
+              >
+                <option value="OFF">Off</option>
+                {CALIBRATION_METHODS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+              </select>
+            </div>
+            {!report.model && (
+              <p className="text-[10px] text-amber-400/80">Not enough settled predictions to fit a recalibration yet. It switches on automatically once there are about ten.</p>
+            )}
+            <p className="text-[10px] text-slate-600">Calibrated Brier is measured on the same predictions the fit was trained on.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
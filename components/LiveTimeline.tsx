@@ -0,0 +1,87 @@
+import React from 'react';
+import { LiveRefreshTrigger, LiveState, LiveTimelineEntry } from '../types';
+import { Activity, Goal, Clock, RefreshCw } from 'lucide-react';
+
+interface LiveTimelineProps {
+  entries: LiveTimelineEntry[]; // Oldest first; the last one is the analysis on screen
+  liveState: LiveState;
+  refreshing: boolean;
+  refreshMinutes: number;
+  onRefreshMinutesChange: (minutes: number) => void;
+}
+
+const REFRESH_OPTIONS = [5, 10, 15, 30];
+
+const TRIGGER_LABELS: Record<LiveRefreshTrigger, { label: string; className: string }> = {
+  INITIAL: { label: 'First read', className: 'text-slate-400 border-slate-700' },
+  SCORE_CHANGE: { label: 'Score change', className: 'text-rose-400 border-rose-500/30 bg-rose-500/10' },
+  INTERVAL: { label: 'Scheduled', className: 'text-sky-400 border-sky-500/30 bg-sky-500/10' },
+};
+
+const TriggerIcon: React.FC<{ trigger: LiveRefreshTrigger }> = ({ trigger }) =>
+  trigger === 'SCORE_CHANGE' ? <Goal className="w-3 h-3" /> : <Clock className="w-3 h-3" />;
+
+export const LiveTimeline: React.FC<LiveTimelineProps> = ({ entries, liveState, refreshing, refreshMinutes, onRefreshMinutesChange }) => {
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="bg-slate-800/40 border border-slate-700/50 rounded-xl overflow-hidden mt-8">
+      <div className="px-5 py-3 border-b border-slate-700/50 bg-slate-800/60 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center space-x-2 text-rose-400">
+          <Activity className="w-5 h-5" />
+          <h3 className="font-semibold tracking-wide">Live Tracker</h3>
+          <span className="text-[10px] font-mono text-slate-500">
+            {liveState.finished ? `Full time ${liveState.currentScore}` : `${liveState.currentScore} · ${liveState.matchTime}`}
+          </span>
+          {refreshing && <RefreshCw className="w-3 h-3 text-slate-400 animate-spin" />}
+        </div>
+        {!liveState.finished && (
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            Re-analyze every
+            <select
+              value={refreshMinutes}
+              onChange={(e) => onRefreshMinutesChange(Number(e.target.value))}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:outline-none focus:border-rose-500"
+            >
+              {REFRESH_OPTIONS.map(m => <option key={m} value={m}>{m} min</option>)}
+            </select>
+            and on every score change
+          </label>
+        )}
+      </div>
+
+      <div className="p-4 space-y-2">
+        {[...entries].reverse().map((entry, idx) => {
+          const { analysis, trigger, analyzedAt } = entry;
+          const probability = analysis.stats?.winProbability;
+          const badge = TRIGGER_LABELS[trigger];
+          return (
+            <div
+              key={analyzedAt}
+              className={`flex flex-wrap items-center gap-2 rounded-lg px-3 py-2 border text-xs ${idx === 0 ? 'bg-slate-900/70 border-rose-500/30' : 'bg-slate-900/40 border-slate-800 opacity-75'}`}
+            >
+              <span className="font-mono text-slate-500">
+                {new Date(analyzedAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+              </span>
+              <span className="font-mono font-bold text-white">{analysis.liveState?.currentScore}</span>
+              <span className="font-mono text-slate-500">{analysis.liveState?.matchTime}</span>
+              <span className={`flex items-center gap-1 text-[10px] font-bold uppercase px-1.5 py-0.5 rounded border ${badge.className}`}>
+                <TriggerIcon trigger={trigger} /> {badge.label}
+              </span>
+              <span className="flex-1 text-slate-300 truncate">
+                Predicted final <span className="font-semibold text-white">{analysis.sections.scorePrediction || '—'}</span>
+                {analysis.sections.nextGoal && <span className="text-slate-500"> · next {analysis.sections.nextGoal}</span>}
+              </span>
+              {probability && (
+                <span className="font-mono text-slate-400">
+                  {[probability.home, ...(probability.draw > 0 ? [probability.draw] : []), probability.away].map(Math.round).join(' / ')}
+                </span>
+              )}
+              {idx === 0 && <span className="text-[10px] font-bold uppercase text-rose-400">Current</span>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
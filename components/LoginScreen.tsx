@@ -6,9 +6,10 @@ import { User } from '../types';
 
 interface LoginScreenProps {
   onLoginSuccess: (user: User) => void;
+  notice?: string; // e.g. session expiry
 }
 
-export const LoginScreen: React.FC<LoginScreenProps> = ({ onLoginSuccess }) => {
+export const LoginScreen: React.FC<LoginScreenProps> = ({ onLoginSuccess, notice }) => {
   const [isLogin, setIsLogin] = useState(true);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -75,6 +76,12 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLoginSuccess }) => {
             </p>
           </div>
 
+          {notice && !error && (
+            <div className="text-amber-400 text-xs text-center bg-amber-500/10 py-3 rounded-lg border border-amber-500/20 mb-4">
+              {notice}
+            </div>
+          )}
+
           <form onSubmit={handleSubmit} className="space-y-4">
             {!isLogin && (
               <div className="space-y-1">
@@ -116,7 +123,7 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLoginSuccess }) => {
                   value={password}
                   onChange={(e) => setPassword(e.target.value)}
                   className="w-full bg-slate-800 border border-slate-700 rounded-xl py-3 pl-10 pr-4 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 focus:border-emerald-500 transition-all"
-                  placeholder="••••••••"
+                  placeholder={isLogin ? "••••••••" : "At least 8 characters"}
                   required
                 />
               </div>
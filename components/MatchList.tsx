@@ -1,25 +1,88 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { MatchFixture, SportType } from '../types';
-import { Play, Calendar, Trophy, ArrowRight, Activity, Snowflake, Dribbble, Hand, RefreshCw, Check, Filter, X, ChevronLeft, ChevronRight, Layers } from 'lucide-react';
+import { Favourites, LeagueRegion, MatchFixture, Provenance, SportType, WatchedFixture } from '../types';
+import { Play, Calendar, Trophy, ArrowRight, RefreshCw, Check, Filter, X, ChevronLeft, ChevronRight, Layers, Flame, Star, Bell, CloudOff, Globe } from 'lucide-react';
+import { ODDS_HISTORY_EVENT, oddsHistoryService } from '../services/oddsHistoryService';
+import { isFavouriteFixture, isFavouriteLeague, isFavouriteTeam } from '../services/favouritesService';
+import { watchIdOf } from '../services/watchlistService';
+import { getSport } from '../services/sportRegistry';
+import { REGION_LABELS, leagueRegistry } from '../services/leagueRegistry';
+import { browserTimeZone, listTimeZones, resolveTimeZone, timeService } from '../services/timeService';
 
 interface MatchListProps {
   matches: MatchFixture[];
-  onSelectMatch: (home: string, away: string, league: string, liveState?: { score: string, time: string }) => void;
+  onSelectMatch: (home: string, away: string, league: string, liveState?: { score: string, time: string }, sport?: SportType) => void;
   onRefresh?: () => void;
   isLoading: boolean;
-  selectedDate: string;
+  selectedDate: string; // Calendar day in the chosen timezone
   onDateChange: (date: string) => void;
+  timeZone: string; // IANA zone setting; empty follows the browser
+  onTimeZoneChange: (timeZone: string) => void;
+  currentSport: SportType;
+  favourites: Favourites;
+  onToggleFavouriteTeam: (name: string, sport: SportType) => void;
+  onToggleFavouriteLeague: (name: string, sport: SportType) => void;
+  allSportsMatches: MatchFixture[]; // Every sport for the selected date, loaded on demand for "My Matches"
+  loadingAllSports: boolean;
+  onShowMyMatches: () => void;
+  watchlist: WatchedFixture[];
+  onToggleWatch: (match: MatchFixture, sport: SportType) => void;
 }
 
-export const MatchList: React.FC<MatchListProps> = ({ matches, onSelectMatch, onRefresh, isLoading, selectedDate, onDateChange }) => {
+const PROVENANCE_LABELS: Record<Exclude<Provenance, 'live'>, { tag: string; notice: string }> = {
+  fallback: { tag: 'Sample', notice: "Live fixtures are unavailable right now. These are sample fixtures, not the real schedule." },
+  cached: { tag: 'Saved', notice: "You're offline. Showing fixtures saved earlier; times and scores may be out of date." },
+  mock: { tag: 'Demo', notice: "Demo fixtures from the offline provider." },
+};
+
+const formatSavedAt = (ts: number) =>
+  new Date(ts).toLocaleString(undefined, { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+const WatchToggle: React.FC<{ active: boolean; onToggle: () => void }> = ({ active, onToggle }) => (
+  <span
+    role="button"
+    tabIndex={0}
+    onClick={(e) => { e.stopPropagation(); onToggle(); }}
+    onKeyDown={(e) => { if (e.key === 'Enter') { e.stopPropagation(); onToggle(); } }}
+    title={active ? 'Stop watching' : 'Watch: kickoff reminder and live alerts'}
+    className="p-1 rounded-md hover:bg-slate-700/50 transition-colors"
+  >
+    <Bell className={`w-3.5 h-3.5 ${active ? 'fill-sky-400 text-sky-400' : 'text-slate-600 hover:text-sky-400'}`} />
+  </span>
+);
+
+const StarToggle: React.FC<{ active: boolean; onToggle: () => void; label: string }> = ({ active, onToggle, label }) => (
+  <span
+    role="button"
+    tabIndex={0}
+    onClick={(e) => { e.stopPropagation(); onToggle(); }}
+    onKeyDown={(e) => { if (e.key === 'Enter') { e.stopPropagation(); onToggle(); } }}
+    title={active ? `Unstar ${label}` : `Star ${label}`}
+    className="p-0.5 rounded hover:bg-slate-700/50 transition-colors shrink-0"
+  >
+    <Star className={`w-3 h-3 ${active ? 'fill-amber-400 text-amber-400' : 'text-slate-600 hover:text-amber-400'}`} />
+  </span>
+);
+
+export const MatchList: React.FC<MatchListProps> = ({ matches, onSelectMatch, onRefresh, isLoading, selectedDate, onDateChange, timeZone, onTimeZoneChange, currentSport, favourites, onToggleFavouriteTeam, onToggleFavouriteLeague, allSportsMatches, loadingAllSports, onShowMyMatches, watchlist, onToggleWatch }) => {
   const [showSuccess, setShowSuccess] = useState(false);
+  const [view, setView] = useState<'ALL' | 'MY'>('ALL');
 
   // Filter States
   const [filterLeague, setFilterLeague] = useState<string>('ALL');
   const [filterStatus, setFilterStatus] = useState<string>('ALL');
   const [filterSport, setFilterSport] = useState<string>('ALL');
   const [filterTier, setFilterTier] = useState<string>('ALL');
+  const [filterRegion, setFilterRegion] = useState<string>('ALL'); // 'ALL', 'UNCLASSIFIED', 'REGION:<LeagueRegion>' or 'COUNTRY:<name>'
+
+  // Bumped whenever a new odds snapshot lands so steam badges stay current
+  const [oddsVersion, setOddsVersion] = useState(0);
+
+  useEffect(() => {
+    const onOddsRecorded = () => setOddsVersion(v => v + 1);
+    window.addEventListener(ODDS_HISTORY_EVENT, onOddsRecorded);
+    return () => window.removeEventListener(ODDS_HISTORY_EVENT, onOddsRecorded);
+  }, []);
 
   useEffect(() => {
     if (!isLoading && showSuccess) {
@@ -35,42 +98,74 @@ export const MatchList: React.FC<MatchListProps> = ({ matches, onSelectMatch, on
     }
   };
 
+  const zone = resolveTimeZone(timeZone);
+  const zoneOptions = useMemo(() => listTimeZones(), []);
+
   const changeDate = (offset: number) => {
-    const date = new Date(selectedDate);
-    date.setDate(date.getDate() + offset);
-    onDateChange(date.toISOString().split('T')[0]);
+    onDateChange(timeService.shiftDate(selectedDate, offset));
   };
 
   const formatDateDisplay = (dateStr: string) => {
     if (!dateStr) return 'Today';
-    // Append time to avoid timezone shift issues when parsing YYYY-MM-DD
-    const date = new Date(dateStr + 'T12:00:00');
-    return date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+    return timeService.formatDate(dateStr);
   };
   
-  const getSportIcon = (sport?: string) => {
-    switch(sport) {
-      case 'BASKETBALL': return <Dribbble className="w-3 h-3" />;
-      case 'HOCKEY': return <Snowflake className="w-3 h-3" />;
-      case 'HANDBALL': return <Hand className="w-3 h-3" />;
-      default: return <Activity className="w-3 h-3" />;
-    }
+  const getSportIcon = (sport?: SportType) => {
+    const Icon = getSport(sport).icon;
+    return <Icon className="w-3 h-3" />;
+  };
+
+  const showMyMatches = () => {
+    setView('MY');
+    onShowMyMatches();
   };
 
+  const watchedIds = useMemo(() => new Set(watchlist.map(w => w.id)), [watchlist]);
+
+  const isMine = (match: MatchFixture) => isFavouriteFixture(favourites, match, currentSport);
+
+  // "My Matches" spans every sport; the default view is the current sport's list
+  const sourceMatches = useMemo(() => {
+    return view === 'MY' ? allSportsMatches.filter(isMine) : matches;
+  }, [view, matches, allSportsMatches, favourites, currentSport]);
+
+  const myMatchCount = useMemo(() => allSportsMatches.filter(isMine).length, [allSportsMatches, favourites, currentSport]);
+
   // derive unique options from data
   const uniqueLeagues = useMemo(() => {
-    const leagues = new Set(matches.map(m => m.league));
+    const leagues = new Set(sourceMatches.map(m => m.league));
     return Array.from(leagues).sort();
-  }, [matches]);
+  }, [sourceMatches]);
+
+  // Registry entry behind each fixture's league; unknown leagues have none
+  const leagueOf = useMemo(
+    () => new Map(sourceMatches.map(m => [m, leagueRegistry.ofFixture(m, currentSport)])),
+    [sourceMatches, currentSport]
+  );
+
+  // Regions present in the list, each with its countries
+  const regionOptions = useMemo(() => {
+    const countries = new Map<LeagueRegion, Set<string>>();
+    leagueOf.forEach(league => {
+      if (!league) return;
+      if (!countries.has(league.region)) countries.set(league.region, new Set());
+      if (league.country !== 'International') countries.get(league.region)!.add(league.country);
+    });
+    return (Object.keys(REGION_LABELS) as LeagueRegion[])
+      .filter(region => countries.has(region))
+      .map(region => ({ region, countries: Array.from(countries.get(region)!).sort() }));
+  }, [leagueOf]);
+
+  const hasUnclassified = useMemo(() => Array.from(leagueOf.values()).some(league => !league), [leagueOf]);
 
   const uniqueSports = useMemo(() => {
-    const sports = new Set(matches.map(m => m.sport || 'SOCCER'));
+    const sports = new Set(sourceMatches.map(m => m.sport || 'SOCCER'));
     return Array.from(sports).sort();
-  }, [matches]);
+  }, [sourceMatches]);
 
   // Filter Logic
   const filteredMatches = useMemo(() => {
-    return matches.filter(match => {
+    return sourceMatches.filter(match => {
       const statusMatch = filterStatus === 'ALL' 
         ? true 
         : filterStatus === 'LIVE' 
@@ -82,40 +177,70 @@ export const MatchList: React.FC<MatchListProps> = ({ matches, onSelectMatch, on
       const leagueMatch = filterLeague === 'ALL' ? true : match.league === filterLeague;
       const sportMatch = filterSport === 'ALL' ? true : (match.sport || 'SOCCER') === filterSport;
 
-      // Tier Classification (Lower Division keywords)
-      const lowerKeywords = [
-        'Championship', 'League One', 'League Two', 'National League',
-        'Serie B', 'Serie C', 
-        'Segunda', 'La Liga 2', 
-        '2. Bundesliga', '3. Liga', 
-        'Ligue 2', 'National',
-        'Eerste', 
-        'Superettan', 
-        '1. Lig', 
-        'Challenge League', 
-        'Liga 2', 'J2', 'K2', 'Brasileirão B'
-      ];
-      
-      const isLower = lowerKeywords.some(k => match.league && match.league.includes(k));
-      
+      // Tier and region come from the league registry; leagues it doesn't know fall under "Unclassified"
+      const league = leagueOf.get(match);
       let tierMatch = true;
-      if (filterTier === 'TOP') tierMatch = !isLower;
-      if (filterTier === 'LOWER') tierMatch = isLower;
+      if (filterTier === 'TOP') tierMatch = league?.tier === 1;
+      if (filterTier === 'LOWER') tierMatch = !!league && league.tier > 1;
+      if (filterTier === 'UNCLASSIFIED') tierMatch = !league;
+
+      let regionMatch = true;
+      if (filterRegion === 'UNCLASSIFIED') regionMatch = !league;
+      if (filterRegion.startsWith('REGION:')) regionMatch = league?.region === filterRegion.slice('REGION:'.length);
+      if (filterRegion.startsWith('COUNTRY:')) regionMatch = league?.country === filterRegion.slice('COUNTRY:'.length);
 
-      return statusMatch && leagueMatch && sportMatch && tierMatch;
+      return statusMatch && leagueMatch && sportMatch && tierMatch && regionMatch;
+    })
+    // Pin starred fixtures to the top, otherwise keep the feed order
+    .map((match, idx) => ({ match, idx, pinned: isMine(match) }))
+    .sort((a, b) => Number(b.pinned) - Number(a.pinned) || a.idx - b.idx)
+    .map(({ match }) => match);
+  }, [sourceMatches, filterStatus, filterLeague, filterSport, filterTier, filterRegion, leagueOf, favourites, currentSport]);
+
+  // One section per league: sections holding starred fixtures first, then top flights before
+  // lower divisions, unknown leagues last
+  const leagueGroups = useMemo(() => {
+    const groups = new Map<string, MatchFixture[]>();
+    filteredMatches.forEach(match => {
+      const key = `${match.sport || currentSport}|${match.league}`;
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(match);
     });
-  }, [matches, filterStatus, filterLeague, filterSport, filterTier]);
+    return Array.from(groups.entries())
+      .map(([key, list]) => ({ key, name: list[0].league, matches: list, league: leagueOf.get(list[0]), pinned: list.some(isMine) }))
+      .sort((a, b) =>
+        Number(b.pinned) - Number(a.pinned)
+        || (a.league?.tier ?? Infinity) - (b.league?.tier ?? Infinity)
+        || a.name.localeCompare(b.name));
+  }, [filteredMatches, leagueOf, favourites, currentSport]);
+
+  // Worst provenance in the visible list drives the notice above the grid
+  const degradedProvenance = useMemo(() => {
+    const order: Provenance[] = ['fallback', 'mock', 'cached'];
+    return order.find(p => sourceMatches.some(m => m.provenance === p)) as Exclude<Provenance, 'live'> | undefined;
+  }, [sourceMatches]);
+
+  // Oldest saved copy in view, so the label never overstates freshness
+  const savedAt = useMemo(() => {
+    const times = sourceMatches.map(m => m.cachedAt).filter((t): t is number => t !== undefined);
+    return times.length > 0 ? Math.min(...times) : undefined;
+  }, [sourceMatches]);
+
+  const steamMoves = useMemo(() => {
+    return new Map(filteredMatches.map(m => [m, oddsHistoryService.getSteamMove(m.home, m.away, m.sport || currentSport)]));
+  }, [filteredMatches, oddsVersion, currentSport]);
 
   const resetFilters = () => {
     setFilterLeague('ALL');
     setFilterStatus('ALL');
     setFilterSport('ALL');
     setFilterTier('ALL');
+    setFilterRegion('ALL');
   };
 
-  const hasActiveFilters = filterLeague !== 'ALL' || filterStatus !== 'ALL' || filterSport !== 'ALL' || filterTier !== 'ALL';
+  const hasActiveFilters = filterLeague !== 'ALL' || filterStatus !== 'ALL' || filterSport !== 'ALL' || filterTier !== 'ALL' || filterRegion !== 'ALL';
 
-  if (isLoading && matches.length === 0) {
+  if (isLoading && matches.length === 0 && view === 'ALL') {
     return (
       <div className="w-full mb-10">
         <div className="flex items-center space-x-2 mb-4">
@@ -137,9 +262,26 @@ export const MatchList: React.FC<MatchListProps> = ({ matches, onSelectMatch, on
       {/* Controls Header */}
       <div className="flex flex-col gap-6 mb-6">
         <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
-          <div className="flex items-center space-x-2">
-            <Trophy className="w-5 h-5 text-emerald-400" />
-            <h3 className="text-slate-200 text-lg font-bold uppercase tracking-wide">Fixtures</h3>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center space-x-2">
+              <Trophy className="w-5 h-5 text-emerald-400" />
+              <h3 className="text-slate-200 text-lg font-bold uppercase tracking-wide">Fixtures</h3>
+            </div>
+            <div className="flex items-center bg-slate-800 border border-slate-700 p-1 rounded-lg text-xs font-bold">
+              <button
+                onClick={() => setView('ALL')}
+                className={`px-3 py-1 rounded transition-colors ${view === 'ALL' ? 'bg-emerald-500 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                {currentSport}
+              </button>
+              <button
+                onClick={showMyMatches}
+                className={`flex items-center gap-1 px-3 py-1 rounded transition-colors ${view === 'MY' ? 'bg-amber-500 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                <Star className={`w-3 h-3 ${view === 'MY' ? 'fill-white' : ''}`} /> My Matches
+                {allSportsMatches.length > 0 && <span className="font-mono opacity-80">({myMatchCount})</span>}
+              </button>
+            </div>
           </div>
 
           {/* Date Navigator */}
@@ -172,6 +314,19 @@ export const MatchList: React.FC<MatchListProps> = ({ matches, onSelectMatch, on
             >
               <ChevronRight className="w-5 h-5" />
             </button>
+
+            {/* Timezone: kickoff times and day boundaries follow it */}
+            <label className="flex items-center gap-1 pl-2 ml-1 border-l border-slate-700 text-slate-400" title={`Times shown in ${zone} (${timeService.offsetLabel(zone)})`}>
+              <Globe className="w-4 h-4 text-emerald-500" />
+              <select
+                value={timeZone}
+                onChange={(e) => onTimeZoneChange(e.target.value)}
+                className="bg-transparent text-xs text-slate-300 font-medium py-1 pr-1 outline-none cursor-pointer hover:text-white max-w-[130px]"
+              >
+                <option value="">Auto ({browserTimeZone()})</option>
+                {zoneOptions.map(z => <option key={z} value={z}>{z.replace(/_/g, ' ')}</option>)}
+              </select>
+            </label>
           </div>
         </div>
         
@@ -212,6 +367,25 @@ export const MatchList: React.FC<MatchListProps> = ({ matches, onSelectMatch, on
                 <option value="ALL">All Tiers</option>
                 <option value="TOP">Top / Major Leagues</option>
                 <option value="LOWER">Lower Divisions</option>
+                {hasUnclassified && <option value="UNCLASSIFIED">Unclassified</option>}
+              </select>
+
+              {/* Region / Country Filter */}
+              <select 
+                value={filterRegion}
+                onChange={(e) => setFilterRegion(e.target.value)}
+                className="bg-transparent text-xs text-slate-300 font-medium py-1.5 px-2 outline-none cursor-pointer hover:text-white border-r border-slate-700/50 max-w-[140px] truncate"
+              >
+                <option value="ALL">All Regions</option>
+                {regionOptions.map(({ region, countries }) => (
+                  <optgroup key={region} label={REGION_LABELS[region]}>
+                    <option value={`REGION:${region}`}>All {REGION_LABELS[region]}</option>
+                    {countries.map(c => (
+                      <option key={c} value={`COUNTRY:${c}`}>{c}</option>
+                    ))}
+                  </optgroup>
+                ))}
+                {hasUnclassified && <option value="UNCLASSIFIED">Unclassified</option>}
               </select>
 
               {/* League Filter */}
@@ -249,7 +423,31 @@ export const MatchList: React.FC<MatchListProps> = ({ matches, onSelectMatch, on
         </div>
       </div>
       
-      {filteredMatches.length === 0 ? (
+      {degradedProvenance && filteredMatches.length > 0 && (
+        <div className="flex items-center gap-2 mb-4 px-4 py-2 rounded-lg border border-dashed border-slate-600 bg-slate-900/60 text-xs text-slate-400">
+          <CloudOff className="w-4 h-4 text-slate-300 shrink-0" />
+          <span>{PROVENANCE_LABELS[degradedProvenance].notice}</span>
+          {savedAt && (
+            <span className="ml-auto font-mono text-slate-500 shrink-0">Saved {formatSavedAt(savedAt)}</span>
+          )}
+        </div>
+      )}
+
+      {view === 'MY' && loadingAllSports && filteredMatches.length === 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {[1, 2, 3].map(i => (
+            <div key={i} className="bg-slate-800/30 border border-slate-800 rounded-xl h-32 animate-pulse"></div>
+          ))}
+        </div>
+      ) : view === 'MY' && favourites.teams.length === 0 && favourites.leagues.length === 0 ? (
+        <div className="bg-slate-800/30 border border-slate-800 rounded-xl p-12 text-center">
+           <div className="bg-slate-800 w-12 h-12 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Star className="w-6 h-6 text-amber-400" />
+           </div>
+           <p className="text-slate-400 font-medium mb-2">No favourites yet.</p>
+           <p className="text-xs text-slate-500">Star a team or league on any fixture card to follow it here across every sport.</p>
+        </div>
+      ) : filteredMatches.length === 0 ? (
         <div className="bg-slate-800/30 border border-slate-800 rounded-xl p-12 text-center">
            <div className="bg-slate-800 w-12 h-12 rounded-full flex items-center justify-center mx-auto mb-4">
               <Calendar className="w-6 h-6 text-slate-500" />
@@ -268,56 +466,116 @@ export const MatchList: React.FC<MatchListProps> = ({ matches, onSelectMatch, on
            )}
         </div>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {filteredMatches.map((match, idx) => (
-            <button
-              key={idx}
-              onClick={() => {
-                const isLive = match.status === 'LIVE';
-                const liveState = isLive && match.score ? { score: match.score, time: match.time } : undefined;
-                onSelectMatch(match.home, match.away, match.league, liveState);
-              }}
-              className="group relative bg-slate-800/40 hover:bg-slate-800/80 border border-slate-700/50 hover:border-emerald-500/50 rounded-xl p-4 transition-all duration-300 text-left w-full flex flex-col shadow-sm hover:shadow-lg hover:shadow-emerald-900/10"
-            >
-              {/* Status Badge */}
-              <div className="flex justify-between items-center mb-4">
-                <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider flex items-center gap-1 bg-slate-900/50 px-2 py-1 rounded-md border border-slate-800">
-                  {getSportIcon(match.sport)}
-                  <Trophy className="w-3 h-3 ml-1" /> <span className="truncate max-w-[100px]">{match.league}</span>
-                </span>
-                {match.status === 'LIVE' ? (
-                  <span className="flex items-center space-x-1.5 bg-rose-500/20 text-rose-400 px-2 py-1 rounded-md border border-rose-500/20 text-[10px] font-bold">
-                    <span className="relative flex h-2 w-2">
-                      <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-rose-400 opacity-75"></span>
-                      <span className="relative inline-flex rounded-full h-2 w-2 bg-rose-500"></span>
+        <div className="space-y-6">
+          {leagueGroups.map(group => (
+            <section key={group.key}>
+              <div className="flex items-center gap-2 mb-3 text-xs">
+                <Trophy className="w-3.5 h-3.5 text-amber-400" />
+                <h4 className="font-bold text-slate-200">{group.name}</h4>
+                {group.league && (
+                  <>
+                    <span className="text-slate-500">
+                      {group.league.country === 'International' ? REGION_LABELS[group.league.region] : group.league.country}
+                    </span>
+                    <span className={`text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded border ${group.league.tier === 1 ? 'text-emerald-400 border-emerald-500/30' : 'text-slate-400 border-slate-700'}`}>
+                      {group.league.tier === 1 ? 'Top Flight' : `Tier ${group.league.tier}`}
                     </span>
-                    <span>LIVE {match.time.replace('LIVE', '')}</span>
-                  </span>
-                ) : (
-                  <span className="text-xs font-mono text-slate-500 bg-slate-900/50 px-2 py-1 rounded-md border border-slate-800">{match.time}</span>
+                  </>
                 )}
+                <span className="ml-auto text-slate-600 font-mono">{group.matches.length}</span>
               </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {group.matches.map((match, idx) => {
+                  const steam = steamMoves.get(match);
+                  const sport = match.sport || currentSport;
+                  const selectMatch = () => {
+                    const isLive = match.status === 'LIVE';
+                    const liveState = isLive && match.score ? { score: match.score, time: match.time } : undefined;
+                    onSelectMatch(match.home, match.away, match.league, liveState, sport);
+                  };
+                  return (
+                  <div
+                    key={idx}
+                    role="button"
+                    tabIndex={0}
+                    onClick={selectMatch}
+                    onKeyDown={(e) => { if (e.key === 'Enter') selectMatch(); }}
+                    className={`group relative bg-slate-800/40 hover:bg-slate-800/80 border hover:border-emerald-500/50 rounded-xl p-4 transition-all duration-300 text-left w-full flex flex-col shadow-sm hover:shadow-lg hover:shadow-emerald-900/10 cursor-pointer ${isMine(match) ? 'border-amber-500/30' : 'border-slate-700/50'}`}
+                  >
+                    {/* Status Badge */}
+                    <div className="flex justify-between items-center mb-4">
+                      <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider flex items-center gap-1 bg-slate-900/50 px-2 py-1 rounded-md border border-slate-800">
+                        {getSportIcon(match.sport)}
+                        <Trophy className="w-3 h-3 ml-1" /> <span className="truncate max-w-[100px]">{match.league}</span>
+                        <StarToggle active={isFavouriteLeague(favourites, match.league, sport)} onToggle={() => onToggleFavouriteLeague(match.league, sport)} label={match.league} />
+                      </span>
+                      <span className="flex items-center gap-1">
+                        {match.provenance && match.provenance !== 'live' && (
+                          <span className="text-[9px] font-bold uppercase tracking-wider text-slate-400 border border-dashed border-slate-600 px-1.5 py-0.5 rounded">
+                            {PROVENANCE_LABELS[match.provenance].tag}
+                          </span>
+                        )}
+                        {match.status !== 'FINISHED' && (
+                          <WatchToggle active={watchedIds.has(watchIdOf(match, sport, selectedDate))} onToggle={() => onToggleWatch(match, sport)} />
+                        )}
+                        {match.status === 'LIVE' ? (
+                          <span className="flex items-center space-x-1.5 bg-rose-500/20 text-rose-400 px-2 py-1 rounded-md border border-rose-500/20 text-[10px] font-bold">
+                            <span className="relative flex h-2 w-2">
+                              <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-rose-400 opacity-75"></span>
+                              <span className="relative inline-flex rounded-full h-2 w-2 bg-rose-500"></span>
+                            </span>
+                            <span>LIVE {match.time.replace('LIVE', '')}</span>
+                          </span>
+                        ) : (
+                          <span className="text-xs font-mono text-slate-500 bg-slate-900/50 px-2 py-1 rounded-md border border-slate-800">{timeService.fixtureTime(match, zone)}</span>
+                        )}
+                      </span>
+                    </div>
 
-              {/* Teams */}
-              <div className="flex items-center justify-between flex-1">
-                <div className="space-y-3 w-full">
-                  <div className="flex justify-between items-center">
-                    <span className="font-semibold text-slate-200 group-hover:text-white transition-colors line-clamp-1 mr-2">{match.home}</span>
-                    {match.score && <span className="font-mono font-bold text-emerald-400">{match.score.split('-')[0]}</span>}
-                  </div>
-                  <div className="flex justify-between items-center">
-                    <span className="font-semibold text-slate-200 group-hover:text-white transition-colors line-clamp-1 mr-2">{match.away}</span>
-                    {match.score && <span className="font-mono font-bold text-rose-400">{match.score.split('-')[1]}</span>}
-                  </div>
-                </div>
-              </div>
+                    {steam && (
+                      <div className="flex items-center gap-1 -mt-2 mb-3 text-[10px] font-bold uppercase tracking-wider text-orange-400" title={`Price shortened ${steam.dropPct}% in 30 min`}>
+                        <Flame className="w-3 h-3 animate-pulse" />
+                        <span>Steam: {steam.selection} {steam.from.toFixed(2)} → {steam.to.toFixed(2)}</span>
+                      </div>
+                    )}
+
+                    {(match.surface || match.round) && (
+                      <div className="flex items-center gap-2 -mt-2 mb-3 text-[10px] font-bold uppercase tracking-wider text-slate-500">
+                        {match.surface && <span className="px-1.5 py-0.5 rounded border border-slate-700">{match.surface}</span>}
+                        {match.round && <span>{match.round}</span>}
+                      </div>
+                    )}
+
+                    {/* Teams */}
+                    <div className="flex items-center justify-between flex-1">
+                      <div className="space-y-3 w-full">
+                        <div className="flex justify-between items-center">
+                          <span className="flex items-center gap-1 min-w-0 mr-2">
+                            <StarToggle active={isFavouriteTeam(favourites, match.home, sport)} onToggle={() => onToggleFavouriteTeam(match.home, sport)} label={match.home} />
+                            <span className="font-semibold text-slate-200 group-hover:text-white transition-colors line-clamp-1">{match.home}</span>
+                          </span>
+                          {match.score && <span className="font-mono font-bold text-emerald-400">{match.score.split('-')[0]}</span>}
+                        </div>
+                        <div className="flex justify-between items-center">
+                          <span className="flex items-center gap-1 min-w-0 mr-2">
+                            <StarToggle active={isFavouriteTeam(favourites, match.away, sport)} onToggle={() => onToggleFavouriteTeam(match.away, sport)} label={match.away} />
+                            <span className="font-semibold text-slate-200 group-hover:text-white transition-colors line-clamp-1">{match.away}</span>
+                          </span>
+                          {match.score && <span className="font-mono font-bold text-rose-400">{match.score.split('-')[1]}</span>}
+                        </div>
+                      </div>
+                    </div>
               
-              {/* Hover Action */}
-              <div className="mt-4 pt-3 border-t border-slate-700/50 flex items-center justify-center text-emerald-400 text-xs font-bold opacity-0 group-hover:opacity-100 transition-opacity transform translate-y-2 group-hover:translate-y-0">
-                <span>{match.status === 'LIVE' ? 'Analyze Live Game' : 'Analyze Match'}</span>
-                <ArrowRight className="w-3 h-3 ml-1" />
+                    {/* Hover Action */}
+                    <div className="mt-4 pt-3 border-t border-slate-700/50 flex items-center justify-center text-emerald-400 text-xs font-bold opacity-0 group-hover:opacity-100 transition-opacity transform translate-y-2 group-hover:translate-y-0">
+                      <span>{match.status === 'LIVE' ? 'Analyze Live Game' : 'Analyze Match'}</span>
+                      <ArrowRight className="w-3 h-3 ml-1" />
+                    </div>
+                  </div>
+                  );
+                })}
               </div>
-            </button>
+            </section>
           ))}
         </div>
       )}
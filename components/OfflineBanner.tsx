@@ -0,0 +1,64 @@
+import React from 'react';
+import { CompletedAnalysis, QueuedAnalysis } from '../types';
+import { WifiOff, Clock, CheckCircle2, ArrowRight, X, AlertTriangle, RotateCcw } from 'lucide-react';
+
+interface OfflineBannerProps {
+  isOnline: boolean;
+  queued: QueuedAnalysis[];
+  completed: CompletedAnalysis[];
+  onView: (entry: CompletedAnalysis) => void;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+}
+
+export const OfflineBanner: React.FC<OfflineBannerProps> = ({ isOnline, queued, completed, onView, onCancel, onRetry }) => {
+  if (isOnline && queued.length === 0 && completed.length === 0) return null;
+
+  return (
+    <div className="mb-8 space-y-2">
+      {!isOnline && (
+        <div className="flex items-center gap-3 bg-slate-800 border border-dashed border-slate-600 rounded-xl px-4 py-3 text-sm">
+          <WifiOff className="w-5 h-5 text-amber-400 shrink-0" />
+          <div className="flex-1">
+            <span className="font-bold text-white">You're offline.</span>{' '}
+            <span className="text-slate-400">Showing fixtures and analyses saved on this device. New analyses are queued and run when you reconnect.</span>
+          </div>
+        </div>
+      )}
+
+      {queued.map(item => (
+        <div key={item.id} className={`flex items-center gap-3 rounded-lg px-4 py-2 text-xs border ${item.failure ? 'bg-rose-500/10 border-rose-500/30' : 'bg-slate-800/40 border-slate-700/50'}`}>
+          {item.failure ? <AlertTriangle className="w-4 h-4 text-rose-400 shrink-0" /> : <Clock className="w-4 h-4 text-slate-400 shrink-0" />}
+          <span className="flex-1 text-slate-300">
+            <span className="font-semibold text-white">{item.home} vs {item.away}</span> queued {new Date(item.queuedAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+            {item.failure
+              ? <span className="text-rose-400 ml-2">Analysis failed: {item.failure}</span>
+              : isOnline && <span className="text-emerald-400 ml-2 animate-pulse">Analyzing...</span>}
+          </span>
+          {item.failure && isOnline && (
+            <button onClick={() => onRetry(item.id)} className="flex items-center gap-1 font-bold text-slate-300 hover:text-emerald-400 transition-colors" title="Retry">
+              <RotateCcw className="w-3 h-3" /> Retry
+            </button>
+          )}
+          <button onClick={() => onCancel(item.id)} className="text-slate-500 hover:text-rose-400 transition-colors" title="Cancel">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      {completed.map(entry => (
+        <button
+          key={entry.request.id}
+          onClick={() => onView(entry)}
+          className="w-full flex items-center gap-3 bg-emerald-500/10 hover:bg-emerald-500/20 border border-emerald-500/30 rounded-lg px-4 py-2 text-xs text-left transition-colors"
+        >
+          <CheckCircle2 className="w-4 h-4 text-emerald-400 shrink-0" />
+          <span className="flex-1 text-slate-300">
+            Queued analysis ready: <span className="font-semibold text-white">{entry.request.home} vs {entry.request.away}</span>
+          </span>
+          <span className="flex items-center gap-1 font-bold text-emerald-400">View <ArrowRight className="w-3 h-3" /></span>
+        </button>
+      ))}
+    </div>
+  );
+};
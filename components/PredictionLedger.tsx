@@ -0,0 +1,97 @@
+import React, { useMemo, useState } from 'react';
+import { LedgerEntry } from '../types';
+import { BookOpen, CheckCircle2, XCircle, Clock, ChevronDown, ChevronUp, Trash2 } from 'lucide-react';
+
+interface PredictionLedgerProps {
+  entries: LedgerEntry[];
+  onRemove: (id: string) => void;
+}
+
+const HitBadge: React.FC<{ label: string; hit?: boolean }> = ({ label, hit }) => {
+  if (hit === undefined) {
+    return <span className="text-[10px] font-bold uppercase px-1.5 py-0.5 rounded border border-slate-700 text-slate-500">{label} -</span>;
+  }
+  return (
+    <span className={`text-[10px] font-bold uppercase px-1.5 py-0.5 rounded border flex items-center gap-1 ${hit ? 'text-emerald-400 border-emerald-500/30 bg-emerald-500/10' : 'text-rose-400 border-rose-500/30 bg-rose-500/10'}`}>
+      {hit ? <CheckCircle2 className="w-3 h-3" /> : <XCircle className="w-3 h-3" />} {label}
+    </span>
+  );
+};
+
+export const PredictionLedger: React.FC<PredictionLedgerProps> = ({ entries, onRemove }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const summary = useMemo(() => {
+    const settled = entries.filter(e => e.settlement);
+    // Hit rates cover pre-match predictions only; in-play ones are listed but not scored
+    const graded = settled.filter(e => !e.isLive);
+    const rate = (hits: (boolean | undefined)[]) => {
+      const graded = hits.filter(h => h !== undefined);
+      return graded.length ? Math.round((graded.filter(Boolean).length / graded.length) * 100) : null;
+    };
+    return {
+      total: entries.length,
+      settled: settled.length,
+      outcome: rate(graded.map(e => e.settlement!.outcomeHit)),
+      exact: rate(graded.map(e => e.settlement!.exactScoreHit)),
+      totals: rate(graded.map(e => e.settlement!.totalsHit)),
+    };
+  }, [entries]);
+
+  if (entries.length === 0) return null;
+
+  const recent = [...entries].sort((a, b) => b.createdAt - a.createdAt).slice(0, expanded ? 50 : 5);
+
+  return (
+    <div className="bg-slate-800/40 border border-slate-700/50 rounded-xl overflow-hidden mb-16">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full px-5 py-3 border-b border-slate-700/50 bg-slate-800/60 flex items-center justify-between text-indigo-400"
+      >
+        <div className="flex items-center space-x-2">
+          <BookOpen className="w-5 h-5" />
+          <h3 className="font-semibold tracking-wide">Prediction Ledger</h3>
+          <span className="text-[10px] font-mono text-slate-500">{summary.settled}/{summary.total} settled</span>
+        </div>
+        {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      <div className="grid grid-cols-3 gap-3 p-4 text-center">
+        {[
+          { label: 'Outcome', value: summary.outcome },
+          { label: 'Exact Score', value: summary.exact },
+          { label: 'Totals', value: summary.totals },
+        ].map(s => (
+          <div key={s.label} className="bg-slate-900/50 rounded-lg p-3 border border-slate-700/50">
+            <div className="text-[10px] text-slate-500 uppercase font-bold mb-1">{s.label}</div>
+            <div className="text-white font-bold font-mono text-lg">{s.value === null ? '-' : `${s.value}%`}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="px-4 pb-4 space-y-2">
+        {recent.map(entry => (
+          <div key={entry.id} className="flex flex-wrap items-center gap-2 bg-slate-900/40 rounded-lg px-3 py-2 border border-slate-800 text-xs">
+            <span className="font-mono text-slate-500">{entry.date}</span>
+            <span className="font-semibold text-slate-200 flex-1 truncate">{entry.homeTeam} vs {entry.awayTeam}</span>
+            {entry.isLive && <span className="text-[10px] font-bold uppercase px-1.5 py-0.5 rounded border border-rose-500/30 text-rose-400" title="In-play prediction, not counted in hit rates">In-play</span>}
+            <span className="font-mono text-slate-400">{entry.scorePrediction || '-'}</span>
+            {entry.settlement ? (
+              <>
+                <span className="font-mono font-bold text-white">FT {entry.settlement.finalScore}</span>
+                <HitBadge label="1X2" hit={entry.settlement.outcomeHit} />
+                <HitBadge label="Score" hit={entry.settlement.exactScoreHit} />
+                <HitBadge label="O/U" hit={entry.settlement.totalsHit} />
+              </>
+            ) : (
+              <span className="flex items-center gap-1 text-slate-500"><Clock className="w-3 h-3" /> Pending</span>
+            )}
+            <button onClick={() => onRemove(entry.id)} className="text-slate-600 hover:text-rose-400 transition-colors" title="Remove">
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
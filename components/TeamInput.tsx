@@ -1,57 +1,149 @@
 
-import React, { useState } from 'react';
-import { Search, Trophy, Zap, Activity, Snowflake, Dribbble, Hand } from 'lucide-react';
-import { SportType } from '../types';
+import React, { useState, useMemo } from 'react';
+import { Search, Trophy, Zap, Star } from 'lucide-react';
+import { Favourites, SportType } from '../types';
+import { SPORTS, SPORT_IDS, getSport } from '../services/sportRegistry';
+import { normalizeTeamName, teamRegistry } from '../services/teamRegistry';
 
 interface TeamInputProps {
   onAnalyze: (home: string, away: string, league: string) => void;
   onSportChange: (sport: SportType) => void;
   currentSport: SportType;
+  favourites: Favourites;
   disabled: boolean;
 }
 
-export const TeamInput: React.FC<TeamInputProps> = ({ onAnalyze, onSportChange, currentSport, disabled }) => {
+interface TeamFieldProps {
+  label: string;
+  placeholder: string;
+  value: string;
+  onChange: (value: string) => void;
+  sport: SportType;
+  favouriteTeams: string[];
+  accent: 'emerald' | 'rose';
+  disabled: boolean;
+}
+
+// Team name input with suggestions from the user's starred teams and the team registry
+const TeamField: React.FC<TeamFieldProps> = ({ label, placeholder, value, onChange, sport, favouriteTeams, accent, disabled }) => {
+  const [open, setOpen] = useState(false);
+
+  const suggestions = useMemo(() => {
+    const query = normalizeTeamName(value);
+    if (!query) return [];
+    const starred = favouriteTeams
+      .filter(name => normalizeTeamName(name).includes(query))
+      .map(name => ({ name, detail: 'Starred', starred: true }));
+    const known = teamRegistry.search(value, sport)
+      .filter(team => !starred.some(s => teamRegistry.keyOf(s.name, sport) === team.id))
+      .map(team => ({ name: team.name, detail: `${team.league} · ${team.country}`, starred: false }));
+    return [...starred, ...known].slice(0, 6);
+  }, [value, sport, favouriteTeams]);
+
+  // What the typed name will be analysed as, when it is a known alias
+  const resolved = teamRegistry.resolve(value, sport);
+  const showResolved = resolved && resolved.name !== value.trim();
+
+  const choose = (name: string) => {
+    onChange(name);
+    setOpen(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-slate-400 uppercase tracking-wider">{label}</label>
+      <div className="relative group">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          <Zap className={`h-5 w-5 text-slate-500 transition-colors ${accent === 'emerald' ? 'group-focus-within:text-emerald-400' : 'group-focus-within:text-rose-400'}`} />
+        </div>
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => { onChange(e.target.value); setOpen(true); }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={(e) => { if (e.key === 'Escape') setOpen(false); }}
+          autoComplete="off"
+          className={`block w-full pl-10 pr-3 py-3 bg-slate-900 border border-slate-700 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:border-transparent transition-all ${accent === 'emerald' ? 'focus:ring-emerald-500' : 'focus:ring-rose-500'}`}
+          placeholder={placeholder}
+          required
+          disabled={disabled}
+        />
+        {open && suggestions.length > 0 && (
+          <ul className="absolute z-20 mt-1 w-full bg-slate-900 border border-slate-700 rounded-xl shadow-xl overflow-hidden">
+            {suggestions.map(s => (
+              <li key={s.name}>
+                <button
+                  type="button"
+                  // mousedown fires before the input's blur closes the list
+                  onMouseDown={(e) => { e.preventDefault(); choose(s.name); }}
+                  className="w-full flex items-center justify-between gap-3 px-3 py-2 text-left text-sm hover:bg-slate-800 transition-colors"
+                >
+                  <span className="flex items-center gap-2 text-white">
+                    {s.starred && <Star className="w-3 h-3 text-amber-400 fill-amber-400" />}
+                    {s.name}
+                  </span>
+                  <span className="text-[10px] text-slate-500 truncate">{s.detail}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {showResolved && <p className="text-[11px] text-slate-500">Matched to <span className="text-slate-300">{resolved.name}</span></p>}
+    </div>
+  );
+};
+
+export const TeamInput: React.FC<TeamInputProps> = ({ onAnalyze, onSportChange, currentSport, favourites, disabled }) => {
   const [home, setHome] = useState('');
   const [away, setAway] = useState('');
   const [league, setLeague] = useState('');
 
+  // Starred teams and leagues for this sport, offered first when autocompleting
+  const favouriteTeams = useMemo(() => favourites.teams.filter(f => f.sport === currentSport).map(f => f.name), [favourites, currentSport]);
+  const favouriteLeagues = useMemo(() => favourites.leagues.filter(f => f.sport === currentSport).map(f => f.name), [favourites, currentSport]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (home && away) {
-      onAnalyze(home, away, league);
+      // Known aliases are analysed under their canonical names so caches and the ledger line up
+      const homeTeam = teamRegistry.resolve(home, currentSport);
+      const awayTeam = teamRegistry.resolve(away, currentSport);
+      const sharedLeague = homeTeam && homeTeam.league === awayTeam?.league ? homeTeam.league : '';
+      onAnalyze(homeTeam?.name || home.trim(), awayTeam?.name || away.trim(), league || sharedLeague);
     }
   };
 
-  const sports: { id: SportType; label: string; icon: React.ReactNode }[] = [
-    { id: 'SOCCER', label: 'Soccer', icon: <Activity className="w-4 h-4" /> },
-    { id: 'BASKETBALL', label: 'Basketball', icon: <Dribbble className="w-4 h-4" /> },
-    { id: 'HOCKEY', label: 'Hockey', icon: <Snowflake className="w-4 h-4" /> },
-    { id: 'HANDBALL', label: 'Handball', icon: <Hand className="w-4 h-4" /> },
-  ];
+  const { input } = getSport(currentSport);
 
   return (
     <div className="w-full max-w-4xl mx-auto bg-slate-800/50 backdrop-blur-lg border border-slate-700 rounded-2xl p-6 shadow-xl space-y-6">
       
       {/* Sport Selector */}
       <div className="flex flex-wrap gap-2 justify-center">
-        {sports.map((sport) => (
+        {SPORT_IDS.map(id => SPORTS[id]).map(({ id, label, icon: Icon }) => (
           <button
-            key={sport.id}
-            onClick={() => onSportChange(sport.id)}
+            key={id}
+            onClick={() => onSportChange(id)}
             disabled={disabled}
             className={`flex items-center space-x-2 px-4 py-2 rounded-full text-sm font-bold transition-all ${
-              currentSport === sport.id
+              currentSport === id
                 ? 'bg-emerald-500 text-white shadow-lg shadow-emerald-500/20'
                 : 'bg-slate-900 text-slate-400 hover:bg-slate-700 hover:text-white'
             }`}
           >
-            {sport.icon}
-            <span>{sport.label}</span>
+            <Icon className="w-4 h-4" />
+            <span>{label}</span>
           </button>
         ))}
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-6">
+        <datalist id="favourite-leagues">
+          {favouriteLeagues.map(name => <option key={name} value={name} />)}
+        </datalist>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 relative">
           
           {/* VS Badge */}
@@ -59,48 +151,13 @@ export const TeamInput: React.FC<TeamInputProps> = ({ onAnalyze, onSportChange,
             VS
           </div>
 
-          {/* Home Team */}
-          <div className="space-y-2">
-            <label className="block text-sm font-medium text-slate-400 uppercase tracking-wider">Home Team</label>
-            <div className="relative group">
-              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                <Zap className="h-5 w-5 text-slate-500 group-focus-within:text-emerald-400 transition-colors" />
-              </div>
-              <input
-                type="text"
-                value={home}
-                onChange={(e) => setHome(e.target.value)}
-                className="block w-full pl-10 pr-3 py-3 bg-slate-900 border border-slate-700 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-transparent transition-all"
-                placeholder={currentSport === 'SOCCER' ? "e.g. Man City, Real Madrid..." : currentSport === 'BASKETBALL' ? "e.g. Lakers, Real Madrid Baloncesto..." : "e.g. NY Rangers, PSG Handball..."}
-                required
-                disabled={disabled}
-              />
-            </div>
-          </div>
-
-          {/* Away Team */}
-          <div className="space-y-2">
-            <label className="block text-sm font-medium text-slate-400 uppercase tracking-wider">Away Team</label>
-            <div className="relative group">
-              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                <Zap className="h-5 w-5 text-slate-500 group-focus-within:text-rose-400 transition-colors" />
-              </div>
-              <input
-                type="text"
-                value={away}
-                onChange={(e) => setAway(e.target.value)}
-                className="block w-full pl-10 pr-3 py-3 bg-slate-900 border border-slate-700 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-rose-500 focus:border-transparent transition-all"
-                placeholder={currentSport === 'SOCCER' ? "e.g. Liverpool, Chelsea..." : "Away Team Name..."}
-                required
-                disabled={disabled}
-              />
-            </div>
-          </div>
+          <TeamField label={input.home.label} placeholder={input.home.placeholder} value={home} onChange={setHome} sport={currentSport} favouriteTeams={favouriteTeams} accent="emerald" disabled={disabled} />
+          <TeamField label={input.away.label} placeholder={input.away.placeholder} value={away} onChange={setAway} sport={currentSport} favouriteTeams={favouriteTeams} accent="rose" disabled={disabled} />
         </div>
 
         {/* League (Optional) */}
         <div className="space-y-2">
-          <label className="block text-sm font-medium text-slate-400 uppercase tracking-wider">League (Optional)</label>
+          <label className="block text-sm font-medium text-slate-400 uppercase tracking-wider">{input.competition.label}</label>
           <div className="relative group">
             <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
               <Trophy className="h-5 w-5 text-slate-500 group-focus-within:text-amber-400 transition-colors" />
@@ -109,8 +166,9 @@ export const TeamInput: React.FC<TeamInputProps> = ({ onAnalyze, onSportChange,
               type="text"
               value={league}
               onChange={(e) => setLeague(e.target.value)}
+              list="favourite-leagues"
               className="block w-full pl-10 pr-3 py-3 bg-slate-900 border border-slate-700 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
-              placeholder={currentSport === 'BASKETBALL' ? "e.g. NBA, EuroLeague" : currentSport === 'HOCKEY' ? "e.g. NHL, KHL" : "e.g. Premier League"}
+              placeholder={input.competition.placeholder}
               disabled={disabled}
             />
           </div>
@@ -0,0 +1,31 @@
+import React, { useEffect, useState } from 'react';
+import { updateService } from '../services/updateService';
+import { RefreshCw, X } from 'lucide-react';
+
+export const UpdatePrompt: React.FC = () => {
+  const [available, setAvailable] = useState(() => updateService.isUpdateAvailable());
+  const [dismissed, setDismissed] = useState(false);
+
+  useEffect(() => updateService.subscribe((isAvailable) => {
+    setAvailable(isAvailable);
+    setDismissed(false);
+  }), []);
+
+  if (!available || dismissed) return null;
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 bg-slate-800 border border-emerald-500/40 rounded-xl shadow-2xl px-4 py-3 text-sm">
+      <RefreshCw className="w-4 h-4 text-emerald-400 shrink-0" />
+      <span className="text-slate-300">A new version of MatchOracle is available.</span>
+      <button
+        onClick={() => updateService.applyUpdate()}
+        className="bg-emerald-600 hover:bg-emerald-500 text-white font-bold px-3 py-1 rounded transition-colors"
+      >
+        Reload
+      </button>
+      <button onClick={() => setDismissed(true)} className="text-slate-500 hover:text-slate-300 transition-colors" title="Later">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LogOut, Settings, ChevronDown } from 'lucide-react';
+import { User } from '../types';
+import { AccountSettings } from './AccountSettings';
+
+interface UserMenuProps {
+  user: User;
+  onLogout: () => void;
+}
+
+const initialsOf = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('') || '?';
+
+export const UserMenu: React.FC<UserMenuProps> = ({ user, onLogout }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 bg-slate-900/60 hover:bg-slate-900 border border-slate-700 rounded-full pl-1 pr-3 py-1 transition-colors"
+      >
+        <span className="w-8 h-8 rounded-full bg-gradient-to-br from-emerald-500 to-teal-600 text-white text-xs font-black flex items-center justify-center">
+          {initialsOf(user.name)}
+        </span>
+        <span className="text-sm font-semibold text-slate-200 max-w-[120px] truncate hidden sm:block">{user.name}</span>
+        <ChevronDown className="w-4 h-4 text-slate-500" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-56 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl overflow-hidden z-50 animate-in fade-in slide-in-from-top-1">
+          <div className="px-4 py-3 border-b border-slate-800">
+            <div className="text-sm font-bold text-white truncate">{user.name}</div>
+            <div className="text-xs text-slate-500 truncate">{user.email}</div>
+          </div>
+          <button
+            onClick={() => { setShowSettings(true); setIsOpen(false); }}
+            className="w-full flex items-center gap-2 px-4 py-2.5 text-sm text-slate-300 hover:bg-slate-800 transition-colors"
+          >
+            <Settings className="w-4 h-4" /> Account Settings
+          </button>
+          <button
+            onClick={onLogout}
+            className="w-full flex items-center gap-2 px-4 py-2.5 text-sm text-rose-400 hover:bg-slate-800 transition-colors"
+          >
+            <LogOut className="w-4 h-4" /> Log Out
+          </button>
+        </div>
+      )}
+
+      {showSettings && (
+        <AccountSettings user={user} onClose={() => setShowSettings(false)} onAccountDeleted={onLogout} />
+      )}
+    </div>
+  );
+};
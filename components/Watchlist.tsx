@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { WatchedFixture } from '../types';
+import { notificationService } from '../services/notificationService';
+import { timeService } from '../services/timeService';
+import { Bell, BellOff, Trash2, Play } from 'lucide-react';
+
+interface WatchlistProps {
+  items: WatchedFixture[];
+  reminderMinutes: number;
+  timeZone: string;
+  onReminderMinutesChange: (minutes: number) => void;
+  onRemove: (id: string) => void;
+  onAnalyze: (item: WatchedFixture) => void;
+}
+
+const REMINDER_OPTIONS = [5, 15, 30, 60, 120];
+
+const StatusBadge: React.FC<{ item: WatchedFixture; timeZone: string }> = ({ item, timeZone }) => {
+  if (item.lastStatus === 'LIVE') {
+    return (
+      <span className="text-[10px] font-bold uppercase px-1.5 py-0.5 rounded border text-rose-400 border-rose-500/30 bg-rose-500/10 animate-pulse">
+        Live {item.fixture.score}
+      </span>
+    );
+  }
+  if (item.lastStatus === 'FINISHED') {
+    return (
+      <span className="text-[10px] font-bold uppercase px-1.5 py-0.5 rounded border border-slate-700 text-slate-400">
+        FT {item.fixture.score}
+      </span>
+    );
+  }
+  return <span className="font-mono text-slate-400">{item.kickoffAt !== undefined ? timeService.formatTime(item.kickoffAt, timeZone) : item.fixture.time}</span>;
+};
+
+export const Watchlist: React.FC<WatchlistProps> = ({ items, reminderMinutes, timeZone, onReminderMinutesChange, onRemove, onAnalyze }) => {
+  const [permission, setPermission] = useState<NotificationPermission>(() => notificationService.permission());
+
+  if (items.length === 0) return null;
+
+  const sorted = [...items].sort((a, b) => (a.kickoffAt ?? Infinity) - (b.kickoffAt ?? Infinity));
+
+  const enableNotifications = async () => {
+    setPermission(await notificationService.requestPermission());
+  };
+
+  return (
+    <div className="bg-slate-800/40 border border-slate-700/50 rounded-xl overflow-hidden mb-10">
+      <div className="px-5 py-3 border-b border-slate-700/50 bg-slate-800/60 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center space-x-2 text-sky-400">
+          <Bell className="w-5 h-5" />
+          <h3 className="font-semibold tracking-wide">Watchlist</h3>
+          <span className="text-[10px] font-mono text-slate-500">{items.length} fixtures</span>
+        </div>
+        <div className="flex items-center gap-3 text-xs">
+          <label className="flex items-center gap-2 text-slate-400">
+            Remind me
+            <select
+              value={reminderMinutes}
+              onChange={(e) => onReminderMinutesChange(Number(e.target.value))}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:outline-none focus:border-sky-500"
+            >
+              {REMINDER_OPTIONS.map(m => <option key={m} value={m}>{m} min</option>)}
+            </select>
+            before kickoff
+          </label>
+          {permission === 'default' && (
+            <button onClick={enableNotifications} className="bg-sky-600 hover:bg-sky-500 text-white font-bold px-3 py-1 rounded transition-colors">
+              Enable Notifications
+            </button>
+          )}
+          {permission === 'denied' && (
+            <span className="flex items-center gap-1 text-amber-400" title="Allow notifications for this site in your browser settings">
+              <BellOff className="w-3 h-3" /> Notifications blocked
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="p-4 space-y-2">
+        {sorted.map(item => (
+          <div key={item.id} className="flex flex-wrap items-center gap-2 bg-slate-900/40 rounded-lg px-3 py-2 border border-slate-800 text-xs">
+            <span className="font-mono text-slate-500">{item.date}</span>
+            <span className="text-[10px] font-bold uppercase text-slate-500">{item.sport}</span>
+            <span className="font-semibold text-slate-200 flex-1 truncate">{item.fixture.home} vs {item.fixture.away}</span>
+            <span className="text-slate-500 truncate max-w-[140px]">{item.fixture.league}</span>
+            <StatusBadge item={item} timeZone={timeZone} />
+            <button onClick={() => onAnalyze(item)} className="text-slate-500 hover:text-emerald-400 transition-colors" title="Analyze">
+              <Play className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => onRemove(item.id)} className="text-slate-600 hover:text-rose-400 transition-colors" title="Stop watching">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
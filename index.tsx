@@ -1,6 +1,21 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { updateService } from './services/updateService';
+
+type RunBacktestFromConsole = typeof import('./services/backtestService').runBacktestFromConsole;
+
+declare global {
+  interface Window {
+    runOracleBacktest: (...args: Parameters<RunBacktestFromConsole>) => ReturnType<RunBacktestFromConsole>;
+  }
+}
+
+// Console entry point for the backtesting harness (see README)
+window.runOracleBacktest = (...args) =>
+  import('./services/backtestService').then(m => m.runBacktestFromConsole(...args));
+
+updateService.register();
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -1,49 +1,135 @@
-const CACHE_NAME = 'matchoracle-v1';
-const urlsToCache = [
-  './',
-  './index.html',
-  './index.tsx',
-  'https://cdn.tailwindcss.com',
-  'https://fonts.googleapis.com/css2?family=Inter:wght@300;400;600;700&display=swap'
+// Build info is prepended by the Vite service worker plugin (see vite.config.ts):
+// a per-build id and the hashed files from the build manifest. Under the dev
+// server it is absent and only the runtime strategies apply.
+const BUILD = self.__SW_BUILD__ || { id: 'dev', precache: [] };
+
+const CACHE_PREFIX = 'matchoracle-';
+const PRECACHE = CACHE_PREFIX + 'precache-' + BUILD.id;
+const RUNTIME = CACHE_PREFIX + 'runtime'; // Third-party assets, shared between builds
+
+// Fonts and CDN scripts: serve the cached copy, refresh it in the background
+const STALE_WHILE_REVALIDATE_HOSTS = [
+  'cdn.tailwindcss.com',
+  'fonts.googleapis.com',
+  'fonts.gstatic.com',
+  'aistudiocdn.com',
+  'cdn-icons-png.flaticon.com'
 ];
 
-// Install SW
+// Vite output under /assets carries a content hash, so a cached copy never goes stale
+const HASHED_ASSET = /\/assets\/.+-[A-Za-z0-9_-]{8}\.[a-z0-9]+$/;
+
+// Install: precache this build. The new worker then waits until the page accepts the update.
 self.addEventListener('install', (event) => {
   event.waitUntil(
-    caches.open(CACHE_NAME)
-      .then((cache) => {
-        console.log('Opened cache');
-        return cache.addAll(urlsToCache);
-      })
-  );
-});
-
-// Listen for requests
-self.addEventListener('fetch', (event) => {
-  event.respondWith(
-    caches.match(event.request)
-      .then((response) => {
-        // Cache hit - return response
-        if (response) {
-          return response;
-        }
-        return fetch(event.request);
-      })
+    caches.open(PRECACHE).then((cache) => cache.addAll(BUILD.precache))
   );
 });
 
-// Activate the SW
+// Activate: drop caches from previous builds (and the old fixed-name cache)
 self.addEventListener('activate', (event) => {
-  const cacheWhitelist = [CACHE_NAME];
   event.waitUntil(
     caches.keys().then((cacheNames) => {
       return Promise.all(
-        cacheNames.map((cacheName) => {
-          if (cacheWhitelist.indexOf(cacheName) === -1) {
-            return caches.delete(cacheName);
-          }
-        })
+        cacheNames
+          .filter((cacheName) => cacheName.startsWith(CACHE_PREFIX) && cacheName !== PRECACHE && cacheName !== RUNTIME)
+          .map((cacheName) => caches.delete(cacheName))
       );
+    }).then(() => self.clients.claim())
+  );
+});
+
+// The in-app "new version available" prompt sends this when the user chooses to reload
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(PRECACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const staleWhileRevalidate = async (event) => {
+  const cache = await caches.open(RUNTIME);
+  const cached = await cache.match(event.request);
+  const refresh = fetch(event.request).then((response) => {
+    // Cross-origin no-cors responses are opaque (status 0) but still usable
+    if (response.ok || response.type === 'opaque') cache.put(event.request, response.clone());
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => {}));
+    return cached;
+  }
+  return refresh;
+};
+
+// Pages: always try for the latest HTML, fall back to this build's shell when offline
+const networkFirstNavigation = async (request) => {
+  try {
+    return await fetch(request);
+  } catch (e) {
+    const shell = await caches.match('./index.html', { cacheName: PRECACHE });
+    if (shell) return shell;
+    throw e;
+  }
+};
+
+// Routing. Anything not matched here (API calls, non-GET requests, dev server
+// modules) is left to the network.
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstNavigation(request));
+  } else if (url.origin === self.location.origin && HASHED_ASSET.test(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  } else if (STALE_WHILE_REVALIDATE_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
+
+// Notification taps: focus the app, and hand kickoff reminders over to it for analysis
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const request = event.notification.data && event.notification.data.analyze;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clientList) => {
+      const client = clientList[0];
+      if (client) {
+        if (request) client.postMessage({ type: 'ANALYZE_FIXTURE', request });
+        return client.focus();
+      }
+      // No open window: the app picks the request up from the URL on load
+      const url = request ? './?analyze=' + encodeURIComponent(JSON.stringify(request)) : './';
+      return self.clients.openWindow(url);
     })
   );
-});
\ No newline at end of file
+});
+
+// Background Sync: back online, so let an open window run the analyses queued while offline.
+// The queue lives in the page's storage, so with no window open we can only prompt the user.
+self.addEventListener('sync', (event) => {
+  if (event.tag !== 'analysis-queue') return;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clientList) => {
+      if (clientList.length > 0) {
+        clientList.forEach((client) => client.postMessage({ type: 'DRAIN_ANALYSIS_QUEUE' }));
+        return;
+      }
+      return self.registration.showNotification('Back online', {
+        body: 'Open MatchOracle to run the analyses you queued while offline.',
+        tag: 'analysis-queue'
+      }).catch(() => {});
+    })
+  );
+});
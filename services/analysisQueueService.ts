@@ -0,0 +1,74 @@
+import { QueuedAnalysis, SportType } from "../types";
+import { userKey } from "./userScope";
+import { teamRegistry } from "./teamRegistry";
+
+// Analyses requested while offline, replayed when connectivity returns
+const QUEUE_KEY = 'matchoracle_analysis_queue';
+export const ANALYSIS_SYNC_TAG = 'analysis-queue';
+export const DRAIN_QUEUE_MESSAGE = 'DRAIN_ANALYSIS_QUEUE';
+
+const queueIdOf = (home: string, away: string, sport: SportType, date: string) =>
+  `${sport}|${date}|${teamRegistry.keyOf(home, sport)}|${teamRegistry.keyOf(away, sport)}`;
+
+// Ids are re-derived on load so requests queued under an older id format still dedupe and remove
+const loadQueue = (): QueuedAnalysis[] => {
+  try {
+    const item = localStorage.getItem(userKey(QUEUE_KEY));
+    const queue: QueuedAnalysis[] = item ? JSON.parse(item) : [];
+    if (!Array.isArray(queue)) return [];
+    return queue
+      .map(q => ({ ...q, id: queueIdOf(q.home, q.away, q.sport, q.date) }))
+      .filter((q, idx, all) => all.findIndex(other => other.id === q.id) === idx);
+  } catch (e) {
+    localStorage.removeItem(userKey(QUEUE_KEY));
+    return [];
+  }
+};
+
+const saveQueue = (queue: QueuedAnalysis[]): QueuedAnalysis[] => {
+  try {
+    localStorage.setItem(userKey(QUEUE_KEY), JSON.stringify(queue));
+  } catch (e) {
+    console.warn("Analysis queue storage full");
+  }
+  return queue;
+};
+
+// Background Sync is not in the DOM lib yet; only the part used here
+interface SyncManager {
+  register(tag: string): Promise<void>;
+}
+
+// Asks the service worker to wake the app once the browser is back online (Chromium only);
+// elsewhere the window "online" event covers it while the app is open
+const requestBackgroundSync = async () => {
+  try {
+    const registration: (ServiceWorkerRegistration & { sync?: SyncManager }) | undefined =
+      'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    await registration?.sync?.register(ANALYSIS_SYNC_TAG);
+  } catch (e) {
+    console.warn("Background sync unavailable", e);
+  }
+};
+
+export const analysisQueueService = {
+  getItems: (): QueuedAnalysis[] => loadQueue(),
+
+  // The same fixture is only queued once
+  enqueue: (home: string, away: string, league: string, sport: SportType, date: string): QueuedAnalysis[] => {
+    const queue = loadQueue();
+    const id = queueIdOf(home, away, sport, date);
+    if (queue.some(q => q.id === id)) return queue;
+    requestBackgroundSync();
+    return saveQueue([...queue, { id, home, away, league, sport, date, queuedAt: Date.now() }]);
+  },
+
+  remove: (id: string): QueuedAnalysis[] => saveQueue(loadQueue().filter(q => q.id !== id)),
+
+  // Failed requests stay queued but are skipped by later drains until retried
+  markFailed: (id: string, failure: string): QueuedAnalysis[] =>
+    saveQueue(loadQueue().map(q => q.id === id ? { ...q, failure } : q)),
+
+  retry: (id: string): QueuedAnalysis[] =>
+    saveQueue(loadQueue().map(q => q.id === id ? { ...q, failure: undefined } : q)),
+};
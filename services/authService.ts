@@ -1,10 +1,39 @@
 
 import { User } from "../types";
+import { clearUserData, setActiveUser } from "./userScope";
+import { storageService } from "./storageService";
 
-// Mock database key in localStorage
-const DB_KEY = 'matchoracle_users';
+// Mock user database in the IndexedDB "auth" namespace; the session stays in
+// localStorage so it can be read synchronously on startup
+const USERS_KEY = 'users';
+const LEGACY_DB_KEY = 'matchoracle_users'; // Pre-IndexedDB localStorage copy; still written where IndexedDB is unavailable
 const SESSION_KEY = 'matchoracle_session';
 
+// Credential hashing (PBKDF2-SHA256 via WebCrypto)
+const HASH_ITERATIONS = 210000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+const MIN_PASSWORD_LENGTH = 8;
+
+// Sessions expire this long after sign-in
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+// Lockout after repeated failures
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+interface StoredUser {
+  id: string;
+  name: string;
+  email: string;
+  passwordHash?: string; // Base64
+  salt?: string; // Base64
+  iterations?: number;
+  password?: string; // Legacy plaintext, replaced by a hash on next login
+  failedAttempts?: number;
+  lockedUntil?: number;
+}
+
 // Helper to safely parse JSON from localStorage
 const safeJsonParse = (key: string, fallback: any) => {
   try {
@@ -18,6 +47,132 @@ const safeJsonParse = (key: string, fallback: any) => {
   }
 };
 
+const saveUsers = async (users: StoredUser[]) => {
+  if (!(await storageService.set('auth', USERS_KEY, users))) {
+    throw new Error("Failed to save user data. Storage might be full.");
+  }
+  // Without IndexedDB the write above only lives in memory, so the localStorage copy stays current
+  if (!(await storageService.isDurable())) {
+    try {
+      localStorage.setItem(LEGACY_DB_KEY, JSON.stringify(users));
+    } catch (e) {
+      throw new Error("Failed to save user data. Storage might be full.");
+    }
+  }
+};
+
+const loadUsers = async (): Promise<StoredUser[]> => {
+  const users = await storageService.get<StoredUser[]>('auth', USERS_KEY);
+  if (users) {
+    // Safety check: Ensure users is actually an array
+    return Array.isArray(users) ? users : [];
+  }
+  // Accounts created before the move to IndexedDB are carried over once; the localStorage
+  // copy is only dropped after they have landed in durable storage
+  const legacy = safeJsonParse(LEGACY_DB_KEY, []);
+  if (!Array.isArray(legacy) || legacy.length === 0) return [];
+  await saveUsers(legacy);
+  if (await storageService.isDurable()) localStorage.removeItem(LEGACY_DB_KEY);
+  return legacy;
+};
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const toSessionUser = (user: StoredUser): User => ({ id: user.id, name: user.name, email: user.email });
+
+// Persists the session and points per-user storage at this account
+const startSession = (user: User): User => {
+  localStorage.setItem(SESSION_KEY, JSON.stringify({ ...user, expiresAt: Date.now() + SESSION_TTL_MS }));
+  setActiveUser(user.id);
+  return user;
+};
+
+const endSession = () => {
+  localStorage.removeItem(SESSION_KEY);
+  setActiveUser(null);
+};
+
+// --- HASHING ---
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const derive = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+  return new Uint8Array(bits);
+};
+
+const hashPassword = async (password: string) => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, HASH_ITERATIONS);
+  return { passwordHash: toBase64(hash), salt: toBase64(salt), iterations: HASH_ITERATIONS };
+};
+
+// Compares every byte regardless of where the first mismatch is
+const constantTimeEqual = (a: Uint8Array, b: Uint8Array) => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return diff === 0;
+};
+
+const verifyPassword = async (user: StoredUser, password: string): Promise<boolean> => {
+  if (user.passwordHash && user.salt) {
+    const hash = await derive(password, fromBase64(user.salt), user.iterations || HASH_ITERATIONS);
+    return constantTimeEqual(hash, fromBase64(user.passwordHash));
+  }
+  if (user.password !== undefined) {
+    const encoder = new TextEncoder();
+    return constantTimeEqual(encoder.encode(password), encoder.encode(user.password));
+  }
+  return false;
+};
+
+const validateNewPassword = (password: string) => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+  }
+};
+
+const lockoutMessage = (lockedUntil: number) =>
+  `Too many failed attempts. Try again in ${Math.ceil((lockedUntil - Date.now()) / 60000)} minutes.`;
+
+// Verifies a password against the stored record, applying lockout and migrating
+// legacy plaintext records. Returns the updated user list and record on success.
+const authenticate = async (match: (u: StoredUser) => boolean, password: string): Promise<{ users: StoredUser[]; user: StoredUser }> => {
+  const users = await loadUsers();
+  const index = users.findIndex(match);
+
+  if (index === -1) {
+    // Burn the same hashing time so unknown emails are not distinguishable by latency
+    await derive(password, new Uint8Array(SALT_BYTES), HASH_ITERATIONS);
+    throw new Error("Invalid email or password.");
+  }
+
+  const user = users[index];
+  if (user.lockedUntil && user.lockedUntil > Date.now()) {
+    throw new Error(lockoutMessage(user.lockedUntil));
+  }
+
+  if (!(await verifyPassword(user, password))) {
+    const failedAttempts = (user.failedAttempts || 0) + 1;
+    const locked = failedAttempts >= MAX_FAILED_ATTEMPTS;
+    users[index] = {
+      ...user,
+      failedAttempts: locked ? 0 : failedAttempts,
+      lockedUntil: locked ? Date.now() + LOCKOUT_MS : undefined,
+    };
+    await saveUsers(users);
+    throw new Error(locked ? lockoutMessage(users[index].lockedUntil!) : "Invalid email or password.");
+  }
+
+  const { password: legacy, failedAttempts, lockedUntil, ...rest } = user;
+  users[index] = legacy !== undefined ? { ...rest, ...(await hashPassword(password)) } : rest;
+  if (legacy !== undefined || failedAttempts || lockedUntil) await saveUsers(users);
+  return { users, user: users[index] };
+};
+
 export const authService = {
   // Register a new user
   signup: async (name: string, email: string, password: string): Promise<User> => {
@@ -28,76 +183,66 @@ export const authService = {
     if (!name.trim() || !email.trim() || !password.trim()) {
         throw new Error("All fields are required.");
     }
+    validateNewPassword(password);
 
-    let users = safeJsonParse(DB_KEY, []);
-    
-    // Safety check: Ensure users is actually an array
-    if (!Array.isArray(users)) {
-        users = [];
-    }
-    
-    if (users.find((u: any) => u.email === email)) {
+    const users = await loadUsers();
+    if (users.find(u => normalizeEmail(u.email) === normalizeEmail(email))) {
       throw new Error("User already exists with this email.");
     }
 
-    const newUser = {
+    const newUser: StoredUser = {
       id: Date.now().toString(),
       name: name.trim(),
       email: email.trim(),
-      password: password.trim(), // In a real app, never store plain text passwords!
+      ...(await hashPassword(password)),
     };
 
-    users.push(newUser);
-    try {
-        localStorage.setItem(DB_KEY, JSON.stringify(users));
-    } catch (e) {
-        throw new Error("Failed to save user data. Storage might be full.");
-    }
-    
+    await saveUsers([...users, newUser]);
+
     // Auto login
-    const sessionUser = { id: newUser.id, name: newUser.name, email: newUser.email };
-    localStorage.setItem(SESSION_KEY, JSON.stringify(sessionUser));
-    
-    return sessionUser;
+    return startSession(toSessionUser(newUser));
   },
 
   // Login existing user
   login: async (email: string, password: string): Promise<User> => {
     await new Promise(resolve => setTimeout(resolve, 600));
 
-    let users = safeJsonParse(DB_KEY, []);
-    
-    // Safety check
-    if (!Array.isArray(users)) {
-        users = [];
-    }
-
-    const user = users.find((u: any) => u.email === email && u.password === password);
+    const { user } = await authenticate(u => normalizeEmail(u.email) === normalizeEmail(email), password);
 
-    if (!user) {
-      throw new Error("Invalid email or password.");
-    }
+    return startSession(toSessionUser(user));
+  },
 
-    const sessionUser = { id: user.id, name: user.name, email: user.email };
-    localStorage.setItem(SESSION_KEY, JSON.stringify(sessionUser));
+  // Requires the current password; subject to the same lockout as login
+  changePassword: async (userId: string, currentPassword: string, newPassword: string): Promise<void> => {
+    validateNewPassword(newPassword);
+    const { users, user } = await authenticate(u => u.id === userId, currentPassword);
+    const credentials = await hashPassword(newPassword);
+    await saveUsers(users.map(u => u.id === user.id ? { ...u, ...credentials } : u));
+  },
 
-    return sessionUser;
+  // Removes the account, its stored data, and ends the session
+  deleteAccount: async (userId: string, password: string): Promise<void> => {
+    const { users } = await authenticate(u => u.id === userId, password);
+    await saveUsers(users.filter(u => u.id !== userId));
+    await clearUserData(userId);
+    endSession();
   },
 
   // Check if user is already logged in
   getCurrentUser: (): User | null => {
-    const user = safeJsonParse(SESSION_KEY, null);
-    // Basic structure validation
-    if (user && user.id && user.name && user.email) {
-        return user;
+    const session = safeJsonParse(SESSION_KEY, null);
+    // Basic structure validation; sessions without an expiry predate it and must sign in again
+    if (session && session.id && session.name && session.email && session.expiresAt > Date.now()) {
+        setActiveUser(session.id);
+        return { id: session.id, name: session.name, email: session.email };
     }
-    // Invalid session data
-    if (user) localStorage.removeItem(SESSION_KEY);
+    // Invalid or expired session data
+    if (session) endSession();
     return null;
   },
 
   // Logout
   logout: () => {
-    localStorage.removeItem(SESSION_KEY);
+    endSession();
   }
 };
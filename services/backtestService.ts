@@ -0,0 +1,194 @@
+/// <reference types="vite/client" />
+import { MatchAnalysis, SportType } from "../types";
+import { ProviderId, resolveProvider } from "./providers";
+import { parseScore } from "./ledgerService";
+import { calculateEdge, removeMargin, MarketOdds } from "./oddsService";
+import { requestScheduler } from "./requestScheduler";
+import { getSport } from "./sportRegistry";
+
+// Replays past fixtures through a prediction provider and scores the probabilities
+// against the final results and closing prices. Datasets live in /backtests/*.json.
+const VALUE_EDGE = 5; // Points over the fair price, same threshold as the VALUE badge
+const LIVE_SPACING_MS = 1500; // Keep live runs under the per-minute quota
+const MIN_PROBABILITY = 1e-6; // Log loss clamp
+
+type Outcome = 'home' | 'draw' | 'away';
+
+export interface BacktestFixture {
+  home: string;
+  away: string;
+  league: string;
+  sport: SportType;
+  date: string; // YYYY-MM-DD
+  finalScore: string; // e.g. "2-1"
+  closingOdds?: MarketOdds;
+}
+
+export interface BacktestResult {
+  fixture: BacktestFixture;
+  probabilities?: { home: number; draw: number; away: number }; // Normalised, 0-1
+  actual?: Outcome;
+  hit?: boolean;
+  brier?: number;
+  logLoss?: number;
+  bet?: { outcome: Outcome; odds: number; edge: number; profit: number }; // 1 unit flat
+  error?: string;
+}
+
+export interface BacktestMetrics {
+  fixtures: number;
+  scored: number;
+  accuracy: number | null; // Percent
+  brier: number | null; // Multi-class, 0 (perfect) to 2
+  logLoss: number | null;
+  bets: number;
+  profit: number; // Units
+  roi: number | null; // Percent of units staked
+}
+
+export interface BacktestReport {
+  provider: ProviderId;
+  startedAt: number;
+  finishedAt: number;
+  overall: BacktestMetrics;
+  byLeague: Record<string, BacktestMetrics>;
+  bySport: Record<string, BacktestMetrics>;
+  results: BacktestResult[];
+}
+
+export interface BacktestOptions {
+  provider?: ProviderId;
+  onProgress?: (done: number, total: number) => void;
+}
+
+const bundled = import.meta.glob<BacktestFixture[]>('../backtests/*.json', { eager: true, import: 'default' });
+
+export const BACKTEST_DATASETS: Record<string, BacktestFixture[]> = Object.fromEntries(
+  Object.entries(bundled).map(([path, fixtures]) => [path.split('/').pop()!.replace(/\.json$/, ''), fixtures])
+);
+
+const round = (n: number, places: number) => Math.round(n * 10 ** places) / 10 ** places;
+
+// Sports without draws are scored two-way; any draw the model stated is discarded
+const normalise = (wp: { home: number; draw: number; away: number }, hasDraw: boolean) => {
+  const draw = hasDraw ? wp.draw : 0;
+  const total = wp.home + draw + wp.away;
+  if (!(total > 0)) return null;
+  return { home: wp.home / total, draw: draw / total, away: wp.away / total };
+};
+
+// --- SCORING ---
+export const scoreFixture = (fixture: BacktestFixture, analysis: MatchAnalysis): BacktestResult => {
+  const score = parseScore(fixture.finalScore);
+  if (!score) return { fixture, error: `Unreadable final score "${fixture.finalScore}"` };
+  const { hasDraw } = getSport(fixture.sport);
+  if (!hasDraw && score[0] === score[1]) return { fixture, error: `Tied final score "${fixture.finalScore}" in a sport without draws` };
+  const probabilities = analysis.stats ? normalise(analysis.stats.winProbability, hasDraw) : null;
+  if (!probabilities) return { fixture, error: 'Analysis returned no win probabilities' };
+
+  const actual: Outcome = score[0] > score[1] ? 'home' : score[0] < score[1] ? 'away' : 'draw';
+  const outcomes: Outcome[] = hasDraw ? ['home', 'draw', 'away'] : ['home', 'away'];
+  const predicted = outcomes.reduce((best, o) => probabilities[o] > probabilities[best] ? o : best, 'home' as Outcome);
+  const brier = outcomes.reduce((acc, o) => acc + (probabilities[o] - (o === actual ? 1 : 0)) ** 2, 0);
+  const logLoss = -Math.log(Math.max(probabilities[actual], MIN_PROBABILITY));
+
+  // Flat one-unit stake on the biggest edge over the margin-free closing price
+  let bet: BacktestResult['bet'];
+  const market = fixture.closingOdds ? removeMargin(fixture.closingOdds, 'PROPORTIONAL') : null;
+  if (market && fixture.closingOdds) {
+    const prices: Record<Outcome, number> = { home: fixture.closingOdds.homeWin, draw: fixture.closingOdds.draw, away: fixture.closingOdds.awayWin };
+    outcomes.forEach(o => {
+      if (!(prices[o] > 1)) return;
+      const edge = calculateEdge(probabilities[o] * 100, market.fair[o]);
+      if (edge > VALUE_EDGE && (!bet || edge > bet.edge)) {
+        bet = { outcome: o, odds: prices[o], edge, profit: o === actual ? round(prices[o] - 1, 2) : -1 };
+      }
+    });
+  }
+
+  return { fixture, probabilities, actual, hit: predicted === actual, brier, logLoss, bet };
+};
+
+export const summarize = (results: BacktestResult[]): BacktestMetrics => {
+  const scored = results.filter(r => r.probabilities);
+  const bets = scored.filter(r => r.bet);
+  const profit = bets.reduce((acc, r) => acc + r.bet!.profit, 0);
+  const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+  const accuracy = mean(scored.map(r => r.hit ? 100 : 0));
+  const brier = mean(scored.map(r => r.brier!));
+  const logLoss = mean(scored.map(r => r.logLoss!));
+  return {
+    fixtures: results.length,
+    scored: scored.length,
+    accuracy: accuracy === null ? null : round(accuracy, 1),
+    brier: brier === null ? null : round(brier, 4),
+    logLoss: logLoss === null ? null : round(logLoss, 4),
+    bets: bets.length,
+    profit: round(profit, 2),
+    roi: bets.length ? round((profit / bets.length) * 100, 1) : null,
+  };
+};
+
+const groupBy = (results: BacktestResult[], key: (r: BacktestResult) => string) => {
+  const groups: Record<string, BacktestResult[]> = {};
+  results.forEach(r => { (groups[key(r)] ||= []).push(r); });
+  return Object.fromEntries(Object.entries(groups).map(([k, rs]) => [k, summarize(rs)]));
+};
+
+// --- RUNNER ---
+// Calls the provider directly so results bypass the session cache and quota fallbacks
+export const runBacktest = async (fixtures: BacktestFixture[], options: BacktestOptions = {}): Promise<BacktestReport> => {
+  const providerId = options.provider || 'mock';
+  const provider = resolveProvider(providerId);
+  const startedAt = Date.now();
+  const results: BacktestResult[] = [];
+
+  for (const fixture of fixtures) {
+    try {
+      // Low priority so a backtest left running never starves the UI; 429s back off instead of failing the fixture.
+      // The cutoff is the start of the fixture day; providers drop web search for it so the result can't be looked up.
+      const analysis = await requestScheduler.schedule(
+        () => provider.analyzeMatch({
+          homeTeam: fixture.home, awayTeam: fixture.away, league: fixture.league, sport: fixture.sport,
+          date: fixture.date, asOf: `${fixture.date}T00:00:00Z`,
+        }),
+        { priority: 'LOW' }
+      );
+      results.push(scoreFixture(fixture, analysis));
+    } catch (e: unknown) {
+      results.push({ fixture, error: e instanceof Error ? e.message : String(e) });
+    }
+    options.onProgress?.(results.length, fixtures.length);
+    if (providerId !== 'mock' && results.length < fixtures.length) {
+      await new Promise(resolve => setTimeout(resolve, LIVE_SPACING_MS));
+    }
+  }
+
+  return {
+    provider: providerId,
+    startedAt,
+    finishedAt: Date.now(),
+    overall: summarize(results),
+    byLeague: groupBy(results, r => r.fixture.league),
+    bySport: groupBy(results, r => r.fixture.sport),
+    results,
+  };
+};
+
+// Browser console entry point: runOracleBacktest('sample', 'gemini')
+export const runBacktestFromConsole = async (dataset = 'sample', provider: ProviderId = 'mock'): Promise<BacktestReport> => {
+  const fixtures = BACKTEST_DATASETS[dataset];
+  if (!fixtures) throw new Error(`Unknown dataset "${dataset}". Available: ${Object.keys(BACKTEST_DATASETS).join(', ')}`);
+
+  console.info(`Backtesting ${fixtures.length} fixtures from "${dataset}" with the ${provider} provider...`);
+  const report = await runBacktest(fixtures, {
+    provider,
+    onProgress: (done, total) => console.info(`Backtest ${done}/${total}`),
+  });
+  console.table({ overall: report.overall });
+  console.table(report.bySport);
+  console.table(report.byLeague);
+  const failures = report.results.filter(r => r.error);
+  if (failures.length) console.warn(`${failures.length} fixtures failed`, failures.map(r => `${r.fixture.home} vs ${r.fixture.away}: ${r.error}`));
+  return report;
+};
@@ -0,0 +1,135 @@
+import { Bankroll, BankrollBet, StakingPlan } from "../types";
+import { userKey } from "./userScope";
+
+// Bankroll, staking plan and bet record persisted in localStorage
+const BANKROLL_KEY = 'matchoracle_bankroll';
+const MAX_BETS = 500;
+const MAX_STAKE_SHARE = 0.25; // Never suggest more than a quarter of the balance
+
+export const STAKING_PLANS: { id: StakingPlan; label: string }[] = [
+  { id: 'FLAT', label: 'Flat' },
+  { id: 'PERCENTAGE', label: '% of Balance' },
+  { id: 'KELLY', label: 'Fractional Kelly' },
+];
+
+export interface StakeAdvice {
+  stake: number;
+  edge: number; // Expected value per unit staked, e.g. 0.08 = +8%
+  kelly: number; // Full-Kelly share of the balance, 0 when there is no edge
+}
+
+export interface BalancePoint {
+  timestamp: number;
+  balance: number;
+}
+
+const DEFAULT_BANKROLL: Bankroll = {
+  startingBalance: 1000,
+  plan: 'FLAT',
+  flatStake: 10,
+  percentage: 2,
+  kellyFraction: 0.25,
+  bets: [],
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const loadBankroll = (): Bankroll => {
+  try {
+    const item = localStorage.getItem(userKey(BANKROLL_KEY));
+    const bankroll = item ? JSON.parse(item) : {};
+    return { ...DEFAULT_BANKROLL, ...bankroll, bets: Array.isArray(bankroll.bets) ? bankroll.bets : [] };
+  } catch (e) {
+    localStorage.removeItem(userKey(BANKROLL_KEY));
+    return DEFAULT_BANKROLL;
+  }
+};
+
+const saveBankroll = (bankroll: Bankroll): Bankroll => {
+  const next = { ...bankroll, bets: bankroll.bets.slice(-MAX_BETS) };
+  try {
+    localStorage.setItem(userKey(BANKROLL_KEY), JSON.stringify(next));
+  } catch (e) {
+    console.warn("Bankroll storage full");
+  }
+  return next;
+};
+
+export const profitOf = (bet: BankrollBet): number => {
+  if (bet.result === 'WON') return round2(bet.stake * (bet.odds - 1));
+  if (bet.result === 'LOST') return -bet.stake;
+  return 0;
+};
+
+// Settled profit only; open stakes are reported separately as exposure
+export const balanceOf = (bankroll: Bankroll): number =>
+  round2(bankroll.bets.reduce((acc, b) => acc + profitOf(b), bankroll.startingBalance));
+
+export const exposureOf = (bankroll: Bankroll): number =>
+  round2(bankroll.bets.filter(b => !b.result).reduce((acc, b) => acc + b.stake, 0));
+
+export const balanceHistory = (bankroll: Bankroll): BalancePoint[] => {
+  const settled = bankroll.bets
+    .filter(b => b.result && b.settledAt)
+    .sort((a, b) => a.settledAt! - b.settledAt!);
+  const start = bankroll.bets.length ? Math.min(...bankroll.bets.map(b => b.placedAt)) : Date.now();
+  const points: BalancePoint[] = [{ timestamp: start, balance: bankroll.startingBalance }];
+  settled.forEach(bet => {
+    points.push({ timestamp: bet.settledAt!, balance: round2(points.at(-1)!.balance + profitOf(bet)) });
+  });
+  return points;
+};
+
+// Stakes are only suggested when the analysis probability beats the price
+export const recommendStake = (bankroll: Bankroll, probability: number, odds: number): StakeAdvice => {
+  if (!(odds > 1) || !(probability > 0)) return { stake: 0, edge: 0, kelly: 0 };
+  const p = Math.min(probability, 100) / 100;
+  const b = odds - 1;
+  const edge = Math.round((p * odds - 1) * 1000) / 1000;
+  const kelly = Math.max(0, (b * p - (1 - p)) / b);
+  const available = Math.max(0, balanceOf(bankroll) - exposureOf(bankroll));
+  if (edge <= 0 || available === 0) return { stake: 0, edge, kelly: 0 };
+
+  let stake: number;
+  switch (bankroll.plan) {
+    case 'PERCENTAGE':
+      stake = available * bankroll.percentage / 100;
+      break;
+    case 'KELLY':
+      stake = available * kelly * bankroll.kellyFraction;
+      break;
+    default:
+      stake = bankroll.flatStake;
+  }
+  return { stake: round2(Math.min(stake, available * MAX_STAKE_SHARE)), edge, kelly: Math.round(kelly * 1000) / 1000 };
+};
+
+export const bankrollService = {
+  get: (): Bankroll => loadBankroll(),
+
+  updateSettings: (changes: Partial<Omit<Bankroll, 'bets'>>): Bankroll =>
+    saveBankroll({ ...loadBankroll(), ...changes }),
+
+  placeBet: (bet: Omit<BankrollBet, 'id' | 'placedAt' | 'result' | 'settledAt'>): Bankroll => {
+    const bankroll = loadBankroll();
+    const entry: BankrollBet = { ...bet, stake: round2(bet.stake), id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`, placedAt: Date.now() };
+    return saveBankroll({ ...bankroll, bets: [...bankroll.bets, entry] });
+  },
+
+  settleBet: (id: string, result: NonNullable<BankrollBet['result']>): Bankroll => {
+    const bankroll = loadBankroll();
+    const bets = bankroll.bets.map(b => b.id === id ? { ...b, result, settledAt: Date.now() } : b);
+    return saveBankroll({ ...bankroll, bets });
+  },
+
+  removeBet: (id: string): Bankroll => {
+    const bankroll = loadBankroll();
+    return saveBankroll({ ...bankroll, bets: bankroll.bets.filter(b => b.id !== id) });
+  },
+
+  // Starts a fresh bankroll, keeping the staking preferences
+  reset: (startingBalance: number): Bankroll => {
+    const bankroll = loadBankroll();
+    return saveBankroll({ ...bankroll, startingBalance, bets: [] });
+  }
+};
@@ -0,0 +1,130 @@
+import { BetSelection } from "../types";
+import { userKey } from "./userScope";
+import { teamRegistry } from "./teamRegistry";
+
+// Multi-match bet slip persisted in localStorage
+const SLIP_KEY = 'matchoracle_betslip';
+export const MAX_SELECTIONS = 12;
+
+export type SlipBetType = 'SINGLES' | 'DOUBLES' | 'TREBLES' | 'ACCUMULATOR';
+
+export interface SlipCombination {
+  selections: BetSelection[];
+  odds?: number; // Product of decimal prices
+  probability?: number; // Product of model probabilities, percent
+  expectedValue?: number; // Per unit staked, e.g. 0.12 = +12%
+}
+
+export interface SlipBetSummary {
+  type: SlipBetType;
+  combinations: SlipCombination[];
+  stake: number; // Units, one per combination
+  expectedReturn?: number; // Units, when every leg is priced
+  expectedValue?: number; // Per unit staked across the whole bet
+}
+
+const LEGS: Record<SlipBetType, number | 'ALL'> = { SINGLES: 1, DOUBLES: 2, TREBLES: 3, ACCUMULATOR: 'ALL' };
+
+export const fixtureOf = (s: BetSelection) =>
+  `${s.sport}|${s.date}|${teamRegistry.keyOf(s.homeTeam, s.sport)}|${teamRegistry.keyOf(s.awayTeam, s.sport)}`;
+
+const loadSlip = (): BetSelection[] => {
+  try {
+    const item = localStorage.getItem(userKey(SLIP_KEY));
+    const slip = item ? JSON.parse(item) : [];
+    return Array.isArray(slip) ? slip : [];
+  } catch (e) {
+    localStorage.removeItem(userKey(SLIP_KEY));
+    return [];
+  }
+};
+
+const saveSlip = (slip: BetSelection[]) => {
+  try {
+    localStorage.setItem(userKey(SLIP_KEY), JSON.stringify(slip));
+  } catch (e) {
+    console.warn("Bet slip storage full");
+  }
+};
+
+const combinations = <T>(items: T[], size: number): T[][] => {
+  if (size === 0) return [[]];
+  return items.flatMap((item, idx) =>
+    combinations(items.slice(idx + 1), size - 1).map(rest => [item, ...rest])
+  );
+};
+
+// Legs from the same fixture are correlated, so they are never combined
+const isIndependent = (legs: BetSelection[]) =>
+  new Set(legs.map(fixtureOf)).size === legs.length;
+
+const priceCombination = (legs: BetSelection[]): SlipCombination => {
+  const priced = legs.every(l => l.odds && l.odds > 1);
+  const modelled = legs.every(l => l.modelProbability !== undefined);
+  const odds = priced ? legs.reduce((acc, l) => acc * l.odds!, 1) : undefined;
+  const probability = modelled ? legs.reduce((acc, l) => acc * (l.modelProbability! / 100), 1) * 100 : undefined;
+  return {
+    selections: legs,
+    odds: odds !== undefined ? Math.round(odds * 100) / 100 : undefined,
+    probability: probability !== undefined ? Math.round(probability * 100) / 100 : undefined,
+    expectedValue: odds !== undefined && probability !== undefined
+      ? Math.round(((probability / 100) * odds - 1) * 1000) / 1000
+      : undefined,
+  };
+};
+
+export const summarizeSlip = (slip: BetSelection[]): SlipBetSummary[] => {
+  return (Object.keys(LEGS) as SlipBetType[])
+    .map((type): SlipBetSummary | null => {
+      const size = LEGS[type] === 'ALL' ? slip.length : LEGS[type] as number;
+      // Accumulators need at least four legs; smaller ones are already doubles/trebles
+      if (size > slip.length || (type === 'ACCUMULATOR' && size < 4)) return null;
+      const combos = combinations(slip, size).filter(isIndependent).map(priceCombination);
+      if (combos.length === 0) return null;
+
+      const allPriced = combos.every(c => c.expectedValue !== undefined);
+      const expectedReturn = allPriced
+        ? combos.reduce((acc, c) => acc + (c.probability! / 100) * c.odds!, 0)
+        : undefined;
+      return {
+        type,
+        combinations: combos,
+        stake: combos.length,
+        expectedReturn: expectedReturn !== undefined ? Math.round(expectedReturn * 100) / 100 : undefined,
+        expectedValue: expectedReturn !== undefined ? Math.round((expectedReturn / combos.length - 1) * 1000) / 1000 : undefined,
+      };
+    })
+    .filter((s): s is SlipBetSummary => s !== null);
+};
+
+export const betSlipService = {
+  getSelections: (): BetSelection[] => loadSlip(),
+
+  // One pick per fixture and market; re-adding replaces the earlier pick. A full slip is left unchanged.
+  add: (selection: Omit<BetSelection, 'id' | 'addedAt'>): BetSelection[] => {
+    const entry: BetSelection = { ...selection, id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`, addedAt: Date.now() };
+    const current = loadSlip();
+    const slip = current.filter(s => !(fixtureOf(s) === fixtureOf(entry) && s.market === entry.market));
+    if (slip.length >= MAX_SELECTIONS) return current;
+    const next = [...slip, entry];
+    saveSlip(next);
+    return next;
+  },
+
+  updateOdds: (id: string, odds?: number): BetSelection[] => {
+    const next = loadSlip().map(s => s.id === id ? { ...s, odds } : s);
+    saveSlip(next);
+    return next;
+  },
+
+  remove: (id: string): BetSelection[] => {
+    const next = loadSlip().filter(s => s.id !== id);
+    saveSlip(next);
+    return next;
+  },
+
+  clear: (): BetSelection[] => {
+    localStorage.removeItem(userKey(SLIP_KEY));
+    return [];
+  }
+};
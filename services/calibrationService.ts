@@ -0,0 +1,198 @@
+import { CalibrationMethod, LedgerEntry, MatchAnalysis } from "../types";
+import { parseScore } from "./ledgerService";
+
+// Reliability analysis and recalibration of stated win probabilities,
+// fitted on settled ledger predictions
+export type ConfidenceLevel = 'High' | 'Medium' | 'Low';
+
+export const CALIBRATION_METHODS: { id: CalibrationMethod; label: string }[] = [
+  { id: 'PLATT', label: 'Platt' },
+  { id: 'ISOTONIC', label: 'Isotonic' },
+];
+
+const MIN_PAIRS = 30; // Roughly ten settled predictions
+const BUCKETS = 10;
+const EPSILON = 1e-4;
+
+// Calibrated probability of the favourite needed for each confidence level
+const CONFIDENCE_THRESHOLDS: { level: ConfidenceLevel; min: number }[] = [
+  { level: 'High', min: 60 },
+  { level: 'Medium', min: 45 },
+];
+
+type Probabilities = { home: number; draw: number; away: number };
+
+export interface CalibrationPair {
+  p: number; // Stated probability, 0-1
+  hit: boolean;
+}
+
+export interface ReliabilityBucket {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number; // 0-1
+  observed: number; // 0-1
+}
+
+export interface CalibrationModel {
+  method: CalibrationMethod;
+  samples: number;
+  platt?: { a: number; b: number };
+  isotonic?: { x: number[]; y: number[] }; // Block means, ascending
+}
+
+export interface CalibrationReport {
+  pairs: number;
+  predictions: number;
+  buckets: ReliabilityBucket[];
+  brier: number | null; // Per outcome, stated probabilities
+  calibratedBrier: number | null; // Same pairs after recalibration (in-sample)
+  ece: number | null; // Expected calibration error, 0-1
+  model: CalibrationModel | null;
+}
+
+const clamp = (p: number) => Math.min(1 - EPSILON, Math.max(EPSILON, p));
+const logit = (p: number) => Math.log(clamp(p) / (1 - clamp(p)));
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+// One pair per priced outcome of every settled pre-match prediction; in-play ones already saw part of the result
+export const calibrationPairs = (entries: LedgerEntry[]): CalibrationPair[] =>
+  entries.filter(entry => !entry.isLive).flatMap(entry => {
+    const wp = entry.winProbability;
+    const score = parseScore(entry.settlement?.finalScore);
+    const total = wp ? wp.home + wp.draw + wp.away : 0;
+    if (!wp || !score || !(total > 0)) return [];
+    const actual = score[0] > score[1] ? 'home' : score[0] < score[1] ? 'away' : 'draw';
+    return (['home', 'draw', 'away'] as const)
+      .filter(o => wp[o] > 0)
+      .map(o => ({ p: wp[o] / total, hit: o === actual }));
+  });
+
+export const reliabilityBuckets = (pairs: CalibrationPair[], buckets = BUCKETS): ReliabilityBucket[] =>
+  Array.from({ length: buckets }, (_, i) => {
+    const lower = i / buckets;
+    const upper = (i + 1) / buckets;
+    const inBucket = pairs.filter(pair => pair.p >= lower && (pair.p < upper || (i === buckets - 1 && pair.p <= upper)));
+    const count = inBucket.length;
+    return {
+      lower,
+      upper,
+      count,
+      meanPredicted: count ? inBucket.reduce((acc, pair) => acc + pair.p, 0) / count : 0,
+      observed: count ? inBucket.filter(pair => pair.hit).length / count : 0,
+    };
+  }).filter(b => b.count > 0);
+
+// --- FITTING ---
+// Platt scaling on the log-odds: q = sigmoid(a * logit(p) + b), fitted by Newton's method
+const fitPlatt = (pairs: CalibrationPair[]) => {
+  let a = 1, b = 0;
+  const ridge = 1e-3; // Keeps the Hessian invertible on separable data
+  for (let iter = 0; iter < 50; iter++) {
+    let ga = ridge * (a - 1), gb = ridge * b, haa = ridge, hab = 0, hbb = ridge;
+    pairs.forEach(({ p, hit }) => {
+      const z = logit(p);
+      const q = sigmoid(a * z + b);
+      const r = q - (hit ? 1 : 0);
+      const w = q * (1 - q);
+      ga += r * z; gb += r;
+      haa += w * z * z; hab += w * z; hbb += w;
+    });
+    const det = haa * hbb - hab * hab;
+    if (Math.abs(det) < 1e-12) break;
+    const da = (hbb * ga - hab * gb) / det;
+    const db = (haa * gb - hab * ga) / det;
+    a -= da; b -= db;
+    if (Math.abs(da) + Math.abs(db) < 1e-8) break;
+  }
+  return { a, b };
+};
+
+// Pool-adjacent-violators: the best non-decreasing step function through the outcomes
+const fitIsotonic = (pairs: CalibrationPair[]) => {
+  const blocks: { x: number; y: number; w: number }[] = [];
+  [...pairs].sort((l, r) => l.p - r.p).forEach(({ p, hit }) => {
+    blocks.push({ x: p, y: hit ? 1 : 0, w: 1 });
+    while (blocks.length > 1 && blocks[blocks.length - 2].y >= blocks[blocks.length - 1].y) {
+      const last = blocks.pop()!;
+      const prev = blocks.pop()!;
+      const w = prev.w + last.w;
+      blocks.push({ x: (prev.x * prev.w + last.x * last.w) / w, y: (prev.y * prev.w + last.y * last.w) / w, w });
+    }
+  });
+  return { x: blocks.map(b => b.x), y: blocks.map(b => b.y) };
+};
+
+export const fitCalibration = (pairs: CalibrationPair[], method: CalibrationMethod): CalibrationModel | null => {
+  if (pairs.length < MIN_PAIRS) return null;
+  return method === 'PLATT'
+    ? { method, samples: pairs.length, platt: fitPlatt(pairs) }
+    : { method, samples: pairs.length, isotonic: fitIsotonic(pairs) };
+};
+
+export const calibrate = (model: CalibrationModel, p: number): number => {
+  if (model.platt) return sigmoid(model.platt.a * logit(p) + model.platt.b);
+  const { x, y } = model.isotonic!;
+  if (p <= x[0]) return y[0];
+  if (p >= x[x.length - 1]) return y[y.length - 1];
+  const i = x.findIndex(v => v >= p);
+  const t = (p - x[i - 1]) / (x[i] - x[i - 1]);
+  return y[i - 1] + t * (y[i] - y[i - 1]);
+};
+
+// Calibrates each outcome, then renormalises the three back to 100. A fit that maps every
+// outcome to 0 (an isotonic first block at y = 0) leaves nothing to normalise; wp stands
+export const calibrateProbabilities = (model: CalibrationModel, wp: Probabilities): Probabilities => {
+  const total = wp.home + wp.draw + wp.away;
+  if (!(total > 0)) return wp;
+  const raw = {
+    home: calibrate(model, wp.home / total),
+    draw: wp.draw > 0 ? calibrate(model, wp.draw / total) : 0,
+    away: calibrate(model, wp.away / total),
+  };
+  const sum = raw.home + raw.draw + raw.away;
+  if (!(sum > 0)) return wp;
+  const home = Math.round((raw.home / sum) * 100);
+  const draw = wp.draw > 0 ? Math.round((raw.draw / sum) * 100) : 0;
+  return { home, draw, away: 100 - home - draw };
+};
+
+export const confidenceFromProbabilities = (wp: Probabilities): ConfidenceLevel => {
+  const top = Math.max(wp.home, wp.draw, wp.away);
+  return CONFIDENCE_THRESHOLDS.find(t => top >= t.min)?.level || 'Low';
+};
+
+// --- REPORT ---
+const brierOf = (pairs: CalibrationPair[], transform: (p: number) => number = p => p) =>
+  pairs.length ? pairs.reduce((acc, { p, hit }) => acc + (transform(p) - (hit ? 1 : 0)) ** 2, 0) / pairs.length : null;
+
+export const buildCalibrationReport = (entries: LedgerEntry[], method: CalibrationMethod): CalibrationReport => {
+  const pairs = calibrationPairs(entries);
+  const buckets = reliabilityBuckets(pairs);
+  const model = fitCalibration(pairs, method);
+  const ece = pairs.length
+    ? buckets.reduce((acc, b) => acc + (b.count / pairs.length) * Math.abs(b.meanPredicted - b.observed), 0)
+    : null;
+  return {
+    pairs: pairs.length,
+    predictions: entries.filter(e => !e.isLive && e.settlement && e.winProbability).length,
+    buckets,
+    brier: brierOf(pairs),
+    calibratedBrier: model ? brierOf(pairs, p => calibrate(model, p)) : null,
+    ece,
+    model,
+  };
+};
+
+// Applies a calibration fitted on the ledger to a fresh analysis, keeping the stated numbers
+export const applyCalibration = (analysis: MatchAnalysis, entries: LedgerEntry[], method: CalibrationMethod): MatchAnalysis => {
+  if (!analysis.stats) return analysis;
+  const model = fitCalibration(calibrationPairs(entries), method);
+  if (!model) return analysis;
+  return {
+    ...analysis,
+    stats: { ...analysis.stats, winProbability: calibrateProbabilities(model, analysis.stats.winProbability) },
+    calibration: { method, samples: model.samples, raw: analysis.stats.winProbability },
+  };
+};
@@ -0,0 +1,68 @@
+import { FavouriteItem, Favourites, MatchFixture, SportType } from "../types";
+import { userKey } from "./userScope";
+
+// Starred teams and leagues, persisted per user in localStorage
+const FAVOURITES_KEY = 'matchoracle_favourites';
+
+const EMPTY: Favourites = { teams: [], leagues: [] };
+
+const normalize = (name: string) => name.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const sameItem = (a: FavouriteItem, b: FavouriteItem) =>
+  a.sport === b.sport && normalize(a.name) === normalize(b.name);
+
+const loadFavourites = (): Favourites => {
+  try {
+    const item = localStorage.getItem(userKey(FAVOURITES_KEY));
+    const favourites = item ? JSON.parse(item) : EMPTY;
+    return {
+      teams: Array.isArray(favourites.teams) ? favourites.teams : [],
+      leagues: Array.isArray(favourites.leagues) ? favourites.leagues : [],
+    };
+  } catch (e) {
+    localStorage.removeItem(userKey(FAVOURITES_KEY));
+    return EMPTY;
+  }
+};
+
+const saveFavourites = (favourites: Favourites): Favourites => {
+  try {
+    localStorage.setItem(userKey(FAVOURITES_KEY), JSON.stringify(favourites));
+  } catch (e) {
+    console.warn("Favourites storage full");
+  }
+  return favourites;
+};
+
+const toggle = (list: FavouriteItem[], item: FavouriteItem) =>
+  list.some(f => sameItem(f, item))
+    ? list.filter(f => !sameItem(f, item))
+    : [...list, { name: item.name.trim(), sport: item.sport }];
+
+export const isFavouriteTeam = (favourites: Favourites, name: string, sport: SportType) =>
+  favourites.teams.some(f => sameItem(f, { name, sport }));
+
+export const isFavouriteLeague = (favourites: Favourites, name: string, sport: SportType) =>
+  favourites.leagues.some(f => sameItem(f, { name, sport }));
+
+// A fixture is "mine" when either team or its league is starred
+export const isFavouriteFixture = (favourites: Favourites, fixture: MatchFixture, fallbackSport: SportType) => {
+  const sport = fixture.sport || fallbackSport;
+  return isFavouriteTeam(favourites, fixture.home, sport)
+    || isFavouriteTeam(favourites, fixture.away, sport)
+    || isFavouriteLeague(favourites, fixture.league, sport);
+};
+
+export const favouritesService = {
+  get: (): Favourites => loadFavourites(),
+
+  toggleTeam: (name: string, sport: SportType): Favourites => {
+    const favourites = loadFavourites();
+    return saveFavourites({ ...favourites, teams: toggle(favourites.teams, { name, sport }) });
+  },
+
+  toggleLeague: (name: string, sport: SportType): Favourites => {
+    const favourites = loadFavourites();
+    return saveFavourites({ ...favourites, leagues: toggle(favourites.leagues, { name, sport }) });
+  },
+};
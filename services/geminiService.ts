@@ -1,54 +1,54 @@
 
-import { GoogleGenAI, Modality } from "@google/genai";
-import { MatchAnalysis, MatchFixture, MatchStats, SportType } from "../types";
+import { LiveScore, MatchAnalysis, MatchFixture, MatchStats, Provenance, SportType } from "../types";
+import { ChatHistory, PredictionProvider, StadiumInfo, getProvider } from "./providers";
+import { getActiveUser } from "./userScope";
+import { getSport } from "./sportRegistry";
+import { teamRegistry } from "./teamRegistry";
+import { parseKickoff, resolveTimeZone, timeService } from "./timeService";
+import { storageService } from "./storageService";
+import { isRateLimitError, requestScheduler } from "./requestScheduler";
 
-// Helper to initialize AI lazily and safely
-const getAI = () => {
-  if (typeof process === 'undefined' || !process.env) {
-    throw new Error("Environment variables not accessible");
-  }
-  const apiKey = process.env.API_KEY || '';
-  return new GoogleGenAI({ apiKey });
+// --- CACHING SYSTEM ---
+// Per-account so cached analyses never leak between users
+const cacheKey = (key: string) => `${getActiveUser() || 'guest'}_${key}`;
+
+// Fixture lists and analyses stay stored this long so they can be browsed offline
+const OFFLINE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const FIXTURES_MAX_AGE_MS = 30 * 60 * 1000;
+
+// A copy younger than maxAgeMs; pass no age to accept anything still retained (offline reads)
+const getCachedData = async <T>(key: string, maxAgeMs: number = Infinity): Promise<{ data: T; savedAt: number } | null> => {
+  const entry = await storageService.getEntry<T>('cache', cacheKey(key));
+  if (!entry || Date.now() - entry.savedAt >= maxAgeMs) return null;
+  return { data: entry.value, savedAt: entry.savedAt };
 };
 
-// --- CACHING SYSTEM ---
-const CACHE_PREFIX = 'mo_cache_';
+// retainMs bounds how long the copy is kept at all, fresh or not
+const setCachedData = async <T>(key: string, data: T, retainMs: number) => {
+  await storageService.set('cache', cacheKey(key), data, retainMs);
+};
 
-interface CacheItem<T> {
-  data: T;
-  timestamp: number;
+// --- OFFLINE ---
+// Thrown when the network is down and nothing usable was saved
+export class OfflineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OfflineError';
+  }
 }
 
-const getCachedData = <T>(key: string, maxAgeMs: number): T | null => {
-  try {
-    const itemStr = sessionStorage.getItem(CACHE_PREFIX + key);
-    if (!itemStr) return null;
-    
-    const item: CacheItem<T> = JSON.parse(itemStr);
-    const now = Date.now();
-    
-    if (now - item.timestamp < maxAgeMs) {
-      return item.data;
-    }
-    
-    sessionStorage.removeItem(CACHE_PREFIX + key);
-    return null;
-  } catch (e) {
-    return null;
-  }
-};
+export const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
 
-const setCachedData = <T>(key: string, data: T) => {
-  try {
-    const item: CacheItem<T> = {
-      data,
-      timestamp: Date.now()
-    };
-    sessionStorage.setItem(CACHE_PREFIX + key, JSON.stringify(item));
-  } catch (e) {
-    console.warn("Cache storage full");
-  }
-};
+// fetch() rejects with a TypeError ("Failed to fetch" / "Load failed") when the request never reached the server
+const isNetworkError = (error: any) =>
+  isOffline() || (error instanceof TypeError && /fetch|network|load failed/i.test(error.message));
+
+// --- PROVENANCE ---
+const provenanceOf = (provider: PredictionProvider): Provenance => provider.id === 'mock' ? 'mock' : 'live';
+
+// Fallback and cached data must not be presented as a current result. Mock data is labelled as
+// demo data but keeps the full UI, so the offline demo can show the betting tools.
+export const isDegraded = (provenance?: Provenance) => provenance === 'fallback' || provenance === 'cached';
 
 // --- AUDIO DECODING HELPERS ---
 function decode(base64: string) {
@@ -81,45 +81,58 @@ async function decodeAudioData(
 }
 
 // --- FALLBACK DATA GENERATORS ---
-const getFallbackMatches = (sport: SportType): MatchFixture[] => {
-  const time = "20:00";
-  if (sport === 'BASKETBALL') {
-    return [
-      { home: "Lakers", away: "Warriors", time, league: "NBA", sport: "BASKETBALL", status: "SCHEDULED" },
-      { home: "Celtics", away: "Heat", time, league: "NBA", sport: "BASKETBALL", status: "SCHEDULED" },
-      { home: "Real Madrid", away: "Barcelona", time, league: "EuroLeague", sport: "BASKETBALL", status: "SCHEDULED" },
-    ];
-  }
-  if (sport === 'HOCKEY') {
-    return [
-      { home: "Maple Leafs", away: "Canadiens", time, league: "NHL", sport: "HOCKEY", status: "SCHEDULED" },
-      { home: "Bruins", away: "Rangers", time, league: "NHL", sport: "HOCKEY", status: "SCHEDULED" },
-    ];
-  }
-  if (sport === 'HANDBALL') {
-    return [
-      { home: "PSG Handball", away: "Kiel", time, league: "Champions League", sport: "HANDBALL", status: "SCHEDULED" },
-      { home: "Barcelona", away: "Veszprém", time, league: "Champions League", sport: "HANDBALL", status: "SCHEDULED" },
-    ];
-  }
-  // Soccer Fallback - EXPANDED EUROPEAN
-  return [
-    { home: "Man City", away: "Arsenal", time, league: "Premier League", sport: "SOCCER", status: "SCHEDULED" },
-    { home: "Real Madrid", away: "Barcelona", time, league: "La Liga", sport: "SOCCER", status: "SCHEDULED" },
-    { home: "Bayern Munich", away: "Dortmund", time, league: "Bundesliga", sport: "SOCCER", status: "SCHEDULED" },
-    { home: "Inter Milan", away: "Juventus", time, league: "Serie A", sport: "SOCCER", status: "SCHEDULED" },
-    { home: "Ajax", away: "Feyenoord", time, league: "Eredivisie", sport: "SOCCER", status: "SCHEDULED" },
-    { home: "Benfica", away: "Porto", time, league: "Primeira Liga", sport: "SOCCER", status: "SCHEDULED" },
-    { home: "Galatasaray", away: "Fenerbahce", time, league: "Süper Lig", sport: "SOCCER", status: "SCHEDULED" },
-    { home: "Copenhagen", away: "Brondby", time, league: "Superliga", sport: "SOCCER", status: "SCHEDULED" },
-    { home: "Olympiacos", away: "PAOK", time, league: "Super League Greece", sport: "SOCCER", status: "SCHEDULED" },
-    { home: "Legia Warsaw", away: "Lech Poznan", time, league: "Ekstraklasa", sport: "SOCCER", status: "SCHEDULED" },
-    { home: "Leeds United", away: "Leicester", time, league: "Championship", sport: "SOCCER", status: "SCHEDULED" },
-    { home: "Dinamo Zagreb", away: "Hajduk Split", time, league: "HNL", sport: "SOCCER", status: "SCHEDULED" },
-  ];
+const getFallbackMatches = (sport: SportType, date: string, timeZone: string): MatchFixture[] => {
+  const kickoff = timeService.zonedEpoch(date, "20:00", timeZone);
+  return getSport(sport).fallbackFixtures.map(f => ({
+    ...f, time: "20:00", kickoff: kickoff !== undefined ? timeService.toZonedIso(kickoff, timeZone) : undefined, sport, status: "SCHEDULED",
+  }));
+};
+
+// Set-scored variant (tennis): best-of-3 set score, games total and tiebreak odds instead of goals, corners and cards
+const generateSetsFallbackAnalysis = (home: string, away: string, liveState: any): MatchAnalysis => {
+  const seed = home.length + away.length;
+  const straightSets = seed % 2 === 0;
+  const homeFavoured = home.length >= away.length;
+  const sets = straightSets ? [2, 0] : [2, 1];
+  const [homeSets, awaySets] = homeFavoured ? sets : [sets[1], sets[0]];
+  const games = straightSets ? 19.5 : 23.5;
+  const tiebreak = 35 + (seed % 4) * 5;
+
+  return {
+      rawText: "Fallback Mode",
+      sections: {
+          scorePrediction: liveState && liveState.score ? "LIVE ESTIMATE" : `${homeSets}-${awaySets}`,
+          scoreProbability: "40% (Est)",
+          totalGoals: `${straightSets ? 'Under' : 'Over'} ${games} games`,
+          corners: `${tiebreak}% chance of a tiebreak`,
+          cards: "Over 8.5 aces",
+          confidence: "Medium (Est)",
+          summary: liveState && liveState.score
+            ? `Match is currently live (${liveState.score} in sets). Momentum favors the player holding serve comfortably.`
+            : `Due to high demand, this is an estimated analysis based on ranking strength. ${homeFavoured ? home : away} is favoured.`,
+          recentForm: `${home}: WWLWW\n${away}: WLWLW`,
+          headToHead: "Mixed results in recent meetings.",
+          keyFactors: "Surface suitability and serve hold rate decide this matchup.",
+          predictionLogic: "Base strength metrics derived from ranking tier data.",
+          liveAnalysis: liveState ? "Break-point conversion will decide the current set." : "",
+          nextGoal: liveState ? (homeFavoured ? home : away) : "",
+          liveTip: liveState ? `Next Set: ${homeFavoured ? home : away}` : ""
+      },
+      stats: {
+          homeLast5Goals: homeFavoured ? [2, 2, 1, 2, 2] : [1, 2, 0, 2, 1],
+          awayLast5Goals: homeFavoured ? [1, 2, 0, 2, 1] : [2, 2, 1, 2, 2],
+          possession: { home: homeFavoured ? 53 : 47, away: homeFavoured ? 47 : 53 },
+          winProbability: { home: homeFavoured ? 60 : 40, draw: 0, away: homeFavoured ? 40 : 60 },
+          tiebreakProbability: tiebreak,
+      },
+      liveState: liveState ? { isLive: true, currentScore: liveState.score, matchTime: liveState.time } : undefined,
+      provenance: 'fallback'
+  };
 };
 
 const generateFallbackAnalysis = (home: string, away: string, league: string | undefined, liveState: any, sport: SportType): MatchAnalysis => {
+  if (getSport(sport).scoring === 'SETS') return generateSetsFallbackAnalysis(home, away, liveState);
+
   // Simple heuristic to generate varied numbers based on team name length
   const seed = home.length + away.length;
   const homeStr = (seed % 5) + 1; // 1-5
@@ -144,7 +157,6 @@ const generateFallbackAnalysis = (home: string, away: string, league: string | u
           cards: "Over 3.5",
           weather: "Moderate",
           referee: "Standard",
-          redFlags: "API Rate Limit Reached - Showing Estimated Data",
           confidence: "Medium (Est)",
           summary: summary,
           recentForm: `${home}: WWDLW\n${away}: LWDLL`,
@@ -159,233 +171,152 @@ const generateFallbackAnalysis = (home: string, away: string, league: string | u
           homeLast5Goals: [1, 2, 0, 3, 1],
           awayLast5Goals: [0, 1, 1, 2, 0],
           possession: { home: 55, away: 45 },
-          winProbability: { home: 50, draw: 25, away: 25 },
-          odds: { homeWin: 1.85, draw: 3.60, awayWin: 4.20 },
+          winProbability: getSport(sport).hasDraw ? { home: 50, draw: 25, away: 25 } : { home: 60, draw: 0, away: 40 },
           comparison: {
               homeValue: "High", awayValue: "Medium",
               homePosition: "Top 4", awayPosition: "Mid Table",
               homeRating: 82, awayRating: 76
           }
       },
-      liveState: liveState ? { isLive: true, currentScore: liveState.score, matchTime: liveState.time } : undefined
+      liveState: liveState ? { isLive: true, currentScore: liveState.score, matchTime: liveState.time } : undefined,
+      provenance: 'fallback'
   };
 };
 
 // ---------------------
 
-export const fetchTodaysMatches = async (sport: SportType = 'SOCCER', date?: string): Promise<MatchFixture[]> => {
-  const targetDate = date || new Date().toISOString().split('T')[0];
-  const cacheKey = `matches_${sport}_${targetDate}`;
+// Cache and request keys for a fixture: the same match under any spelling of its teams shares one
+const pairKey = (homeTeam: string, awayTeam: string, sport: SportType) =>
+  `${sport}_${teamRegistry.keyOf(homeTeam, sport)}_${teamRegistry.keyOf(awayTeam, sport)}`;
+
+// Saved fixture list of any age, marked as cached so the UI can show when it was saved
+const savedFixtures = async (key: string): Promise<MatchFixture[]> => {
+  const saved = await getCachedData<MatchFixture[]>(key);
+  if (!saved) throw new OfflineError("You're offline and this fixture list was never loaded.");
+  return saved.data.map(m => ({ ...m, provenance: 'cached', cachedAt: saved.savedAt }));
+};
+
+// Providers sometimes include fixtures from either side of the requested day; a scheduled fixture whose
+// kickoff falls on another calendar day in the user's timezone belongs to that day's list
+const onDay = (fixture: MatchFixture, date: string, timeZone: string) => {
+  const kickoff = parseKickoff(fixture.kickoff);
+  return kickoff === undefined || fixture.status === 'LIVE' || timeService.dateIn(kickoff, timeZone) === date;
+};
+
+// date is a calendar day in timeZone (an IANA zone; empty follows the browser) and defaults to today there
+export const fetchTodaysMatches = async (sport: SportType = 'SOCCER', date?: string, timeZone?: string): Promise<MatchFixture[]> => {
+  const zone = resolveTimeZone(timeZone);
+  const targetDate = date || timeService.today(zone);
+  const cacheKey = `matches_${sport}_${targetDate}_${zone}`;
   
   try {
-    const cached = getCachedData<MatchFixture[]>(cacheKey, 30 * 60 * 1000);
-    if (cached) return cached;
+    const cached = await getCachedData<MatchFixture[]>(cacheKey, FIXTURES_MAX_AGE_MS);
+    if (cached) return cached.data;
   } catch (e) { }
 
-  try {
-    const ai = getAI();
-    const modelId = "gemini-2.5-flash";
-    
-    const prompt = `
-      List 40-50 diverse ${sport} matches scheduled for ${targetDate}.
-      
-      MANDATORY - COMPREHENSIVE EUROPEAN COVERAGE (PRIORITIZE THESE):
-      1. MAJOR WESTERN: Premier League, La Liga, Bundesliga, Serie A, Ligue 1.
-      2. LOWER DIVISIONS (WESTERN): Championship, League One/Two, Serie B, Segunda, 2.Bundesliga.
-      3. SCANDINAVIA/NORDICS: Allsvenskan (Sweden), Eliteserien (Norway), Superliga (Denmark), Veikkausliiga (Finland), Besta deild karla (Iceland).
-      4. CENTRAL EUROPE: Eredivisie (Netherlands), Pro League (Belgium), Swiss Super League, Austrian Bundesliga.
-      5. EASTERN EUROPE: Ekstraklasa (Poland), Fortuna Liga (Czech), SuperLiga (Romania), NB I (Hungary), Parva Liga (Bulgaria).
-      6. BALKANS/SOUTH: Süper Lig (Turkey), Super League (Greece), HNL (Croatia), SuperLiga (Serbia).
-      7. SOUTHERN EUROPE: Primeira Liga (Portugal), Cyprus First Division.
-
-      PLUS GLOBAL MIX:
-      - ASIA: J-League, K-League, ISL, Saudi Pro League.
-      - SOUTH AMERICA: Brasileirão, Argentine Primera.
-      - AFRICA: NPFL, PSL, Botola Pro.
-
-      EXCLUDE: Cyber, Esports, Simulated.
-      FORMAT: JSON Array [{ "home": "A", "away": "B", "time": "HH:MM", "league": "L", "status": "SCHEDULED" }]
-    `;
-
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: prompt,
-      config: { tools: [{ googleSearch: {} }] },
-    });
-
-    const text = response.text || "[]";
-    const jsonMatch = text.match(/\[[\s\S]*\]/);
-    const cleanText = jsonMatch ? jsonMatch[0] : "[]";
-    
-    const matches = JSON.parse(cleanText);
-    if (!Array.isArray(matches) || matches.length === 0) throw new Error("No matches");
+  if (isOffline()) return savedFixtures(cacheKey);
 
-    const result = matches.map((m: any) => ({ ...m, sport }));
-    setCachedData(cacheKey, result);
+  try {
+    const provider = getProvider();
+    const fixtures = await requestScheduler.schedule(() => provider.fetchFixtures(sport, targetDate, zone), { key: `fixtures:${sport}:${targetDate}:${zone}` });
+    const result = fixtures
+      .filter(m => onDay(m, targetDate, zone))
+      .map(m => ({ ...teamRegistry.normalizeFixture(m, sport), provenance: provenanceOf(provider) }));
+    await setCachedData(cacheKey, result, OFFLINE_RETENTION_MS);
     return result;
 
   } catch (error: any) {
+    if (isNetworkError(error)) return savedFixtures(cacheKey);
     // Handle Rate Limit specifically
-    if (error.message?.includes('429') || error.status === 429 || error.message?.includes('quota') || error.message?.includes('RESOURCE_EXHAUSTED')) {
+    if (isRateLimitError(error)) {
         console.warn("API Quota Exceeded - Serving Fallback Matches");
-        return getFallbackMatches(sport);
+        return getFallbackMatches(sport, targetDate, zone).map(m => ({ ...teamRegistry.normalizeFixture(m, sport), provenance: 'fallback' as const }));
     }
     console.error("API Error fetching matches:", error);
     throw error;
   }
 };
 
-export const fetchLiveOdds = async (homeTeam: string, awayTeam: string): Promise<{ homeWin: number; draw: number; awayWin: number } | undefined> => {
-  const cacheKey = `odds_${homeTeam}_${awayTeam}`;
+// Current score and clock of an in-play fixture, polled by the live tracker. Never cached:
+// a stale score would hide exactly the change the tracker is watching for.
+export const fetchLiveScore = async (homeTeam: string, awayTeam: string, sport: SportType = 'SOCCER'): Promise<LiveScore | undefined> => {
+  if (isOffline()) return undefined;
+  try {
+    // Background polling like odds, so it never holds up an analysis the user asked for
+    return await requestScheduler.schedule(() => getProvider().fetchLiveScore(homeTeam, awayTeam, sport), { key: `livescore:${pairKey(homeTeam, awayTeam, sport)}`, priority: 'LOW', retries: 0 });
+  } catch (error) { return undefined; }
+};
+
+export const fetchLiveOdds = async (homeTeam: string, awayTeam: string, sport: SportType = 'SOCCER'): Promise<{ homeWin: number; draw: number; awayWin: number } | undefined> => {
+  const cacheKey = `odds_${pairKey(homeTeam, awayTeam, sport)}`;
   try {
-    const cached = getCachedData<{ homeWin: number; draw: number; awayWin: number }>(cacheKey, 90 * 1000);
-    if (cached) return cached;
+    const cached = await getCachedData<{ homeWin: number; draw: number; awayWin: number }>(cacheKey);
+    if (cached) return cached.data;
   } catch (e) { }
 
   try {
-    const ai = getAI();
-    const prompt = `Find current decimal betting odds for ${homeTeam} vs ${awayTeam}. Return ONLY strict JSON with decimal format: { "homeWin": 1.X, "draw": 3.X, "awayWin": 4.X }`;
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: { tools: [{ googleSearch: {} }] },
-    });
-    const jsonMatch = response.text?.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) return undefined;
-    const data = JSON.parse(jsonMatch[0]);
-    setCachedData(cacheKey, data);
+    // Background polling: lowest priority and no retries, the next poll tries again
+    const data = await requestScheduler.schedule(() => getProvider().fetchOdds(homeTeam, awayTeam, sport), { key: `odds:${pairKey(homeTeam, awayTeam, sport)}`, priority: 'LOW', retries: 0 });
+    if (!data) return undefined;
+    await setCachedData(cacheKey, data, 90 * 1000);
     return data;
   } catch (error) { return undefined; }
 };
 
 export const fetchTeamDetails = async (homeTeam: string, awayTeam: string, sport: SportType = 'SOCCER'): Promise<MatchStats['comparison'] | undefined> => {
-  const cacheKey = `details_${homeTeam}_${awayTeam}_${sport}`;
+  const cacheKey = `details_${pairKey(homeTeam, awayTeam, sport)}`;
   try {
-    const cached = getCachedData<MatchStats['comparison']>(cacheKey, 24 * 60 * 60 * 1000);
-    if (cached) return cached;
+    const cached = await getCachedData<MatchStats['comparison']>(cacheKey);
+    if (cached) return cached.data;
   } catch (e) { }
 
   try {
-    const ai = getAI();
-    const prompt = `Stats for ${homeTeam} vs ${awayTeam} (${sport}). JSON: { "homeValue": "val", "awayValue": "val", "homePosition": "1st", "awayPosition": "2nd", "homeRating": 85, "awayRating": 80 }`;
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: { tools: [{ googleSearch: {} }] },
-    });
-    const jsonMatch = response.text?.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) return undefined;
-    const data = JSON.parse(jsonMatch[0]);
-    setCachedData(cacheKey, data);
+    const data = await requestScheduler.schedule(() => getProvider().fetchTeamDetails(homeTeam, awayTeam, sport), { key: `details:${pairKey(homeTeam, awayTeam, sport)}` });
+    if (!data) return undefined;
+    await setCachedData(cacheKey, data, 24 * 60 * 60 * 1000);
     return data;
   } catch (error) { return undefined; }
 };
 
+// Last pre-match analysis saved for the fixture, served while offline
+const savedAnalysis = async (key: string): Promise<MatchAnalysis> => {
+  const saved = await getCachedData<MatchAnalysis>(key);
+  if (!saved) throw new OfflineError("You're offline and this match has no saved analysis.");
+  return { ...saved.data, provenance: 'cached', cachedAt: saved.savedAt };
+};
+
 export const analyzeMatch = async (homeTeam: string, awayTeam: string, league?: string, liveState?: { score: string, time: string }, sport: SportType = 'SOCCER'): Promise<MatchAnalysis> => {
+  const cacheKey = `analysis_${pairKey(homeTeam, awayTeam, sport)}`;
+  // An in-play request is about the current score, so an old pre-match copy does not answer it
+  if (isOffline()) {
+    if (liveState) throw new OfflineError("You're offline; live analysis needs a connection.");
+    return savedAnalysis(cacheKey);
+  }
+
   try {
     if (!homeTeam || !awayTeam) throw new Error("Teams required");
 
-    const ai = getAI();
-    const isLive = !!liveState;
-    
-    // Sport & League Context
-    let sportCtx = '';
-    let outputTpl = '';
+    const provider = getProvider();
+    const analysis = await requestScheduler.schedule(
+      () => provider.analyzeMatch({ homeTeam, awayTeam, league, liveState, sport }),
+      { key: `analysis:${pairKey(homeTeam, awayTeam, sport)}:${liveState?.score || ''}`, priority: 'HIGH' }
+    );
     
-    switch(sport) {
-        case 'BASKETBALL': 
-            sportCtx = 'Stats: Points, Rebounds. Factors: Load Management.'; 
-            outputTpl = '## Total Points\n[Over/Under]\n## Key Stat\n[Rebounds]';
-            break;
-        case 'HOCKEY': 
-            sportCtx = 'Stats: Goals, SOG. Factors: Goalies.'; 
-            outputTpl = '## Total Goals\n[Over/Under]\n## Key Stat\n[SOG]';
-            break;
-        case 'HANDBALL': 
-            sportCtx = 'Stats: Goals. Factors: Pace.'; 
-            outputTpl = '## Total Goals\n[Over/Under]\n## Key Stat\n[7m]';
-            break;
-        default: 
-            sportCtx = 'Stats: Goals, Corners, Cards. Context: Weather, Referees, Global Leagues (Europe, Asia, Africa, SA).'; 
-            outputTpl = '## Total Goals\n[O/U]\n## Corners\n[Count]\n## Cards\n[Count]';
-            break;
-    }
-
-    const prompt = `
-      Analyze ${sport}: ${homeTeam} vs ${awayTeam} ${league ? `(${league})` : ''}.
-      ${isLive ? `LIVE MATCH: Score ${liveState?.score} Time ${liveState?.time}. Focus: Momentum, Next Goal.` : 'PRE-MATCH: Focus Form, H2H.'}
-      ${sportCtx}
-      
-      CONTEXT: 
-      - EUROPEAN REGIONAL FACTORS: 
-         * Scandinavia/Nordics: Synthetic pitches, cold weather impact.
-         * Balkans/Turkey: Hostile home crowds, high card counts, referee pressure.
-         * Eastern Europe: Physical play style, winter break rust (if relevant).
-         * Lower Leagues: Squad depth, reliance on key veterans, fixture congestion.
-      - GLOBAL SUPPORT: Supports ALL LEAGUES worldwide.
-      - If advanced stats (xG) are missing for lower leagues, rely on League Standings, Home/Away Records, and Recent Form.
-      
-      STRICTLY EXCLUDE CYBER/ESPORTS/SIMULATION. REAL MATCHES ONLY.
-      
-      OUTPUT FORMAT:
-      ## Score Prediction
-      [X-Y]
-      ## Score Probability
-      [%]
-      ${outputTpl}
-      ## Weather
-      [Cond]
-      ## Referee
-      [Name]
-      ## Red Flags
-      [Warnings]
-      ## Confidence
-      [Lvl]
-      ## Summary
-      [Verdict]
-      ## Prediction Logic
-      [Steps]
-      ${isLive ? '## Live Analysis\n[Txt]\n## Next Goal\n[Team]\n## Live Tip\n[Tip]' : ''}
-      ## Recent Form
-      [Txt]
-      ## Head-to-Head
-      [Txt]
-      ## Key Factors
-      [Txt]
-      
-      JSON DATA (At End):
-      \`\`\`json
-      {
-        "homeLast5Goals": [n,n,n,n,n], "awayLast5Goals": [n,n,n,n,n],
-        "possession": {"home":n,"away":n},
-        "winProbability": {"home":n,"draw":n,"away":n},
-        "odds": {"homeWin":n.n,"draw":n.n,"awayWin":n.n},
-        "comparison": {"homeValue":"s","awayValue":"s","homePosition":"s","awayPosition":"s","homeRating":n,"awayRating":n},
-        "keyPlayers": {"home":[{"name":"n","stat":"s"}],"away":[{"name":"n","stat":"s"}]},
-        "homeLogo":"url","awayLogo":"url"
-      }
-      \`\`\`
-    `;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: { tools: [{ googleSearch: {} }] },
-    });
-
-    const text = response.text || "";
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks as any[];
-    const analysis = parseResponse(text, groundingChunks);
-    
-    if (isLive && liveState) {
+    if (liveState) {
       analysis.liveState = { isLive: true, currentScore: liveState.score, matchTime: liveState.time };
     }
 
-    return analysis;
+    const result: MatchAnalysis = { ...analysis, provenance: provenanceOf(provider) };
+    if (!liveState) await setCachedData(cacheKey, result, OFFLINE_RETENTION_MS);
+    return result;
 
   } catch (error: any) {
+    if (isNetworkError(error)) {
+      if (liveState) throw new OfflineError("You're offline; live analysis needs a connection.");
+      return savedAnalysis(cacheKey);
+    }
     // Handle Rate Limit Fallback for Analysis too
-    if (error.message?.includes('429') || error.status === 429 || error.message?.includes('quota') || error.message?.includes('RESOURCE_EXHAUSTED')) {
+    if (isRateLimitError(error)) {
         console.warn("API Quota Exceeded - Generating Estimate");
         return generateFallbackAnalysis(homeTeam, awayTeam, league, liveState, sport);
     }
@@ -394,107 +325,17 @@ export const analyzeMatch = async (homeTeam: string, awayTeam: string, league?:
   }
 };
 
-const parseResponse = (text: string, groundingChunks: any[]): MatchAnalysis => {
-  const sections: MatchAnalysis['sections'] = {
-    scorePrediction: '', scoreProbability: '', totalGoals: '', corners: '', cards: '',
-    weather: '', referee: '', redFlags: '', confidence: '', summary: '',
-    recentForm: '', headToHead: '', keyFactors: '', predictionLogic: '',
-    liveAnalysis: '', nextGoal: '', liveTip: ''
-  };
-  
-  let stats: MatchAnalysis['stats'] = undefined;
-
-  // Extract JSON
-  const jsonMatch = text.match(/```json\s*([\s\S]*?)\s*```/) || text.match(/\{[\s\S]*\}/);
-  if (jsonMatch) {
-      try { stats = JSON.parse(jsonMatch[1] || jsonMatch[0]); } catch (e) {}
-  }
-
-  // Extract Sections
-  const lines = text.replace(/```json[\s\S]*```/g, '').split('\n');
-  let currentSection = '';
-
-  const mapHeader = (line: string) => {
-    const l = line.toLowerCase().replace(/\*|#/g, '').trim();
-    if (l.startsWith('score prediction')) return 'scorePrediction';
-    if (l.startsWith('score probability')) return 'scoreProbability';
-    if (l.startsWith('total goals') || l.startsWith('total points')) return 'totalGoals';
-    if (l.startsWith('corners') || l.startsWith('key stat') && !l.includes('2')) return 'corners';
-    if (l.startsWith('cards') || l.startsWith('key stat 2')) return 'cards';
-    if (l.startsWith('weather')) return 'weather';
-    if (l.startsWith('referee')) return 'referee';
-    if (l.startsWith('red flags')) return 'redFlags';
-    if (l.startsWith('confidence')) return 'confidence';
-    if (l.startsWith('summary')) return 'summary';
-    if (l.startsWith('recent form')) return 'recentForm';
-    if (l.startsWith('head-to-head')) return 'headToHead';
-    if (l.startsWith('key factors')) return 'keyFactors';
-    if (l.startsWith('prediction logic')) return 'predictionLogic';
-    if (l.startsWith('live analysis')) return 'liveAnalysis';
-    if (l.startsWith('next goal')) return 'nextGoal';
-    if (l.startsWith('live tip')) return 'liveTip';
-    return null;
-  };
-
-  lines.forEach(line => {
-    const header = mapHeader(line);
-    if (header) {
-        currentSection = header;
-    } else if (currentSection && line.trim()) {
-        sections[currentSection as keyof typeof sections] += line.trim() + '\n';
-    }
-  });
-
-  // Fallback Score Regex
-  if (!sections.scorePrediction) {
-      const score = text.match(/\b\d+\s*-\s*\d+\b/);
-      if (score) sections.scorePrediction = score[0];
-  }
-
-  // Cleanup
-  Object.keys(sections).forEach(k => {
-      sections[k as keyof typeof sections] = sections[k as keyof typeof sections]?.trim();
-  });
-
-  return { rawText: text, groundingChunks, sections, stats };
-};
-
 // --- NEW MULTIMODAL FEATURES ---
 
-export const getStadiumDetails = async (team: string): Promise<{ text: string; mapLink?: { uri: string; title: string } } | null> => {
+export const getStadiumDetails = async (team: string): Promise<StadiumInfo | null> => {
   try {
-    const ai = getAI();
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `Where is the home stadium for the soccer team ${team}? Return a short description of the stadium, capacity, and location.`,
-      config: { tools: [{ googleMaps: {} }] },
-    });
-    
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks as any[];
-    // We look for a chunk that has maps data with a URI.
-    const mapChunk = groundingChunks?.find((c: any) => c.maps?.uri);
-    
-    const mapLink = mapChunk?.maps?.uri ? {
-        uri: mapChunk.maps.uri,
-        title: mapChunk.maps.title || "View Location"
-    } : undefined;
-
-    return { text: response.text || "", mapLink };
+    return await requestScheduler.schedule(() => getProvider().getStadiumDetails(team), { key: `stadium:${team}`, priority: 'LOW' });
   } catch (e) { return null; }
 }
 
 export const playMatchAudio = async (text: string) => {
     try {
-        const ai = getAI();
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-preview-tts',
-            contents: { parts: [{ text: text.substring(0, 500) }] }, // Limit length for demo
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } }
-            }
-        });
-        const base64 = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        const base64 = await requestScheduler.schedule(() => getProvider().synthesizeSpeech(text), { priority: 'HIGH' });
         if (!base64) return;
 
         const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({sampleRate: 24000});
@@ -510,44 +351,19 @@ export const playMatchAudio = async (text: string) => {
 
 export const generateMatchImage = async (prompt: string) => {
     try {
-        const ai = getAI();
-        const response = await ai.models.generateImages({
-            model: 'imagen-4.0-generate-001',
-            prompt: prompt,
-            config: { numberOfImages: 1, aspectRatio: '16:9' }
-        });
-        return response.generatedImages?.[0]?.image?.imageBytes;
+        return await requestScheduler.schedule(() => getProvider().generateImage(prompt), { priority: 'HIGH' });
     } catch (e) { console.error("Image Gen Error", e); return null; }
 }
 
 export const generateMatchVideo = async (prompt: string) => {
     try {
-        const ai = getAI();
-        // Simulating Veo call as it requires polling and download
-        let operation = await ai.models.generateVideos({
-            model: 'veo-3.1-fast-generate-preview',
-            prompt: prompt,
-            config: {
-                numberOfVideos: 1,
-                resolution: '720p',
-                aspectRatio: '16:9'
-            }
-        });
-        // In a real app, we'd poll here. For simplicity in this demo structure, we return the operation promise or simplified flow.
-        // Note: Veo integration typically needs client-side polling which is complex for a simple function return.
-        // We will assume the UI handles the waiting or we return the operation for the UI to poll.
-        return operation;
+        const provider = getProvider();
+        return provider.generateVideo ? await requestScheduler.schedule(() => provider.generateVideo!(prompt), { priority: 'HIGH' }) : null;
     } catch (e) { console.error("Veo Gen Error", e); return null; }
 }
 
-export const sendChatMessage = async (message: string, history: {role: string, parts: {text: string}[]}[]) => {
+export const sendChatMessage = async (message: string, history: ChatHistory) => {
     try {
-        const ai = getAI();
-        const chat = ai.chats.create({
-            model: 'gemini-3-pro-preview',
-            history: history,
-        });
-        const result = await chat.sendMessage({ message });
-        return result.text;
+        return await requestScheduler.schedule(() => getProvider().sendChat(message, history), { priority: 'HIGH' });
     } catch (e) { return "I'm currently offline or busy analyzing matches. Please try again later."; }
 }
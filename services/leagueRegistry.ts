@@ -0,0 +1,189 @@
+import { LeagueEntity, LeagueRegion, MatchFixture, SeasonFormat, SportType } from "../types";
+import { teamRegistry } from "./teamRegistry";
+
+// Structured list of the competitions we cover. Tier filters, region grouping and the
+// fixture prompt all read from here instead of matching substrings of league names.
+
+export const REGION_LABELS: Record<LeagueRegion, string> = {
+  EUROPE: 'Europe',
+  ASIA: 'Asia',
+  AFRICA: 'Africa',
+  SOUTH_AMERICA: 'South America',
+  NORTH_AMERICA: 'North America',
+  INTERNATIONAL: 'International',
+};
+
+// Months (1-12) each season format has matches in
+const SEASON_MONTHS: Record<SeasonFormat, number[]> = {
+  AUTUMN_SPRING: [8, 9, 10, 11, 12, 1, 2, 3, 4, 5],
+  SPRING_AUTUMN: [3, 4, 5, 6, 7, 8, 9, 10, 11],
+  CALENDAR_YEAR: [2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
+  YEAR_ROUND: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
+};
+
+const normalizeLeagueName = (name: string) =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[.'’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+type LeagueDetails = Omit<LeagueEntity, 'id' | 'name' | 'aliases' | 'sport'>;
+
+const league = (sport: SportType, name: string, details: LeagueDetails, aliases: string[] = []): LeagueEntity => ({
+  id: `${sport.toLowerCase()}:${normalizeLeagueName(`${details.country} ${name}`).replace(/ /g, '-')}`,
+  name, aliases, sport, ...details,
+});
+
+// Shorthands for the common shapes
+const europe = (country: string, area: LeagueDetails['area'], tier = 1, seasonFormat: SeasonFormat = 'AUTUMN_SPRING'): LeagueDetails =>
+  ({ country, region: 'EUROPE', area, tier, seasonFormat });
+const elsewhere = (country: string, region: LeagueRegion, seasonFormat: SeasonFormat, tier = 1): LeagueDetails =>
+  ({ country, region, tier, seasonFormat });
+const tour = (tier: number): LeagueDetails =>
+  ({ country: 'International', region: 'INTERNATIONAL', tier, seasonFormat: 'YEAR_ROUND' });
+
+// --- REGISTRY DATA ---
+// Tennis fixtures name the tournament ("ATP Madrid", "WTA Doha"); these are the cities of the
+// 1000-level events. Other tournaments are listed under their category name.
+const MASTERS_EVENTS = ['Indian Wells', 'Miami', 'Monte Carlo', 'Madrid', 'Rome', 'Toronto', 'Montreal', 'Cincinnati', 'Shanghai', 'Paris'];
+const WTA_1000_EVENTS = ['Doha', 'Dubai', 'Indian Wells', 'Miami', 'Madrid', 'Rome', 'Toronto', 'Montreal', 'Cincinnati', 'Beijing', 'Wuhan'];
+
+const LEAGUES: LeagueEntity[] = [
+  // Soccer: Western Europe
+  league('SOCCER', 'Premier League', europe('England', 'WESTERN'), ['English Premier League', 'EPL']),
+  league('SOCCER', 'La Liga', europe('Spain', 'WESTERN'), ['LaLiga', 'Primera Division', 'LaLiga EA Sports']),
+  league('SOCCER', 'Bundesliga', europe('Germany', 'WESTERN'), ['German Bundesliga', '1. Bundesliga']),
+  league('SOCCER', 'Serie A', europe('Italy', 'WESTERN'), ['Italian Serie A']),
+  league('SOCCER', 'Ligue 1', europe('France', 'WESTERN'), ['French Ligue 1']),
+  league('SOCCER', 'Scottish Premiership', europe('Scotland', 'WESTERN'), ['Premiership', 'SPFL Premiership']),
+  league('SOCCER', 'Championship', europe('England', 'WESTERN', 2), ['EFL Championship', 'English Championship']),
+  league('SOCCER', 'League One', europe('England', 'WESTERN', 3), ['EFL League One']),
+  league('SOCCER', 'League Two', europe('England', 'WESTERN', 4), ['EFL League Two']),
+  league('SOCCER', 'National League', europe('England', 'WESTERN', 5), ['English National League']),
+  league('SOCCER', 'Segunda División', europe('Spain', 'WESTERN', 2), ['Segunda', 'La Liga 2', 'LaLiga Hypermotion', 'Segunda Division']),
+  league('SOCCER', '2. Bundesliga', europe('Germany', 'WESTERN', 2), ['Bundesliga 2', '2 Bundesliga']),
+  league('SOCCER', '3. Liga', europe('Germany', 'WESTERN', 3), ['3 Liga']),
+  league('SOCCER', 'Serie B', europe('Italy', 'WESTERN', 2), ['Italian Serie B']),
+  league('SOCCER', 'Serie C', europe('Italy', 'WESTERN', 3)),
+  league('SOCCER', 'Ligue 2', europe('France', 'WESTERN', 2), ['French Ligue 2']),
+  league('SOCCER', 'Championnat National', europe('France', 'WESTERN', 3), ['National', 'French National']),
+
+  // Soccer: Nordics
+  league('SOCCER', 'Allsvenskan', europe('Sweden', 'NORDIC', 1, 'SPRING_AUTUMN')),
+  league('SOCCER', 'Superettan', europe('Sweden', 'NORDIC', 2, 'SPRING_AUTUMN')),
+  league('SOCCER', 'Eliteserien', europe('Norway', 'NORDIC', 1, 'SPRING_AUTUMN')),
+  league('SOCCER', 'Superliga', europe('Denmark', 'NORDIC'), ['Danish Superliga']),
+  league('SOCCER', 'Veikkausliiga', europe('Finland', 'NORDIC', 1, 'SPRING_AUTUMN')),
+  league('SOCCER', 'Besta deild karla', europe('Iceland', 'NORDIC', 1, 'SPRING_AUTUMN'), ['Besta deild', 'Urvalsdeild']),
+
+  // Soccer: Central Europe
+  league('SOCCER', 'Eredivisie', europe('Netherlands', 'CENTRAL'), ['Dutch Eredivisie']),
+  league('SOCCER', 'Eerste Divisie', europe('Netherlands', 'CENTRAL', 2), ['Keuken Kampioen Divisie']),
+  league('SOCCER', 'Pro League', europe('Belgium', 'CENTRAL'), ['Belgian Pro League', 'Jupiler Pro League']),
+  league('SOCCER', 'Swiss Super League', europe('Switzerland', 'CENTRAL'), ['Super League Switzerland']),
+  league('SOCCER', 'Challenge League', europe('Switzerland', 'CENTRAL', 2), ['Swiss Challenge League']),
+  league('SOCCER', 'Austrian Bundesliga', europe('Austria', 'CENTRAL'), ['Admiral Bundesliga']),
+
+  // Soccer: Eastern Europe
+  league('SOCCER', 'Ekstraklasa', europe('Poland', 'EASTERN'), ['PKO Ekstraklasa']),
+  league('SOCCER', 'Fortuna Liga', europe('Czech Republic', 'EASTERN'), ['Czech First League', 'Chance Liga']),
+  league('SOCCER', 'Liga I', europe('Romania', 'EASTERN'), ['SuperLiga Romania', 'Romanian Liga I']),
+  league('SOCCER', 'NB I', europe('Hungary', 'EASTERN'), ['Nemzeti Bajnoksag I', 'OTP Bank Liga']),
+  league('SOCCER', 'Parva Liga', europe('Bulgaria', 'EASTERN'), ['First Professional League', 'efbet Liga']),
+
+  // Soccer: Balkans and Turkey
+  league('SOCCER', 'Süper Lig', europe('Turkey', 'BALKANS'), ['Super Lig', 'Trendyol Super Lig']),
+  league('SOCCER', '1. Lig', europe('Turkey', 'BALKANS', 2), ['TFF First League', '1 Lig']),
+  league('SOCCER', 'Super League Greece', europe('Greece', 'BALKANS'), ['Super League 1', 'Greek Super League']),
+  league('SOCCER', 'HNL', europe('Croatia', 'BALKANS'), ['SuperSport HNL', 'Prva HNL', 'Croatian First League']),
+  league('SOCCER', 'Serbian SuperLiga', europe('Serbia', 'BALKANS'), ['SuperLiga Serbia', 'Mozzart Bet SuperLiga']),
+
+  // Soccer: Southern Europe
+  league('SOCCER', 'Primeira Liga', europe('Portugal', 'SOUTHERN'), ['Liga Portugal', 'Liga Portugal Betclic']),
+  league('SOCCER', 'Liga Portugal 2', europe('Portugal', 'SOUTHERN', 2), ['Liga 2', 'Segunda Liga']),
+  league('SOCCER', 'Cyprus First Division', europe('Cyprus', 'SOUTHERN'), ['Cypriot First Division']),
+
+  // Soccer: rest of the world
+  league('SOCCER', 'J1 League', elsewhere('Japan', 'ASIA', 'CALENDAR_YEAR'), ['J-League', 'J League', 'J1']),
+  league('SOCCER', 'J2 League', elsewhere('Japan', 'ASIA', 'CALENDAR_YEAR', 2), ['J2']),
+  league('SOCCER', 'K League 1', elsewhere('South Korea', 'ASIA', 'SPRING_AUTUMN'), ['K-League', 'K League']),
+  league('SOCCER', 'K League 2', elsewhere('South Korea', 'ASIA', 'SPRING_AUTUMN', 2), ['K2']),
+  league('SOCCER', 'Indian Super League', elsewhere('India', 'ASIA', 'AUTUMN_SPRING'), ['ISL']),
+  league('SOCCER', 'Saudi Pro League', elsewhere('Saudi Arabia', 'ASIA', 'AUTUMN_SPRING'), ['Roshn Saudi League', 'Saudi Professional League']),
+  league('SOCCER', 'Brasileirão', elsewhere('Brazil', 'SOUTH_AMERICA', 'CALENDAR_YEAR'), ['Brasileirao', 'Serie A Brazil', 'Campeonato Brasileiro Série A']),
+  league('SOCCER', 'Brasileirão B', elsewhere('Brazil', 'SOUTH_AMERICA', 'CALENDAR_YEAR', 2), ['Brasileirao B', 'Serie B Brazil']),
+  league('SOCCER', 'Argentine Primera', elsewhere('Argentina', 'SOUTH_AMERICA', 'CALENDAR_YEAR'), ['Liga Profesional', 'Primera Division Argentina']),
+  league('SOCCER', 'MLS', elsewhere('USA', 'NORTH_AMERICA', 'SPRING_AUTUMN'), ['Major League Soccer']),
+  league('SOCCER', 'NPFL', elsewhere('Nigeria', 'AFRICA', 'AUTUMN_SPRING'), ['Nigeria Premier Football League']),
+  league('SOCCER', 'PSL', elsewhere('South Africa', 'AFRICA', 'AUTUMN_SPRING'), ['Betway Premiership', 'DStv Premiership']),
+  league('SOCCER', 'Botola Pro', elsewhere('Morocco', 'AFRICA', 'AUTUMN_SPRING'), ['Botola']),
+  league('SOCCER', 'Champions League', elsewhere('International', 'INTERNATIONAL', 'AUTUMN_SPRING'), ['UEFA Champions League', 'UCL']),
+  league('SOCCER', 'Europa League', elsewhere('International', 'INTERNATIONAL', 'AUTUMN_SPRING'), ['UEFA Europa League', 'UEL']),
+  league('SOCCER', 'Conference League', elsewhere('International', 'INTERNATIONAL', 'AUTUMN_SPRING'), ['UEFA Conference League', 'UECL']),
+
+  // Basketball
+  league('BASKETBALL', 'NBA', elsewhere('USA', 'NORTH_AMERICA', 'AUTUMN_SPRING')),
+  league('BASKETBALL', 'EuroLeague', elsewhere('International', 'INTERNATIONAL', 'AUTUMN_SPRING'), ['Euroleague Basketball']),
+  league('BASKETBALL', 'Liga ACB', europe('Spain', 'WESTERN'), ['ACB', 'Liga Endesa']),
+  league('BASKETBALL', 'EuroCup', elsewhere('International', 'INTERNATIONAL', 'AUTUMN_SPRING', 2)),
+
+  // Hockey
+  league('HOCKEY', 'NHL', elsewhere('USA', 'NORTH_AMERICA', 'AUTUMN_SPRING')),
+  league('HOCKEY', 'KHL', europe('Russia', 'EASTERN')),
+  league('HOCKEY', 'SHL', europe('Sweden', 'NORDIC'), ['Swedish Hockey League']),
+  league('HOCKEY', 'AHL', elsewhere('USA', 'NORTH_AMERICA', 'AUTUMN_SPRING', 2)),
+
+  // Handball
+  league('HANDBALL', 'Champions League', elsewhere('International', 'INTERNATIONAL', 'AUTUMN_SPRING'), ['EHF Champions League']),
+  league('HANDBALL', 'Handball-Bundesliga', europe('Germany', 'WESTERN'), ['HBL', 'Bundesliga']),
+  league('HANDBALL', 'EHF European League', elsewhere('International', 'INTERNATIONAL', 'AUTUMN_SPRING', 2), ['European League']),
+
+  // Tennis: tournaments by category
+  league('TENNIS', 'Grand Slam', tour(1), ['Australian Open', 'Roland Garros', 'French Open', 'Wimbledon', 'US Open']),
+  league('TENNIS', 'ATP Masters 1000', tour(1), ['Masters 1000', ...MASTERS_EVENTS.map(city => `ATP ${city}`)]),
+  league('TENNIS', 'WTA 1000', tour(1), WTA_1000_EVENTS.map(city => `WTA ${city}`)),
+  league('TENNIS', 'ATP 500', tour(2)),
+  league('TENNIS', 'WTA 500', tour(2)),
+  league('TENNIS', 'ATP 250', tour(2)),
+  league('TENNIS', 'WTA 250', tour(2)),
+  league('TENNIS', 'ATP Challenger', tour(3), ['Challenger']),
+  league('TENNIS', 'WTA 125', tour(3)),
+];
+
+const INDEX: { key: string; league: LeagueEntity }[] = LEAGUES.flatMap(l =>
+  [l.name, ...l.aliases].map(spelling => ({ key: normalizeLeagueName(spelling), league: l }))
+);
+
+export const leagueRegistry = {
+  // Exact (normalised) name or alias only. With a country, a country-qualified alias wins
+  // ("Serie A" for a Brazilian side is "Serie A Brazil"); a name shared between countries such
+  // as "Superliga" resolves only when the country picks one of them
+  resolve: (name: string, sport?: SportType, country?: string): LeagueEntity | undefined => {
+    const lookup = (spelling: string) => {
+      const key = normalizeLeagueName(spelling);
+      return Array.from(new Set(
+        INDEX.filter(entry => entry.key === key && (!sport || entry.league.sport === sport)).map(entry => entry.league)
+      ));
+    };
+    if (!normalizeLeagueName(name)) return undefined;
+    const qualified = country ? lookup(`${name} ${country}`) : [];
+    if (qualified.length === 1) return qualified[0];
+    const matches = lookup(name);
+    return matches.length === 1 ? matches[0] : matches.find(l => country && l.country === country);
+  },
+
+  // The league a fixture belongs to, using the home side's country to break name ties
+  ofFixture: (fixture: MatchFixture, sport: SportType): LeagueEntity | undefined => {
+    const fixtureSport = fixture.sport || sport;
+    return leagueRegistry.resolve(fixture.league, fixtureSport, teamRegistry.resolve(fixture.home, fixtureSport)?.country);
+  },
+
+  list: (sport: SportType): LeagueEntity[] => LEAGUES.filter(l => l.sport === sport),
+
+  // Whether the league normally has matches in the month of a YYYY-MM-DD date
+  inSeason: (league: LeagueEntity, date: string) => {
+    const month = parseInt(date.slice(5, 7), 10);
+    return isNaN(month) || SEASON_MONTHS[league.seasonFormat].includes(month);
+  },
+};
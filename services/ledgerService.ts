@@ -0,0 +1,149 @@
+import { LedgerEntry, LedgerSettlement, MatchAnalysis, MatchFixture, SportType } from "../types";
+import { userKey } from "./userScope";
+import { getSport } from "./sportRegistry";
+import { teamRegistry } from "./teamRegistry";
+
+// Persistent prediction ledger in localStorage
+const LEDGER_KEY = 'matchoracle_ledger';
+const MAX_ENTRIES = 500;
+
+type Outcome = 'HOME' | 'DRAW' | 'AWAY';
+
+const fixtureKey = (home: string, away: string, sport: SportType, date: string) =>
+  `${sport}|${date}|${teamRegistry.keyOf(home, sport)}|${teamRegistry.keyOf(away, sport)}`;
+
+const loadEntries = (): LedgerEntry[] => {
+  try {
+    const item = localStorage.getItem(userKey(LEDGER_KEY));
+    const entries = item ? JSON.parse(item) : [];
+    return Array.isArray(entries) ? entries.map(ungradeUnpicked) : [];
+  } catch (e) {
+    console.warn("Error parsing prediction ledger, resetting.", e);
+    localStorage.removeItem(userKey(LEDGER_KEY));
+    return [];
+  }
+};
+
+const saveEntries = (entries: LedgerEntry[]) => {
+  try {
+    localStorage.setItem(userKey(LEDGER_KEY), JSON.stringify(entries.slice(-MAX_ENTRIES)));
+  } catch (e) {
+    console.warn("Ledger storage full");
+  }
+};
+
+// --- GRADING HELPERS ---
+export const parseScore = (score?: string): [number, number] | null => {
+  const match = score?.match(/(\d+)\s*[-:]\s*(\d+)/);
+  if (!match) return null;
+  return [parseInt(match[1], 10), parseInt(match[2], 10)];
+};
+
+const outcomeOf = ([home, away]: [number, number]): Outcome =>
+  home > away ? 'HOME' : home < away ? 'AWAY' : 'DRAW';
+
+const predictedOutcome = (entry: LedgerEntry): Outcome | null => {
+  const wp = entry.winProbability;
+  if (wp && (wp.home || wp.draw || wp.away)) {
+    if (wp.home >= wp.draw && wp.home >= wp.away) return 'HOME';
+    if (wp.away >= wp.draw) return 'AWAY';
+    return 'DRAW';
+  }
+  const predicted = parseScore(entry.scorePrediction);
+  return predicted ? outcomeOf(predicted) : null;
+};
+
+// Entries settled before ungradable outcomes were left blank were stored as misses
+const ungradeUnpicked = (entry: LedgerEntry): LedgerEntry =>
+  entry.settlement && entry.settlement.outcomeHit !== undefined && !predictedOutcome(entry)
+    ? { ...entry, settlement: { ...entry.settlement, outcomeHit: undefined } }
+    : entry;
+
+const gradeTotals = (line: string | undefined, total: number): boolean | undefined => {
+  const match = line?.match(/(over|under)\s*(\d+(?:\.\d+)?)/i);
+  if (!match) return undefined;
+  const threshold = parseFloat(match[2]);
+  if (total === threshold) return undefined; // Push
+  return match[1].toLowerCase() === 'over' ? total > threshold : total < threshold;
+};
+
+const gradeEntry = (entry: LedgerEntry, finalScore: string): LedgerSettlement | null => {
+  const actual = parseScore(finalScore);
+  if (!actual) return null;
+  const predicted = parseScore(entry.scorePrediction);
+  const outcome = predictedOutcome(entry);
+  return {
+    finalScore: `${actual[0]}-${actual[1]}`,
+    settledAt: Date.now(),
+    outcomeHit: outcome ? outcome === outcomeOf(actual) : undefined,
+    exactScoreHit: !!predicted && predicted[0] === actual[0] && predicted[1] === actual[1],
+    // A set score cannot grade a games line
+    totalsHit: getSport(entry.sport).scoring === 'SETS' ? undefined : gradeTotals(entry.totalsLine, actual[0] + actual[1]),
+  };
+};
+
+export const ledgerService = {
+  getEntries: (): LedgerEntry[] => loadEntries(),
+
+  // Store an analysis; a newer unsettled prediction of the same kind (pre-match or in-play) for the
+  // same fixture replaces the old one, so an in-play analysis never overwrites the pre-match entry
+  record: (analysis: MatchAnalysis, homeTeam: string, awayTeam: string, league: string, sport: SportType, date: string): LedgerEntry => {
+    const entry: LedgerEntry = {
+      id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      homeTeam,
+      awayTeam,
+      league,
+      sport,
+      date,
+      createdAt: Date.now(),
+      isLive: !!analysis.liveState?.isLive,
+      scorePrediction: analysis.sections.scorePrediction,
+      totalsLine: analysis.sections.totalGoals,
+      winProbability: analysis.calibration?.raw || analysis.stats?.winProbability, // Stated, not recalibrated
+      odds: analysis.stats?.odds,
+      confidence: analysis.sections.confidence,
+    };
+
+    const key = fixtureKey(homeTeam, awayTeam, sport, date);
+    const entries = loadEntries().filter(e =>
+      e.settlement || e.isLive !== entry.isLive || fixtureKey(e.homeTeam, e.awayTeam, e.sport, e.date) !== key
+    );
+    entries.push(entry);
+    saveEntries(entries);
+    return entry;
+  },
+
+  // Grade open predictions against any FINISHED fixtures that carry a final score
+  settle: (fixtures: MatchFixture[], sport: SportType, date: string): LedgerEntry[] => {
+    const finals = new Map<string, string>();
+    fixtures.forEach(f => {
+      if (f.status === 'FINISHED' && f.score) {
+        finals.set(fixtureKey(f.home, f.away, f.sport || sport, date), f.score);
+      }
+    });
+    if (finals.size === 0) return [];
+
+    const settled: LedgerEntry[] = [];
+    const entries = loadEntries().map(entry => {
+      if (entry.settlement) return entry;
+      const finalScore = finals.get(fixtureKey(entry.homeTeam, entry.awayTeam, entry.sport, entry.date));
+      if (!finalScore) return entry;
+      const settlement = gradeEntry(entry, finalScore);
+      if (!settlement) return entry;
+      const updated = { ...entry, settlement };
+      settled.push(updated);
+      return updated;
+    });
+
+    if (settled.length > 0) saveEntries(entries);
+    return settled;
+  },
+
+  remove: (id: string) => {
+    saveEntries(loadEntries().filter(e => e.id !== id));
+  },
+
+  clear: () => {
+    localStorage.removeItem(userKey(LEDGER_KEY));
+  }
+};
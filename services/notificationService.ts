@@ -0,0 +1,73 @@
+import { FixtureStatus, WatchedFixture } from "../types";
+import { timeService } from "./timeService";
+
+// Local notifications shown through the service worker registration, so they
+// survive the tab being in the background and can carry actions
+export const ANALYZE_MESSAGE = 'ANALYZE_FIXTURE';
+const ICON_URL = 'https://cdn-icons-png.flaticon.com/512/2910/2910790.png'; // Same as manifest.json
+
+export interface AnalyzeRequest {
+  home: string;
+  away: string;
+  league: string;
+  sport: WatchedFixture['sport'];
+}
+
+const isSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+const analyzeRequestOf = (item: WatchedFixture): AnalyzeRequest => ({
+  home: item.fixture.home,
+  away: item.fixture.away,
+  league: item.fixture.league,
+  sport: item.sport,
+});
+
+const show = async (title: string, options: NotificationOptions & { actions?: { action: string; title: string }[] }) => {
+  if (!isSupported() || Notification.permission !== 'granted') return;
+  try {
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) {
+      await registration.showNotification(title, { icon: ICON_URL, ...options });
+    } else {
+      // No worker (e.g. dev server without one registered): actions are not available
+      new Notification(title, { icon: ICON_URL, ...options });
+    }
+  } catch (e) {
+    console.warn("Could not show notification", e);
+  }
+};
+
+const STATUS_TITLES: Record<Exclude<FixtureStatus, 'SCHEDULED'>, string> = {
+  LIVE: 'Kicked off',
+  FINISHED: 'Full time',
+};
+
+export const notificationService = {
+  isSupported,
+
+  permission: (): NotificationPermission => isSupported() ? Notification.permission : 'denied',
+
+  requestPermission: async (): Promise<NotificationPermission> => {
+    if (!isSupported()) return 'denied';
+    return Notification.requestPermission();
+  },
+
+  // Reminder before kickoff, with a shortcut to run the pre-match analysis
+  kickoffReminder: (item: WatchedFixture, minutesBefore: number, timeZone: string) => show(
+    `${item.fixture.home} vs ${item.fixture.away}`,
+    {
+      body: `Kicks off in ${minutesBefore} minutes (${item.kickoffAt !== undefined ? timeService.formatTime(item.kickoffAt, timeZone) : item.fixture.time}, ${item.fixture.league}). Run a pre-match analysis?`,
+      tag: `kickoff-${item.id}`,
+      data: { analyze: analyzeRequestOf(item) },
+      actions: [{ action: 'analyze', title: 'Analyze now' }],
+    }
+  ),
+
+  statusChange: (item: WatchedFixture, status: Exclude<FixtureStatus, 'SCHEDULED'>) => show(
+    `${STATUS_TITLES[status]}: ${item.fixture.home} vs ${item.fixture.away}`,
+    {
+      body: item.fixture.score ? `${item.fixture.score} · ${item.fixture.league}` : item.fixture.league,
+      tag: `status-${item.id}`,
+    }
+  ),
+};
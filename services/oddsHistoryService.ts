@@ -0,0 +1,130 @@
+import { MatchStats, SportType } from "../types";
+import { userKey } from "./userScope";
+import { teamRegistry } from "./teamRegistry";
+import { SPORT_IDS } from "./sportRegistry";
+
+// Timestamped odds snapshots per fixture, persisted in localStorage
+const HISTORY_KEY = 'matchoracle_odds_history';
+const MAX_SNAPSHOTS = 200; // Per fixture
+const MAX_FIXTURES = 100;
+const DUPLICATE_WINDOW_MS = 60 * 1000; // Identical prices inside this window are cache echoes
+
+// Steam = a price shortening sharply within a short window
+const STEAM_WINDOW_MS = 30 * 60 * 1000;
+const STEAM_DROP = 0.10; // 10% shorter price
+const STEAM_FRESHNESS_MS = 2 * 60 * 60 * 1000; // Ignore moves older than this
+
+// Fired on window whenever a snapshot is recorded
+export const ODDS_HISTORY_EVENT = 'matchoracle:odds-history';
+
+type Odds = NonNullable<MatchStats['odds']>;
+export type Selection = 'home' | 'draw' | 'away';
+
+export interface OddsSnapshot extends Odds {
+  timestamp: number;
+}
+
+export interface SteamMove {
+  selection: Selection;
+  from: number;
+  to: number;
+  dropPct: number;
+  at: number;
+}
+
+const PRICE_KEYS: Record<Selection, keyof Odds> = { home: 'homeWin', draw: 'draw', away: 'awayWin' };
+
+// Scoped by sport: basketball and soccer Real Madrid are different fixtures
+const fixtureKey = (home: string, away: string, sport: SportType) =>
+  `${sport}|${teamRegistry.keyOf(home, sport)}|${teamRegistry.keyOf(away, sport)}`;
+
+// Histories saved before keys carried a sport are "home|away"; the sport is taken from the
+// registry id when there is one ("basketball:..."), then from resolving the name, else soccer
+const legacySport = (part: string): SportType => {
+  const prefix = part.split(':')[0].toUpperCase();
+  if (part.includes(':') && SPORT_IDS.includes(prefix as SportType)) return prefix as SportType;
+  return teamRegistry.resolve(part)?.sport || 'SOCCER';
+};
+
+const migrate = (history: Record<string, OddsSnapshot[]>) => {
+  const legacy = Object.keys(history).filter(key => key.split('|').length === 2);
+  if (legacy.length === 0) return history;
+  const next = { ...history };
+  legacy.forEach(key => {
+    const [home, away] = key.split('|');
+    const sport = legacySport(home);
+    const name = (part: string) => part.includes(':') ? part : teamRegistry.keyOf(part, sport);
+    const target = `${sport}|${name(home)}|${name(away)}`;
+    next[target] = [...(next[target] || []), ...history[key]].sort((a, b) => a.timestamp - b.timestamp);
+    delete next[key];
+  });
+  saveHistory(next);
+  return next;
+};
+
+const loadHistory = (): Record<string, OddsSnapshot[]> => {
+  try {
+    const item = localStorage.getItem(userKey(HISTORY_KEY));
+    const history = item ? JSON.parse(item) : {};
+    return history && typeof history === 'object' && !Array.isArray(history) ? migrate(history) : {};
+  } catch (e) {
+    localStorage.removeItem(userKey(HISTORY_KEY));
+    return {};
+  }
+};
+
+const saveHistory = (history: Record<string, OddsSnapshot[]>) => {
+  // Keep the most recently updated fixtures
+  const keys = Object.keys(history)
+    .sort((a, b) => (history[b].at(-1)?.timestamp || 0) - (history[a].at(-1)?.timestamp || 0))
+    .slice(0, MAX_FIXTURES);
+  const trimmed = Object.fromEntries(keys.map(k => [k, history[k].slice(-MAX_SNAPSHOTS)]));
+  try {
+    localStorage.setItem(userKey(HISTORY_KEY), JSON.stringify(trimmed));
+  } catch (e) {
+    console.warn("Odds history storage full");
+  }
+};
+
+export const detectSteam = (snapshots: OddsSnapshot[]): SteamMove | null => {
+  const latest = snapshots.at(-1);
+  if (!latest || Date.now() - latest.timestamp > STEAM_FRESHNESS_MS) return null;
+  const recent = snapshots.filter(s => latest.timestamp - s.timestamp <= STEAM_WINDOW_MS);
+
+  let best: SteamMove | null = null;
+  for (const selection of Object.keys(PRICE_KEYS) as Selection[]) {
+    const key = PRICE_KEYS[selection];
+    const to = latest[key];
+    if (!(to > 1)) continue;
+    const from = Math.max(...recent.map(s => s[key]).filter(p => p > 1));
+    const dropPct = Math.round(((from - to) / from) * 1000) / 10;
+    if (dropPct >= STEAM_DROP * 100 && (!best || dropPct > best.dropPct)) {
+      best = { selection, from, to, dropPct, at: latest.timestamp };
+    }
+  }
+  return best;
+};
+
+export const oddsHistoryService = {
+  getHistory: (home: string, away: string, sport: SportType): OddsSnapshot[] =>
+    loadHistory()[fixtureKey(home, away, sport)] || [],
+
+  record: (home: string, away: string, sport: SportType, odds: Odds): OddsSnapshot[] => {
+    const history = loadHistory();
+    const key = fixtureKey(home, away, sport);
+    const snapshots = history[key] || [];
+    const last = snapshots.at(-1);
+    const now = Date.now();
+
+    const unchanged = last && last.homeWin === odds.homeWin && last.draw === odds.draw && last.awayWin === odds.awayWin;
+    if (unchanged && now - last.timestamp < DUPLICATE_WINDOW_MS) return snapshots;
+
+    history[key] = [...snapshots, { homeWin: odds.homeWin, draw: odds.draw, awayWin: odds.awayWin, timestamp: now }];
+    saveHistory(history);
+    window.dispatchEvent(new Event(ODDS_HISTORY_EVENT));
+    return history[key];
+  },
+
+  getSteamMove: (home: string, away: string, sport: SportType): SteamMove | null =>
+    detectSteam(oddsHistoryService.getHistory(home, away, sport)),
+};
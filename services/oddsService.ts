@@ -0,0 +1,122 @@
+// Odds formatting and bookmaker-margin removal
+
+export type OddsFormat = 'DECIMAL' | 'FRACTIONAL' | 'AMERICAN' | 'HONG_KONG';
+export type DevigMethod = 'PROPORTIONAL' | 'SHIN' | 'POWER';
+
+export const ODDS_FORMATS: { id: OddsFormat; label: string }[] = [
+  { id: 'DECIMAL', label: 'Decimal' },
+  { id: 'FRACTIONAL', label: 'Fractional' },
+  { id: 'AMERICAN', label: 'American' },
+  { id: 'HONG_KONG', label: 'Hong Kong' },
+];
+
+export const DEVIG_METHODS: { id: DevigMethod; label: string }[] = [
+  { id: 'PROPORTIONAL', label: 'Proportional' },
+  { id: 'SHIN', label: 'Shin' },
+  { id: 'POWER', label: 'Power' },
+];
+
+export interface MarketOdds {
+  homeWin: number;
+  draw: number; // 0 when the market has no draw
+  awayWin: number;
+}
+
+export interface FairMarket {
+  overround: number; // Percent, e.g. 5.2 for a 105.2% book
+  implied: { home: number; draw: number; away: number }; // Raw 1/odds, percent
+  fair: { home: number; draw: number; away: number }; // Margin removed, percent
+}
+
+// --- FORMATS ---
+const bestFraction = (value: number, maxDenominator = 20): [number, number] => {
+  let best: [number, number] = [Math.round(value), 1];
+  let bestErr = Math.abs(value - best[0]);
+  for (let q = 2; q <= maxDenominator; q++) {
+    const p = Math.round(value * q);
+    const err = Math.abs(value - p / q);
+    if (err < bestErr - 1e-9) {
+      best = [p, q];
+      bestErr = err;
+    }
+  }
+  return best;
+};
+
+export const formatOdds = (decimal: number, format: OddsFormat): string => {
+  if (!decimal || decimal <= 1) return '-';
+  switch (format) {
+    case 'FRACTIONAL': {
+      const [num, den] = bestFraction(decimal - 1);
+      return `${num}/${den}`;
+    }
+    case 'AMERICAN':
+      return decimal >= 2
+        ? `+${Math.round((decimal - 1) * 100)}`
+        : `${Math.round(-100 / (decimal - 1))}`;
+    case 'HONG_KONG':
+      return (decimal - 1).toFixed(2);
+    default:
+      return decimal.toFixed(2);
+  }
+};
+
+// --- MARGIN REMOVAL ---
+// Solves f(x) = 0 for increasing f on [lo, hi]
+const bisect = (f: (x: number) => number, lo: number, hi: number) => {
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (f(mid) > 0) hi = mid;
+    else lo = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+const proportional = (implied: number[]) => {
+  const book = implied.reduce((a, b) => a + b, 0);
+  return implied.map(p => p / book);
+};
+
+// Shin (1993): margin attributed to insider trading, shading longshots more
+const shin = (implied: number[]) => {
+  const book = implied.reduce((a, b) => a + b, 0);
+  if (book <= 1) return proportional(implied);
+  const probs = (z: number) => implied.map(p =>
+    (Math.sqrt(z * z + 4 * (1 - z) * (p * p) / book) - z) / (2 * (1 - z))
+  );
+  // Sum of probabilities falls as z grows
+  const z = bisect(z => 1 - probs(z).reduce((a, b) => a + b, 0), 0, 0.5);
+  return proportional(probs(z));
+};
+
+// Power: p_i = implied_i ^ k with k chosen so the book sums to 1
+const power = (implied: number[]) => {
+  const k = bisect(k => 1 - implied.reduce((acc, p) => acc + Math.pow(p, k), 0), 0.2, 10);
+  return proportional(implied.map(p => Math.pow(p, k)));
+};
+
+const toPercent = (n: number) => Math.round(n * 1000) / 10;
+
+export const removeMargin = (odds: MarketOdds, method: DevigMethod): FairMarket | null => {
+  if (!(odds.homeWin > 1) || !(odds.awayWin > 1)) return null;
+  const hasDraw = odds.draw > 1;
+  const implied = hasDraw
+    ? [1 / odds.homeWin, 1 / odds.draw, 1 / odds.awayWin]
+    : [1 / odds.homeWin, 1 / odds.awayWin];
+
+  const fair = method === 'SHIN' ? shin(implied) : method === 'POWER' ? power(implied) : proportional(implied);
+  const book = implied.reduce((a, b) => a + b, 0);
+  const toOutcomes = (values: number[]) => hasDraw
+    ? { home: toPercent(values[0]), draw: toPercent(values[1]), away: toPercent(values[2]) }
+    : { home: toPercent(values[0]), draw: 0, away: toPercent(values[1]) };
+
+  return {
+    overround: toPercent(book - 1),
+    implied: toOutcomes(implied),
+    fair: toOutcomes(fair),
+  };
+};
+
+// Edge in percentage points of a model probability over the fair market price
+export const calculateEdge = (modelProbability: number, fairProbability: number) =>
+  Math.round((modelProbability - fairProbability) * 10) / 10;
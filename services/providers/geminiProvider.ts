@@ -0,0 +1,372 @@
+import { GoogleGenAI, Modality, Schema } from "@google/genai";
+import { EuropeanArea, LeagueEntity, LeagueRegion, MatchAnalysis, MatchFixture, SportType } from "../../types";
+import { getSport } from "../sportRegistry";
+import { REGION_LABELS, leagueRegistry } from "../leagueRegistry";
+import { SCHEMAS, extractJson, logIssues, validateComparison, validateFixtures, validateLiveScore, validateMatchStats, validateOdds } from "../validationService";
+import { AnalysisRequest, ChatHistory, PredictionProvider } from "./types";
+
+// Helper to initialize AI lazily and safely
+const getAI = () => {
+  if (typeof process === 'undefined' || !process.env) {
+    throw new Error("Environment variables not accessible");
+  }
+  const apiKey = process.env.API_KEY || '';
+  return new GoogleGenAI({ apiKey });
+};
+
+// --- STRUCTURED OUTPUT ---
+// Search-grounded calls can't use responseSchema, so when a reply carries no parsable
+// JSON we ask the model once (ungrounded) to restate it under the schema.
+const restructure = async (ai: GoogleGenAI, text: string, schema: Schema): Promise<unknown> => {
+  if (!text.trim()) return undefined;
+  try {
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: `Convert the data in the following text to JSON. Use only values stated in the text.\n\n${text}`,
+      config: { responseMimeType: 'application/json', responseSchema: schema },
+    });
+    return JSON.parse(response.text || '');
+  } catch (e) {
+    return undefined;
+  }
+};
+
+const parseStructured = async (ai: GoogleGenAI, text: string, schema: Schema, kind: 'object' | 'array'): Promise<unknown> => {
+  return extractJson(text, kind) ?? await restructure(ai, text, schema);
+};
+
+// --- FIXTURE COVERAGE ---
+// League list for the fixture prompt, built from the league registry: Europe broken down by
+// area (top flights first, Western lower divisions on their own line), then the rest of the world.
+const AREA_LINES: { label: string; area: EuropeanArea; lower?: boolean }[] = [
+  { label: 'MAJOR WESTERN', area: 'WESTERN' },
+  { label: 'LOWER DIVISIONS (WESTERN)', area: 'WESTERN', lower: true },
+  { label: 'SCANDINAVIA/NORDICS', area: 'NORDIC' },
+  { label: 'CENTRAL EUROPE', area: 'CENTRAL' },
+  { label: 'EASTERN EUROPE', area: 'EASTERN' },
+  { label: 'BALKANS/SOUTH', area: 'BALKANS' },
+  { label: 'SOUTHERN EUROPE', area: 'SOUTHERN' },
+];
+
+const GLOBAL_REGIONS: LeagueRegion[] = ['INTERNATIONAL', 'ASIA', 'SOUTH_AMERICA', 'NORTH_AMERICA', 'AFRICA'];
+
+const fixtureCoverage = (sport: SportType, targetDate: string) => {
+  const leagues = leagueRegistry.list(sport).filter(l => leagueRegistry.inSeason(l, targetDate));
+  const names = (list: LeagueEntity[], withCountry: boolean) =>
+    list.map(l => withCountry && l.country !== 'International' ? `${l.name} (${l.country})` : l.name).join(', ');
+
+  const europe = AREA_LINES
+    .map(({ label, area, lower }) => {
+      const inArea = leagues.filter(l => l.region === 'EUROPE' && l.area === area);
+      // Western leagues are split by tier; elsewhere one line covers every tier
+      const list = area === 'WESTERN' ? inArea.filter(l => lower ? l.tier > 1 : l.tier === 1) : inArea;
+      return { label, list, withCountry: area !== 'WESTERN' };
+    })
+    .filter(line => line.list.length > 0)
+    .map((line, idx) => `${idx + 1}. ${line.label}: ${names(line.list, line.withCountry)}.`);
+
+  const global = GLOBAL_REGIONS
+    .map(region => ({ region, list: leagues.filter(l => l.region === region) }))
+    .filter(line => line.list.length > 0)
+    .map(({ region, list }) => `- ${REGION_LABELS[region].toUpperCase()}: ${names(list, false)}.`);
+
+  return [
+    ...(europe.length ? ['MANDATORY - COMPREHENSIVE EUROPEAN COVERAGE (PRIORITIZE THESE):', ...europe, ''] : []),
+    ...(global.length ? ['PLUS GLOBAL MIX:', ...global] : []),
+  ].join('\n      ');
+};
+
+export const geminiProvider: PredictionProvider = {
+  id: 'gemini',
+
+  fetchFixtures: async (sport: SportType, targetDate: string, timeZone: string): Promise<MatchFixture[]> => {
+    const ai = getAI();
+    const modelId = "gemini-2.5-flash";
+    
+    const prompt = getSport(sport).prompt.fixtures?.(targetDate, timeZone) ?? `
+      List 40-50 diverse ${sport} matches kicking off on ${targetDate} in the ${timeZone} timezone (local midnight to midnight there).
+      
+      ${fixtureCoverage(sport, targetDate)}
+
+      EXCLUDE: Cyber, Esports, Simulated.
+      FORMAT: JSON Array [{ "home": "A", "away": "B", "time": "HH:MM", "kickoff": "ISO 8601 with UTC offset, e.g. 2025-03-08T20:00:00+01:00", "league": "L", "status": "SCHEDULED" | "LIVE" | "FINISHED", "score": "X-Y" (LIVE/FINISHED only) }]
+      "time" is the kickoff in ${timeZone}; "kickoff" is the exact start instant and MUST include its offset.
+    `;
+
+    const response = await ai.models.generateContent({
+      model: modelId,
+      contents: prompt,
+      config: { tools: [{ googleSearch: {} }] },
+    });
+
+    const raw = await parseStructured(ai, response.text || "", SCHEMAS.fixtures, 'array');
+    const { data: result, issues } = validateFixtures(raw, sport);
+    logIssues('fixtures', issues);
+    if (!result || result.length === 0) throw new Error("No matches");
+    return result;
+  },
+
+  fetchLiveScore: async (homeTeam: string, awayTeam: string, sport: SportType) => {
+    const ai = getAI();
+    const prompt = `Find the current live score and game clock for the ${sport} match ${homeTeam} vs ${awayTeam}. Return ONLY strict JSON with the score as home-away: { "score": "1-0", "time": "67'", "status": "LIVE" } (status is SCHEDULED, LIVE or FINISHED)`;
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: prompt,
+      config: { tools: [{ googleSearch: {} }] },
+    });
+    const raw = await parseStructured(ai, response.text || "", SCHEMAS.liveScore, 'object');
+    const { data, issues } = validateLiveScore(raw);
+    logIssues('liveScore', issues);
+    return data;
+  },
+
+  fetchOdds: async (homeTeam: string, awayTeam: string, sport: SportType) => {
+    const ai = getAI();
+    // No-draw sports are priced as a two-way moneyline / match winner market
+    const market = getSport(sport).hasDraw
+      ? `the 1X2 market. Return ONLY strict JSON with decimal format: { "homeWin": 1.X, "draw": 3.X, "awayWin": 4.X }`
+      : `the two-way moneyline (match winner, no draw). Return ONLY strict JSON with decimal format and draw set to 0: { "homeWin": 1.X, "draw": 0, "awayWin": 2.X }`;
+    const prompt = `Find current decimal betting odds for the ${sport} match ${homeTeam} vs ${awayTeam} in ${market}`;
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: prompt,
+      config: { tools: [{ googleSearch: {} }] },
+    });
+    const raw = await parseStructured(ai, response.text || "", SCHEMAS.odds, 'object');
+    const { data, issues } = validateOdds(raw, sport);
+    logIssues('odds', issues);
+    return data;
+  },
+
+  fetchTeamDetails: async (homeTeam: string, awayTeam: string, sport: SportType) => {
+    const ai = getAI();
+    const prompt = `Stats for ${homeTeam} vs ${awayTeam} (${sport}). JSON: { "homeValue": "val", "awayValue": "val", "homePosition": "1st", "awayPosition": "2nd", "homeRating": 85, "awayRating": 80 }`;
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: prompt,
+      config: { tools: [{ googleSearch: {} }] },
+    });
+    const raw = await parseStructured(ai, response.text || "", SCHEMAS.comparison, 'object');
+    const { data, issues } = validateComparison(raw);
+    logIssues('comparison', issues);
+    return data;
+  },
+
+  analyzeMatch: async ({ homeTeam, awayTeam, league, liveState, sport, date, asOf }: AnalysisRequest): Promise<MatchAnalysis> => {
+    const ai = getAI();
+    const isLive = !!liveState;
+    const def = getSport(sport);
+    const { prompt: tpl } = def;
+    const outputTpl = tpl.sections.map(sec => `## ${sec.header}\n${sec.hint}`).join('\n');
+    const nextTpl = `## ${def.nextEventLabel}\n[${def.competitor}]`;
+
+    const prompt = `
+      Analyze ${sport}: ${homeTeam} vs ${awayTeam} ${league ? `(${league})` : ''}${date ? ` on ${date}` : ''}.
+      ${asOf ? `AS-OF CUTOFF ${asOf}: predict as if it were that moment. Use ONLY information from before it; ignore anything you know about the result, score or any post-match report.` : ''}
+      ${isLive ? `LIVE MATCH: Score ${liveState?.score} Time ${liveState?.time}. Focus: Momentum, ${def.nextEventLabel}.` : 'PRE-MATCH: Focus Form, H2H.'}
+      ${tpl.context}
+      
+      CONTEXT: 
+      - EUROPEAN REGIONAL FACTORS: 
+         * Scandinavia/Nordics: Synthetic pitches, cold weather impact.
+         * Balkans/Turkey: Hostile home crowds, high card counts, referee pressure.
+         * Eastern Europe: Physical play style, winter break rust (if relevant).
+         * Lower Leagues: Squad depth, reliance on key veterans, fixture congestion.
+      - GLOBAL SUPPORT: Supports ALL LEAGUES worldwide.
+      - If advanced stats (xG) are missing for lower leagues, rely on League Standings, Home/Away Records, and Recent Form.
+      
+      STRICTLY EXCLUDE CYBER/ESPORTS/SIMULATION. REAL MATCHES ONLY.
+      
+      OUTPUT FORMAT:
+      ## Score Prediction
+      ${tpl.scoreFormat}
+      ## Score Probability
+      [%]
+      ${outputTpl}
+      ## Weather
+      [Cond]
+      ## Referee
+      [Name]
+      ## Red Flags
+      [Warnings]
+      ## Confidence
+      [Lvl]
+      ## Summary
+      [Verdict]
+      ## Prediction Logic
+      [Steps]
+      ${isLive ? `## Live Analysis\n[Txt]\n${nextTpl}\n## Live Tip\n[Tip]` : ''}
+      ## Recent Form
+      [Txt]
+      ## Head-to-Head
+      [Txt]
+      ## Key Factors
+      [Txt]
+      
+      JSON DATA (At End):
+      \`\`\`json
+      {
+        "homeLast5Goals": [n,n,n,n,n], "awayLast5Goals": [n,n,n,n,n],
+        "possession": {"home":n,"away":n},
+        "winProbability": {"home":n,"draw":n,"away":n},
+        "odds": {"homeWin":n.n,"draw":n.n,"awayWin":n.n},
+        "comparison": {"homeValue":"s","awayValue":"s","homePosition":"s","awayPosition":"s","homeRating":n,"awayRating":n},
+        "keyPlayers": {"home":[{"name":"n","stat":"s"}],"away":[{"name":"n","stat":"s"}]},
+        "homeLogo":"url","awayLogo":"url"${tpl.statsFields ? `,\n        ${tpl.statsFields}` : ''}
+      }
+      \`\`\`
+      ${tpl.statsNotes || ''}
+    `;
+
+    // A search could turn up the final score, so as-of requests run ungrounded
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: prompt,
+      config: asOf ? {} : { tools: [{ googleSearch: {} }] },
+    });
+
+    const text = response.text || "";
+    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks as any[];
+    const rawStats = await parseStructured(ai, text, SCHEMAS.matchStats, 'object');
+    return parseResponse(text, groundingChunks, rawStats, sport);
+  },
+
+  getStadiumDetails: async (team: string) => {
+    const ai = getAI();
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: `Where is the home stadium for the soccer team ${team}? Return a short description of the stadium, capacity, and location.`,
+      config: { tools: [{ googleMaps: {} }] },
+    });
+    
+    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks as any[];
+    // We look for a chunk that has maps data with a URI.
+    const mapChunk = groundingChunks?.find((c: any) => c.maps?.uri);
+    
+    const mapLink = mapChunk?.maps?.uri ? {
+        uri: mapChunk.maps.uri,
+        title: mapChunk.maps.title || "View Location"
+    } : undefined;
+
+    return { text: response.text || "", mapLink };
+  },
+
+  synthesizeSpeech: async (text: string) => {
+    const ai = getAI();
+    const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash-preview-tts',
+        contents: { parts: [{ text: text.substring(0, 500) }] }, // Limit length for demo
+        config: {
+            responseModalities: [Modality.AUDIO],
+            speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } }
+        }
+    });
+    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  },
+
+  generateImage: async (prompt: string) => {
+    const ai = getAI();
+    const response = await ai.models.generateImages({
+        model: 'imagen-4.0-generate-001',
+        prompt: prompt,
+        config: { numberOfImages: 1, aspectRatio: '16:9' }
+    });
+    return response.generatedImages?.[0]?.image?.imageBytes;
+  },
+
+  generateVideo: async (prompt: string) => {
+    const ai = getAI();
+    // Simulating Veo call as it requires polling and download
+    // Note: Veo integration typically needs client-side polling, so the operation is returned for the UI to poll.
+    return ai.models.generateVideos({
+        model: 'veo-3.1-fast-generate-preview',
+        prompt: prompt,
+        config: {
+            numberOfVideos: 1,
+            resolution: '720p',
+            aspectRatio: '16:9'
+        }
+    });
+  },
+
+  sendChat: async (message: string, history: ChatHistory) => {
+    const ai = getAI();
+    const chat = ai.chats.create({
+        model: 'gemini-3-pro-preview',
+        history: history,
+    });
+    const result = await chat.sendMessage({ message });
+    return result.text || "";
+  },
+};
+
+// Sections a sport's prompt.sections fill, in order
+const STAT_SECTION_KEYS = ['totalGoals', 'corners', 'cards'] as const;
+
+const parseResponse = (text: string, groundingChunks: any[], rawStats: unknown, sport: SportType): MatchAnalysis => {
+  const sections: MatchAnalysis['sections'] = {
+    scorePrediction: '', scoreProbability: '', totalGoals: '', corners: '', cards: '',
+    weather: '', referee: '', redFlags: '', confidence: '', summary: '',
+    recentForm: '', headToHead: '', keyFactors: '', predictionLogic: '',
+    liveAnalysis: '', nextGoal: '', liveTip: ''
+  };
+  
+  // Validate JSON
+  const { data: stats, issues: validationIssues } = validateMatchStats(rawStats, sport);
+  logIssues('analysis', validationIssues);
+
+  // Extract Sections
+  const lines = text.replace(/```json[\s\S]*```/g, '').split('\n');
+  let currentSection = '';
+
+  // The sport's own stat headers, in the order the prompt asked for them
+  const def = getSport(sport);
+  const statHeaders = def.prompt.sections.map((sec, i) => ({ prefix: sec.header.toLowerCase(), key: STAT_SECTION_KEYS[i] }));
+  const nextHeader = def.nextEventLabel.toLowerCase();
+
+  const mapHeader = (line: string) => {
+    const l = line.toLowerCase().replace(/\*|#/g, '').trim();
+    if (l.startsWith('score prediction')) return 'scorePrediction';
+    if (l.startsWith('score probability')) return 'scoreProbability';
+    const stat = statHeaders.find(h => l.startsWith(h.prefix));
+    if (stat) return stat.key;
+    if (l.startsWith('total goals')) return 'totalGoals';
+    if (l.startsWith('key stat') && !l.includes('2')) return 'corners';
+    if (l.startsWith('key stat 2')) return 'cards';
+    if (l.startsWith('weather')) return 'weather';
+    if (l.startsWith('referee')) return 'referee';
+    if (l.startsWith('red flags')) return 'redFlags';
+    if (l.startsWith('confidence')) return 'confidence';
+    if (l.startsWith('summary')) return 'summary';
+    if (l.startsWith('recent form')) return 'recentForm';
+    if (l.startsWith('head-to-head')) return 'headToHead';
+    if (l.startsWith('key factors')) return 'keyFactors';
+    if (l.startsWith('prediction logic')) return 'predictionLogic';
+    if (l.startsWith('live analysis')) return 'liveAnalysis';
+    if (l.startsWith('next goal') || l.startsWith(nextHeader)) return 'nextGoal';
+    if (l.startsWith('live tip')) return 'liveTip';
+    return null;
+  };
+
+  lines.forEach(line => {
+    const header = mapHeader(line);
+    if (header) {
+        currentSection = header;
+    } else if (currentSection && line.trim()) {
+        sections[currentSection as keyof typeof sections] += line.trim() + '\n';
+    }
+  });
+
+  // Fallback Score Regex
+  if (!sections.scorePrediction) {
+      const score = text.match(/\b\d+\s*-\s*\d+\b/);
+      if (score) sections.scorePrediction = score[0];
+  }
+
+  // Cleanup
+  Object.keys(sections).forEach(k => {
+      sections[k as keyof typeof sections] = sections[k as keyof typeof sections]?.trim();
+  });
+
+  return { rawText: text, groundingChunks, sections, stats, validationIssues };
+};
@@ -0,0 +1,61 @@
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+import { analysisParts, exportRecordings, recordingKey, saveRecording } from "./recordings";
+import { PredictionProvider, ProviderId } from "./types";
+
+export type { AnalysisRequest, ChatHistory, PredictionProvider, ProviderId, StadiumInfo } from "./types";
+
+const PROVIDERS: Record<ProviderId, PredictionProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+// Wraps a live provider so every text/JSON response is captured for later replay
+const withRecorder = (inner: PredictionProvider): PredictionProvider => {
+  const record = <T>(key: string, promise: Promise<T>) => promise.then(result => {
+    saveRecording(key, result);
+    return result;
+  });
+
+  return {
+    ...inner,
+    fetchFixtures: (sport, date, timeZone) => record(recordingKey('fixtures', sport, date), inner.fetchFixtures(sport, date, timeZone)),
+    analyzeMatch: (req) => record(recordingKey('analysis', ...analysisParts(req)), inner.analyzeMatch(req)),
+    fetchLiveScore: (home, away, sport) => record(recordingKey('livescore', sport, home, away), inner.fetchLiveScore(home, away, sport)),
+    fetchOdds: (home, away, sport) => record(recordingKey('odds', sport, home, away), inner.fetchOdds(home, away, sport)),
+    fetchTeamDetails: (home, away, sport) => record(recordingKey('details', sport, home, away), inner.fetchTeamDetails(home, away, sport)),
+    getStadiumDetails: (team) => record(recordingKey('stadium', team), inner.getStadiumDetails(team)),
+    sendChat: (message, history) => record(recordingKey('chat', message), inner.sendChat(message, history)),
+    synthesizeSpeech: (text) => record(recordingKey('speech', text), inner.synthesizeSpeech(text)),
+    generateImage: (prompt) => record(recordingKey('image', prompt), inner.generateImage(prompt)),
+  };
+};
+
+declare global {
+  interface Window {
+    exportOracleRecordings?: () => void;
+  }
+}
+
+// Vite's define only substitutes the literal process.env.X expressions, so each is read in full
+const readConfig = () => {
+  const id = (process.env.ORACLE_PROVIDER || 'gemini').toLowerCase() as ProviderId;
+  return { id: id in PROVIDERS ? id : 'gemini', record: process.env.ORACLE_RECORD === 'true' };
+};
+
+export const resolveProvider = (id: ProviderId): PredictionProvider => PROVIDERS[id];
+
+let activeProvider: PredictionProvider | null = null;
+
+export const getProvider = (): PredictionProvider => {
+  if (activeProvider) return activeProvider;
+
+  const config = readConfig();
+  activeProvider = PROVIDERS[config.id];
+  if (config.record && config.id !== 'mock') {
+    activeProvider = withRecorder(activeProvider);
+    window.exportOracleRecordings = exportRecordings;
+    console.info("Recording provider responses. Run exportOracleRecordings() to download them into /recordings.");
+  }
+  return activeProvider;
+};
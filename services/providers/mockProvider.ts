@@ -0,0 +1,54 @@
+import { LiveScore, MatchAnalysis, MatchFixture, SportType } from "../../types";
+import { ComparisonPayload, OddsPayload } from "../validationService";
+import { analysisParts, findRecording } from "./recordings";
+import { AnalysisRequest, ChatHistory, PredictionProvider, StadiumInfo } from "./types";
+
+// Deterministic offline provider that replays responses recorded under /recordings
+const MOCK_LATENCY_MS = 400;
+
+const replay = async <T>(method: string, parts: string[], vars: Record<string, string> = {}): Promise<T | undefined> => {
+  // Simulate network delay so loading states stay visible
+  await new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+  return findRecording<T>(method, parts, vars);
+};
+
+export const mockProvider: PredictionProvider = {
+  id: 'mock',
+
+  fetchFixtures: async (sport: SportType, date: string) => {
+    const fixtures = await replay<MatchFixture[]>('fixtures', [sport, date], { date });
+    if (!fixtures || fixtures.length === 0) throw new Error("No matches");
+    return fixtures.map(f => ({ ...f, sport }));
+  },
+
+  analyzeMatch: async (request: AnalysisRequest) => {
+    const { homeTeam, awayTeam, league, liveState, sport } = request;
+    const analysis = await replay<MatchAnalysis>('analysis', analysisParts(request), {
+      home: homeTeam, away: awayTeam, league: league || '', sport,
+    });
+    if (!analysis) throw new Error(`No recorded analysis for ${homeTeam} vs ${awayTeam}`);
+    return {
+      ...analysis,
+      liveState: liveState ? { isLive: true, currentScore: liveState.score, matchTime: liveState.time } : undefined,
+    };
+  },
+
+  fetchLiveScore: (homeTeam: string, awayTeam: string, sport: SportType) =>
+    replay<LiveScore>('livescore', [sport, homeTeam, awayTeam]),
+
+  fetchOdds: (homeTeam: string, awayTeam: string, sport: SportType) =>
+    replay<OddsPayload>('odds', [sport, homeTeam, awayTeam]),
+
+  fetchTeamDetails: (homeTeam: string, awayTeam: string, sport: SportType) =>
+    replay<ComparisonPayload>('details', [sport, homeTeam, awayTeam], { home: homeTeam, away: awayTeam }),
+
+  getStadiumDetails: async (team: string) =>
+    (await replay<StadiumInfo>('stadium', [team], { team })) || null,
+
+  sendChat: async (message: string, history: ChatHistory) =>
+    (await replay<string>('chat', [message], { message })) || "Offline demo mode: no recorded reply for that question.",
+
+  synthesizeSpeech: (text: string) => replay<string>('speech', [text]),
+
+  generateImage: (prompt: string) => replay<string>('image', [prompt]),
+};
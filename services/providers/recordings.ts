@@ -0,0 +1,83 @@
+/// <reference types="vite/client" />
+import { AnalysisRequest } from "./types";
+
+// Recorded provider responses, keyed by "<method>:<arg>:<arg>..." (lower-cased).
+// Files in /recordings are split into their own chunks and only fetched on the first replay,
+// so they stay out of the main bundle unless the mock provider runs. A key may end in "*" to
+// act as the default for everything under that prefix, and string values may contain
+// {{placeholders}} that are filled from the request.
+export type RecordingMap = Record<string, unknown>;
+
+const RECORDER_KEY = 'matchoracle_recordings';
+
+const files = import.meta.glob<RecordingMap>('../../recordings/*.json', { import: 'default' });
+
+let recordings: Promise<RecordingMap> | null = null;
+
+const loadRecordings = (): Promise<RecordingMap> => {
+  if (!recordings) {
+    recordings = Promise.all(Object.keys(files).sort().map(path => files[path]()))
+      .then(maps => maps.reduce((acc, map) => ({ ...acc, ...map }), {} as RecordingMap));
+  }
+  return recordings;
+};
+
+const normalize = (part: string) => part.toLowerCase().replace(/\s+/g, ' ').trim();
+
+export const recordingKey = (method: string, ...parts: string[]) =>
+  [method, ...parts.map(normalize)].join(':');
+
+// Pre-match, in-play and as-of (backtest) answers for the same fixture are kept apart,
+// and a dated request gets its own entry: "analysis:soccer:pre:arsenal:chelsea:2025-03-08"
+export const analysisParts = ({ sport, homeTeam, awayTeam, liveState, date, asOf }: AnalysisRequest): string[] =>
+  [sport, liveState ? 'live' : asOf ? 'asof' : 'pre', homeTeam, awayTeam, ...(date ? [date] : [])];
+
+const fillTemplate = (value: unknown, vars: Record<string, string>): unknown => {
+  if (typeof value === 'string') return value.replace(/\{\{(\w+)\}\}/g, (m, name) => vars[name] ?? m);
+  if (Array.isArray(value)) return value.map(v => fillTemplate(v, vars));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, fillTemplate(v, vars)]));
+  }
+  return value;
+};
+
+// Exact key first, then each shorter prefix with a wildcard
+export const findRecording = async <T>(method: string, parts: string[], vars: Record<string, string> = {}): Promise<T | undefined> => {
+  const recordings = await loadRecordings();
+  for (let n = parts.length; n >= 0; n--) {
+    const key = n === parts.length ? recordingKey(method, ...parts) : recordingKey(method, ...parts.slice(0, n), '*');
+    if (key in recordings) return fillTemplate(recordings[key], vars) as T;
+  }
+  return undefined;
+};
+
+// --- RECORDER (live provider -> localStorage -> exported file) ---
+const loadRecorded = (): RecordingMap => {
+  try {
+    return JSON.parse(localStorage.getItem(RECORDER_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+export const saveRecording = (key: string, response: unknown) => {
+  if (response === undefined) return;
+  try {
+    localStorage.setItem(RECORDER_KEY, JSON.stringify({ ...loadRecorded(), [key]: response }));
+  } catch (e) {
+    console.warn("Recording storage full");
+  }
+};
+
+export const exportRecordings = () => {
+  const blob = new Blob([JSON.stringify(loadRecorded(), null, 2)], { type: 'application/json' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `recording-${new Date().toISOString().split('T')[0]}.json`;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+export const clearRecordings = () => {
+  localStorage.removeItem(RECORDER_KEY);
+};
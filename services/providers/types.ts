@@ -0,0 +1,37 @@
+import { LiveScore, MatchAnalysis, MatchFixture, SportType } from "../../types";
+import { ComparisonPayload, OddsPayload } from "../validationService";
+
+export type ProviderId = 'gemini' | 'mock';
+
+export type ChatHistory = { role: string; parts: { text: string }[] }[];
+
+export interface StadiumInfo {
+  text: string;
+  mapLink?: { uri: string; title: string };
+}
+
+export interface AnalysisRequest {
+  homeTeam: string;
+  awayTeam: string;
+  league?: string;
+  liveState?: { score: string; time: string };
+  sport: SportType;
+  date?: string; // Fixture date (YYYY-MM-DD), when known
+  asOf?: string; // ISO timestamp; backtests ask for a prediction using nothing published after it, with search disabled
+}
+
+// Everything the app asks of a prediction backend. Providers return validated domain
+// objects and throw on transport errors; caching and fallbacks live in geminiService.
+export interface PredictionProvider {
+  id: ProviderId;
+  fetchFixtures(sport: SportType, date: string, timeZone: string): Promise<MatchFixture[]>; // date is a calendar day in timeZone
+  analyzeMatch(request: AnalysisRequest): Promise<MatchAnalysis>;
+  fetchLiveScore(homeTeam: string, awayTeam: string, sport: SportType): Promise<LiveScore | undefined>;
+  fetchOdds(homeTeam: string, awayTeam: string, sport: SportType): Promise<OddsPayload | undefined>;
+  fetchTeamDetails(homeTeam: string, awayTeam: string, sport: SportType): Promise<ComparisonPayload | undefined>;
+  getStadiumDetails(team: string): Promise<StadiumInfo | null>;
+  sendChat(message: string, history: ChatHistory): Promise<string>;
+  synthesizeSpeech(text: string): Promise<string | undefined>; // Base64 16-bit PCM, 24kHz mono
+  generateImage(prompt: string): Promise<string | undefined>; // Base64 JPEG
+  generateVideo?(prompt: string): Promise<unknown>;
+}
@@ -0,0 +1,124 @@
+// Central queue for model API calls: caps concurrency, runs user-initiated work
+// before background polling, retries rate-limited calls with backoff, and shares
+// one promise between identical requests that are already queued or running.
+export type RequestPriority = 'HIGH' | 'NORMAL' | 'LOW';
+
+const MAX_CONCURRENT = 2;
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30 * 1000;
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { HIGH: 0, NORMAL: 1, LOW: 2 };
+
+interface ScheduleOptions {
+  key?: string; // Identical keys share one in-flight request; omit for calls that must not be merged
+  priority?: RequestPriority;
+  retries?: number;
+}
+
+interface Task {
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+  priority: RequestPriority;
+  retries: number;
+  attempt: number;
+  seq: number; // FIFO within a priority; kept across retries so a retried task is not sent to the back
+}
+
+export const isRateLimitError = (error: any) =>
+  error?.message?.includes('429') || error?.status === 429 || error?.message?.includes('quota') || error?.message?.includes('RESOURCE_EXHAUSTED');
+
+const isRetryable = (error: any) =>
+  isRateLimitError(error) || error?.status === 503 || error?.message?.includes('UNAVAILABLE');
+
+// Server-suggested wait, from a Retry-After header or the API's RetryInfo ("retryDelay": "12s")
+const retryAfterMs = (error: any): number | undefined => {
+  const header = error?.headers?.get?.('retry-after') ?? error?.retryAfter;
+  if (header !== undefined && header !== null && !isNaN(Number(header))) return Number(header) * 1000;
+  const match = String(error?.message || '').match(/retry(?:Delay|[\s-]after)?["'\s:]*"?(\d+(?:\.\d+)?)s/i);
+  return match ? parseFloat(match[1]) * 1000 : undefined;
+};
+
+// Exponential backoff with jitter in [50%, 100%] of the step
+const backoffMs = (attempt: number) => {
+  const step = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return step / 2 + Math.random() * step / 2;
+};
+
+const queue: Task[] = [];
+const inFlight = new Map<string, Promise<unknown>>();
+let active = 0;
+let seq = 0;
+let pausedUntil = 0; // A rate-limit response holds back every queued call, not just the one that hit it
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+const nextTask = (): Task | undefined => {
+  if (queue.length === 0) return undefined;
+  let best = 0;
+  for (let i = 1; i < queue.length; i++) {
+    const a = queue[i], b = queue[best];
+    if (PRIORITY_RANK[a.priority] < PRIORITY_RANK[b.priority] || (a.priority === b.priority && a.seq < b.seq)) best = i;
+  }
+  return queue.splice(best, 1)[0];
+};
+
+const pump = () => {
+  const wait = pausedUntil - Date.now();
+  if (wait > 0) {
+    if (!wakeTimer) {
+      wakeTimer = setTimeout(() => {
+        wakeTimer = null;
+        pump();
+      }, wait);
+    }
+    return;
+  }
+
+  while (active < MAX_CONCURRENT) {
+    const task = nextTask();
+    if (!task) return;
+    runTask(task);
+  }
+};
+
+const runTask = async (task: Task) => {
+  active++;
+  try {
+    task.resolve(await task.run());
+  } catch (error) {
+    if (isRetryable(error) && task.attempt < task.retries) {
+      const delay = retryAfterMs(error) ?? backoffMs(task.attempt);
+      console.warn(`Rate limited, retrying in ${Math.round(delay / 1000)}s (attempt ${task.attempt + 1}/${task.retries})`);
+      pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+      queue.push({ ...task, attempt: task.attempt + 1 });
+    } else {
+      task.reject(error);
+    }
+  } finally {
+    active--;
+    pump();
+  }
+};
+
+export const requestScheduler = {
+  schedule: <T>(run: () => Promise<T>, { key, priority = 'NORMAL', retries = MAX_RETRIES }: ScheduleOptions = {}): Promise<T> => {
+    if (key && inFlight.has(key)) return inFlight.get(key) as Promise<T>;
+
+    const promise = new Promise<T>((resolve, reject) => {
+      queue.push({ run, resolve: resolve as (value: unknown) => void, reject, priority, retries, attempt: 0, seq: seq++ });
+    });
+
+    if (key) {
+      inFlight.set(key, promise);
+      const release = () => { inFlight.delete(key); };
+      promise.then(release, release);
+    }
+
+    pump();
+    return promise;
+  },
+
+  // Queue depth and cool-down, for diagnostics
+  status: () => ({ queued: queue.length, active, pausedForMs: Math.max(0, pausedUntil - Date.now()) }),
+};
@@ -0,0 +1,46 @@
+import { CalibrationMethod } from "../types";
+import { DevigMethod, OddsFormat } from "./oddsService";
+import { userKey } from "./userScope";
+
+// User preferences persisted in localStorage
+const SETTINGS_KEY = 'matchoracle_settings';
+
+export interface UserSettings {
+  oddsFormat: OddsFormat;
+  devigMethod: DevigMethod;
+  calibration: CalibrationMethod | 'OFF'; // Recalibrate new predictions against the ledger
+  reminderMinutes: number; // Watchlist kickoff reminder lead time
+  liveRefreshMinutes: number; // In-play re-analysis interval when the score has not changed
+  timeZone: string; // IANA zone for kickoff times and day boundaries; empty follows the browser
+}
+
+const DEFAULT_SETTINGS: UserSettings = {
+  oddsFormat: 'DECIMAL',
+  devigMethod: 'PROPORTIONAL',
+  calibration: 'OFF',
+  reminderMinutes: 30,
+  liveRefreshMinutes: 10,
+  timeZone: '',
+};
+
+export const settingsService = {
+  get: (): UserSettings => {
+    try {
+      const item = localStorage.getItem(userKey(SETTINGS_KEY));
+      return { ...DEFAULT_SETTINGS, ...(item ? JSON.parse(item) : {}) };
+    } catch (e) {
+      localStorage.removeItem(userKey(SETTINGS_KEY));
+      return DEFAULT_SETTINGS;
+    }
+  },
+
+  update: (changes: Partial<UserSettings>): UserSettings => {
+    const next = { ...settingsService.get(), ...changes };
+    try {
+      localStorage.setItem(userKey(SETTINGS_KEY), JSON.stringify(next));
+    } catch (e) {
+      console.warn("Settings storage full");
+    }
+    return next;
+  }
+};
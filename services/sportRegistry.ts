@@ -0,0 +1,261 @@
+import { Activity, CircleDot, Dribbble, Flag, Goal, GripHorizontal, Hand, LucideIcon, Snowflake, StickyNote, Timer, Zap } from "lucide-react";
+import { MatchFixture, SportType } from "../types";
+import { leagueRegistry } from "./leagueRegistry";
+
+// One declarative entry per sport. Everything sport-specific in the app (labels, icons,
+// prompts, markets, chart scaling, fallback fixtures) reads from here, so adding a sport
+// means adding its id to SportType and its definition below.
+
+// How the final score counts: goals/points settle a totals line, sets do not
+export type ScoringUnit = 'GOALS' | 'POINTS' | 'SETS';
+
+interface StatSlot {
+  label: string;
+  icon: LucideIcon;
+}
+
+interface InputField {
+  label: string;
+  placeholder: string;
+}
+
+// A "## Header" block the analysis prompt asks for, with the hint shown under it
+interface PromptSection {
+  header: string;
+  hint: string;
+}
+
+type FallbackFixture = Pick<MatchFixture, 'home' | 'away' | 'league' | 'surface' | 'round'>;
+
+export interface SportDefinition {
+  id: SportType;
+  label: string;
+  icon: LucideIcon;
+  emoji: string; // Used in shared text
+  scoring: ScoringUnit;
+  hasDraw: boolean;
+  competitor: 'Team' | 'Player';
+  sides: { home: string; away: string }; // Shown under each name on the analysis card and in the odds grid
+  input: { home: InputField; away: InputField; competition: InputField };
+  // Primary / secondary / tertiary stat cards, filled from sections.totalGoals / corners / cards
+  stats: { main: StatSlot; sec: StatSlot; ter: StatSlot };
+  possessionLabel: string;
+  nextEventLabel: string; // In-play "what happens next" call, e.g. "Next Goal"
+  markets: {
+    correctScoreLabel: string;
+    totalsUnit?: string; // Appended to totals picks, e.g. "Over 22.5 Games"
+  };
+  chart: {
+    caption: string; // Form chart series, e.g. "Goals Scored"
+    floor: number; // Minimum top of the y-axis
+    zeroBased: boolean; // False for high-scoring sports, where the axis starts near the lowest value
+  };
+  prompt: {
+    context: string;
+    scoreFormat: string;
+    sections: PromptSection[]; // Up to three, filling totalGoals, corners, cards in order
+    statsFields?: string; // Extra keys for the JSON data block
+    statsNotes?: string; // How to fill the JSON data block when it differs from goals-based sports
+    fixtures?: (date: string, timeZone: string) => string; // Replaces the default fixture list prompt
+  };
+  fallbackFixtures: FallbackFixture[];
+}
+
+const TEAM_SIDES = { home: 'Home', away: 'Away' };
+
+const teamInput = (home: string, away: string, competition: string): SportDefinition['input'] => ({
+  home: { label: 'Home Team', placeholder: home },
+  away: { label: 'Away Team', placeholder: away },
+  competition: { label: 'League (Optional)', placeholder: competition },
+});
+
+export const SPORTS: Record<SportType, SportDefinition> = {
+  SOCCER: {
+    id: 'SOCCER',
+    label: 'Soccer',
+    icon: Activity,
+    emoji: '⚽',
+    scoring: 'GOALS',
+    hasDraw: true,
+    competitor: 'Team',
+    sides: TEAM_SIDES,
+    input: teamInput('e.g. Man City, Real Madrid...', 'e.g. Liverpool, Chelsea...', 'e.g. Premier League'),
+    stats: {
+      main: { label: 'Total Goals', icon: Goal },
+      sec: { label: 'Corners', icon: Flag },
+      ter: { label: 'Cards', icon: StickyNote },
+    },
+    possessionLabel: 'Possession',
+    nextEventLabel: 'Next Goal',
+    markets: { correctScoreLabel: 'Correct Score' },
+    chart: { caption: 'Goals Scored', floor: 3, zeroBased: true },
+    prompt: {
+      context: 'Stats: Goals, Corners, Cards. Context: Weather, Referees, Global Leagues (Europe, Asia, Africa, SA).',
+      scoreFormat: '[X-Y]',
+      sections: [{ header: 'Total Goals', hint: '[O/U]' }, { header: 'Corners', hint: '[Count]' }, { header: 'Cards', hint: '[Count]' }],
+    },
+    fallbackFixtures: [
+      { home: "Man City", away: "Arsenal", league: "Premier League" },
+      { home: "Real Madrid", away: "Barcelona", league: "La Liga" },
+      { home: "Bayern Munich", away: "Dortmund", league: "Bundesliga" },
+      { home: "Inter Milan", away: "Juventus", league: "Serie A" },
+      { home: "Ajax", away: "Feyenoord", league: "Eredivisie" },
+      { home: "Benfica", away: "Porto", league: "Primeira Liga" },
+      { home: "Galatasaray", away: "Fenerbahce", league: "Süper Lig" },
+      { home: "Copenhagen", away: "Brondby", league: "Superliga" },
+      { home: "Olympiacos", away: "PAOK", league: "Super League Greece" },
+      { home: "Legia Warsaw", away: "Lech Poznan", league: "Ekstraklasa" },
+      { home: "Leeds United", away: "Leicester", league: "Championship" },
+      { home: "Dinamo Zagreb", away: "Hajduk Split", league: "HNL" },
+    ],
+  },
+
+  BASKETBALL: {
+    id: 'BASKETBALL',
+    label: 'Basketball',
+    icon: Dribbble,
+    emoji: '🏀',
+    scoring: 'POINTS',
+    hasDraw: false,
+    competitor: 'Team',
+    sides: TEAM_SIDES,
+    input: teamInput('e.g. Lakers, Real Madrid Baloncesto...', 'Away Team Name...', 'e.g. NBA, EuroLeague'),
+    stats: {
+      main: { label: 'Total Points', icon: Dribbble },
+      sec: { label: 'Rebounds', icon: Activity },
+      ter: { label: 'Turnovers', icon: GripHorizontal },
+    },
+    possessionLabel: 'Win % Trend',
+    nextEventLabel: 'Next Goal',
+    markets: { correctScoreLabel: 'Correct Score' },
+    chart: { caption: 'Points Scored', floor: 120, zeroBased: false },
+    prompt: {
+      context: 'Stats: Points, Rebounds. Factors: Load Management.',
+      scoreFormat: '[X-Y]',
+      sections: [{ header: 'Total Points', hint: '[Over/Under]' }, { header: 'Key Stat', hint: '[Rebounds]' }],
+    },
+    fallbackFixtures: [
+      { home: "Lakers", away: "Warriors", league: "NBA" },
+      { home: "Celtics", away: "Heat", league: "NBA" },
+      { home: "Real Madrid", away: "Barcelona", league: "EuroLeague" },
+    ],
+  },
+
+  HOCKEY: {
+    id: 'HOCKEY',
+    label: 'Hockey',
+    icon: Snowflake,
+    emoji: '🏒',
+    scoring: 'GOALS',
+    hasDraw: true,
+    competitor: 'Team',
+    sides: TEAM_SIDES,
+    input: teamInput('e.g. NY Rangers, PSG Handball...', 'Away Team Name...', 'e.g. NHL, KHL'),
+    stats: {
+      main: { label: 'Total Goals', icon: Goal },
+      sec: { label: 'Shots', icon: Snowflake },
+      ter: { label: 'Penalties', icon: StickyNote },
+    },
+    possessionLabel: 'Win % Trend',
+    nextEventLabel: 'Next Goal',
+    markets: { correctScoreLabel: 'Correct Score' },
+    chart: { caption: 'Goals Scored', floor: 3, zeroBased: true },
+    prompt: {
+      context: 'Stats: Goals, SOG. Factors: Goalies.',
+      scoreFormat: '[X-Y]',
+      sections: [{ header: 'Total Goals', hint: '[Over/Under]' }, { header: 'Key Stat', hint: '[SOG]' }],
+    },
+    fallbackFixtures: [
+      { home: "Maple Leafs", away: "Canadiens", league: "NHL" },
+      { home: "Bruins", away: "Rangers", league: "NHL" },
+    ],
+  },
+
+  HANDBALL: {
+    id: 'HANDBALL',
+    label: 'Handball',
+    icon: Hand,
+    emoji: '🤾',
+    scoring: 'GOALS',
+    hasDraw: true,
+    competitor: 'Team',
+    sides: TEAM_SIDES,
+    input: teamInput('e.g. NY Rangers, PSG Handball...', 'Away Team Name...', 'e.g. Premier League'),
+    stats: {
+      main: { label: 'Total Goals', icon: Goal },
+      sec: { label: '7m Throws', icon: Hand },
+      ter: { label: 'Suspensions', icon: StickyNote },
+    },
+    possessionLabel: 'Win % Trend',
+    nextEventLabel: 'Next Goal',
+    markets: { correctScoreLabel: 'Correct Score' },
+    chart: { caption: 'Goals Scored', floor: 3, zeroBased: true },
+    prompt: {
+      context: 'Stats: Goals. Factors: Pace.',
+      scoreFormat: '[X-Y]',
+      sections: [{ header: 'Total Goals', hint: '[Over/Under]' }, { header: 'Key Stat', hint: '[7m]' }],
+    },
+    fallbackFixtures: [
+      { home: "PSG Handball", away: "Kiel", league: "Champions League" },
+      { home: "Barcelona", away: "Veszprém", league: "Champions League" },
+    ],
+  },
+
+  TENNIS: {
+    id: 'TENNIS',
+    label: 'Tennis',
+    icon: CircleDot,
+    emoji: '🎾',
+    scoring: 'SETS',
+    hasDraw: false,
+    competitor: 'Player',
+    sides: { home: 'Player 1', away: 'Player 2' },
+    input: {
+      home: { label: 'Player 1', placeholder: 'e.g. Jannik Sinner, Iga Swiatek...' },
+      away: { label: 'Player 2', placeholder: 'e.g. Carlos Alcaraz, Coco Gauff...' },
+      competition: { label: 'Tournament (Optional)', placeholder: 'e.g. Wimbledon, ATP Madrid' },
+    },
+    stats: {
+      main: { label: 'Total Games', icon: CircleDot },
+      sec: { label: 'Tiebreak', icon: Timer },
+      ter: { label: 'Aces', icon: Zap },
+    },
+    possessionLabel: 'Service Points Won',
+    nextEventLabel: 'Next Set',
+    markets: { correctScoreLabel: 'Set Betting', totalsUnit: 'Games' },
+    chart: { caption: 'Sets Won', floor: 3, zeroBased: true },
+    prompt: {
+      context: 'Player vs player, NO DRAW. Best of 5 sets in men\'s Grand Slam singles, otherwise best of 3. Stats: Games, Tiebreaks, Aces, Serve/Return points won. Factors: Surface, fatigue from earlier rounds, H2H on this surface.',
+      scoreFormat: '[Sets X-Y, e.g. 2-0, 2-1, or 3-1 in best of 5]',
+      sections: [
+        { header: 'Total Games', hint: '[Over/Under]' },
+        { header: 'Tiebreak', hint: '[% chance of at least one]' },
+        { header: 'Aces', hint: '[Count]' },
+      ],
+      statsFields: '"surface":"HARD|CLAY|GRASS|INDOOR","tiebreakProbability":n',
+      statsNotes: 'TENNIS JSON: homeLast5Goals/awayLast5Goals = sets won in each player\'s last 5 matches ON THIS SURFACE; possession = share of service points won; winProbability.draw and odds.draw = 0; tiebreakProbability = % chance of at least one tiebreak.',
+      fixtures: (date, timeZone) => `
+      List 30-40 professional singles tennis matches starting on ${date} in the ${timeZone} timezone (local midnight to midnight there).
+
+      COVER: Grand Slams, ATP and WTA Tour events (Masters 1000 / 500 / 250), ATP Challenger and WTA 125.
+      "home" and "away" are the two players. "league" MUST be written exactly as one of these (so it can be classified):
+      ${leagueRegistry.list('TENNIS').flatMap(l => [l.name, ...l.aliases]).join(', ')}.
+      Use the Grand Slam or "ATP <City>" / "WTA <City>" name where one fits, otherwise the tournament's category.
+
+      EXCLUDE: Cyber, Esports, Simulated, Doubles.
+      FORMAT: JSON Array [{ "home": "Player A", "away": "Player B", "time": "HH:MM" in ${timeZone}, "kickoff": "ISO 8601 with UTC offset", "league": "Tournament", "surface": "HARD" | "CLAY" | "GRASS" | "INDOOR", "round": "R64" | "R32" | "R16" | "QF" | "SF" | "Final", "status": "SCHEDULED" | "LIVE" | "FINISHED", "score": "X-Y" in sets (LIVE/FINISHED only) }]
+    `,
+    },
+    fallbackFixtures: [
+      { home: "Jannik Sinner", away: "Carlos Alcaraz", league: "ATP Masters 1000", surface: "HARD", round: "SF" },
+      { home: "Novak Djokovic", away: "Alexander Zverev", league: "ATP Masters 1000", surface: "HARD", round: "SF" },
+      { home: "Aryna Sabalenka", away: "Iga Swiatek", league: "WTA 1000", surface: "HARD", round: "QF" },
+      { home: "Coco Gauff", away: "Elena Rybakina", league: "WTA 1000", surface: "HARD", round: "QF" },
+    ],
+  },
+};
+
+// Display order for sport pickers and "My Matches"
+export const SPORT_IDS = Object.keys(SPORTS) as SportType[];
+
+export const getSport = (sport: SportType = 'SOCCER'): SportDefinition => SPORTS[sport] || SPORTS.SOCCER;
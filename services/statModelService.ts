@@ -0,0 +1,160 @@
+import { MatchStats, SportType } from "../types";
+
+// Poisson scoreline model with the Dixon-Coles low-score correction.
+// Only meaningful for low-scoring sports; others return null.
+
+interface SportModelConfig {
+  leagueAvg: number; // Goals per team per game
+  homeAdvantage: number; // Multiplier on home rate (divides away rate)
+  rho: number; // Dixon-Coles dependence parameter
+  maxGoals: number; // Grid size per side
+  totalsLine: number;
+}
+
+const MODEL_CONFIG: Partial<Record<SportType, SportModelConfig>> = {
+  SOCCER: { leagueAvg: 1.35, homeAdvantage: 1.12, rho: -0.13, maxGoals: 10, totalsLine: 2.5 },
+  HOCKEY: { leagueAvg: 3.0, homeAdvantage: 1.05, rho: -0.05, maxGoals: 12, totalsLine: 5.5 },
+};
+
+const PRIOR_GAMES = 3; // Shrink short samples towards the league average
+const RATING_WEIGHT = 1.0; // Log-rate shift per 100 rating points of difference
+const DISAGREEMENT_THRESHOLD = 15; // Percentage points on any 1X2 outcome
+
+export interface ScorelineProbability {
+  score: string;
+  probability: number; // Percent
+}
+
+export interface ModelPrediction {
+  lambdaHome: number;
+  lambdaAway: number;
+  winProbability: { home: number; draw: number; away: number }; // Percent
+  mostLikely: ScorelineProbability;
+  topScores: ScorelineProbability[];
+  totals: { line: number; over: number; under: number }; // Percent
+}
+
+export interface ModelComparison {
+  model: ModelPrediction;
+  maxDeviation: number; // Largest 1X2 gap vs the LLM, percentage points
+  favouriteDiffers: boolean;
+  disagrees: boolean;
+}
+
+const poisson = (k: number, lambda: number) => {
+  let p = Math.exp(-lambda);
+  for (let i = 1; i <= k; i++) p *= lambda / i;
+  return p;
+};
+
+const dixonColesTau = (x: number, y: number, lh: number, la: number, rho: number) => {
+  if (x === 0 && y === 0) return 1 - lh * la * rho;
+  if (x === 0 && y === 1) return 1 + lh * rho;
+  if (x === 1 && y === 0) return 1 + la * rho;
+  if (x === 1 && y === 1) return 1 - rho;
+  return 1;
+};
+
+const attackStrength = (goals: number[], leagueAvg: number) => {
+  const sum = goals.reduce((a, b) => a + b, 0);
+  const shrunk = (sum + PRIOR_GAMES * leagueAvg) / (goals.length + PRIOR_GAMES);
+  return shrunk / leagueAvg;
+};
+
+// Model ratings cluster high, so only the gap between the sides is used: the
+// stronger side scores more and concedes less than its raw form suggests
+const ratingEdge = (own?: number, opponent?: number) =>
+  !own || !opponent ? 1 : Math.exp(RATING_WEIGHT * (own - opponent) / 100);
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+interface ScoreGrid {
+  lambdaHome: number;
+  lambdaAway: number;
+  cells: { x: number; y: number; p: number }[]; // Normalised probabilities
+}
+
+const buildGrid = (stats: MatchStats, sport: SportType): ScoreGrid | null => {
+  const config = MODEL_CONFIG[sport];
+  if (!config) return null;
+
+  const lambdaHome = config.leagueAvg
+    * attackStrength(stats.homeLast5Goals || [], config.leagueAvg)
+    * ratingEdge(stats.comparison?.homeRating, stats.comparison?.awayRating)
+    * config.homeAdvantage;
+  const lambdaAway = config.leagueAvg
+    * attackStrength(stats.awayLast5Goals || [], config.leagueAvg)
+    * ratingEdge(stats.comparison?.awayRating, stats.comparison?.homeRating)
+    / config.homeAdvantage;
+
+  const cells: { x: number; y: number; p: number }[] = [];
+  let total = 0;
+  for (let x = 0; x <= config.maxGoals; x++) {
+    for (let y = 0; y <= config.maxGoals; y++) {
+      const p = poisson(x, lambdaHome) * poisson(y, lambdaAway) * dixonColesTau(x, y, lambdaHome, lambdaAway, config.rho);
+      cells.push({ x, y, p });
+      total += p;
+    }
+  }
+  cells.forEach(c => { c.p /= total; });
+  return { lambdaHome, lambdaAway, cells };
+};
+
+// Model probability (percent) of any final-score condition, e.g. totals or an exact score
+export const probabilityOf = (stats: MatchStats, sport: SportType, predicate: (home: number, away: number) => boolean): number | null => {
+  const grid = buildGrid(stats, sport);
+  if (!grid) return null;
+  return round1(grid.cells.reduce((acc, c) => acc + (predicate(c.x, c.y) ? c.p : 0), 0) * 100);
+};
+
+export const predictScoreline = (stats: MatchStats, sport: SportType): ModelPrediction | null => {
+  const config = MODEL_CONFIG[sport];
+  const grid = buildGrid(stats, sport);
+  if (!config || !grid) return null;
+  const { lambdaHome, lambdaAway, cells } = grid;
+
+  let home = 0, draw = 0, away = 0, over = 0;
+  cells.forEach(c => {
+    if (c.x > c.y) home += c.p;
+    else if (c.x === c.y) draw += c.p;
+    else away += c.p;
+    if (c.x + c.y > config.totalsLine) over += c.p;
+  });
+
+  const topScores = [...cells]
+    .sort((a, b) => b.p - a.p)
+    .slice(0, 5)
+    .map(c => ({ score: `${c.x}-${c.y}`, probability: round1(c.p * 100) }));
+
+  return {
+    lambdaHome: Math.round(lambdaHome * 100) / 100,
+    lambdaAway: Math.round(lambdaAway * 100) / 100,
+    winProbability: { home: round1(home * 100), draw: round1(draw * 100), away: round1(away * 100) },
+    mostLikely: topScores[0],
+    topScores,
+    totals: { line: config.totalsLine, over: round1(over * 100), under: round1((1 - over) * 100) },
+  };
+};
+
+const favourite = (p: { home: number; draw: number; away: number }) =>
+  p.home >= p.draw && p.home >= p.away ? 'home' : p.away >= p.draw ? 'away' : 'draw';
+
+export const compareWithModel = (stats: MatchStats, sport: SportType): ModelComparison | null => {
+  const model = predictScoreline(stats, sport);
+  if (!model) return null;
+
+  const llm = stats.winProbability;
+  const maxDeviation = round1(Math.max(
+    Math.abs(llm.home - model.winProbability.home),
+    Math.abs(llm.draw - model.winProbability.draw),
+    Math.abs(llm.away - model.winProbability.away),
+  ));
+  const favouriteDiffers = favourite(llm) !== favourite(model.winProbability);
+
+  return {
+    model,
+    maxDeviation,
+    favouriteDiffers,
+    disagrees: maxDeviation >= DISAGREEMENT_THRESHOLD || favouriteDiffers,
+  };
+};
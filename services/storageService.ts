@@ -0,0 +1,257 @@
+// Async key/value storage on IndexedDB, split into namespaces that each have a
+// size budget. Writes past the budget evict the least recently used records.
+// Falls back to an in-memory store where IndexedDB is unavailable (private mode, tests).
+// Size, access time and expiry live in a separate metadata store, so budget checks and
+// LRU bookkeeping never read or rewrite the values themselves.
+const DB_NAME = 'matchoracle';
+const STORE = 'records';
+const META_STORE = 'meta';
+
+export type StorageNamespace = 'cache' | 'auth';
+
+interface NamespaceConfig {
+  maxBytes: number;
+  defaultTtlMs?: number; // Records without an explicit TTL expire after this long
+}
+
+const NAMESPACES: Record<StorageNamespace, NamespaceConfig> = {
+  cache: { maxBytes: 25 * 1024 * 1024, defaultTtlMs: 24 * 60 * 60 * 1000 },
+  auth: { maxBytes: 1024 * 1024 },
+};
+
+interface StoredRecord<T = unknown> {
+  namespace: StorageNamespace;
+  key: string;
+  value: T;
+}
+
+interface RecordMeta {
+  namespace: StorageNamespace;
+  key: string;
+  size: number; // Bytes of the JSON encoding, counted against the namespace budget
+  createdAt: number;
+  accessedAt: number; // LRU clock
+  expiresAt?: number;
+}
+
+// One entry per schema version, each upgrading from the version before it.
+// Append new steps; never edit a shipped one.
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  (db) => {
+    const store = db.createObjectStore(STORE, { keyPath: ['namespace', 'key'] });
+    store.createIndex('namespace', 'namespace');
+  },
+  // Version 1 kept the metadata on each record; copy it out so it can be read on its own
+  (db, tx) => {
+    const meta = db.createObjectStore(META_STORE, { keyPath: ['namespace', 'key'] });
+    meta.createIndex('namespace', 'namespace');
+    const cursor = tx.objectStore(STORE).openCursor();
+    cursor.onsuccess = () => {
+      if (!cursor.result) return;
+      const { namespace, key, size, createdAt, accessedAt, expiresAt } = cursor.result.value;
+      meta.put({ namespace, key, size, createdAt, accessedAt, expiresAt });
+      cursor.result.continue();
+    };
+  },
+];
+const DB_VERSION = MIGRATIONS.length;
+
+interface Backend {
+  durable: boolean; // False for the in-memory fallback, whose records are gone after a reload
+  get: (namespace: StorageNamespace, key: string) => Promise<StoredRecord | undefined>;
+  getMeta: (namespace: StorageNamespace, key: string) => Promise<RecordMeta | undefined>;
+  put: (record: StoredRecord, meta: RecordMeta) => Promise<void>;
+  touch: (meta: RecordMeta) => Promise<void>; // Rewrites the metadata only
+  delete: (namespace: StorageNamespace, key: string) => Promise<void>;
+  listMeta: (namespace: StorageNamespace) => Promise<RecordMeta[]>;
+}
+
+// --- BACKENDS ---
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = (event) => {
+    for (let version = event.oldVersion; version < DB_VERSION; version++) {
+      MIGRATIONS[version](request.result, request.transaction!);
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const indexedDbBackend = (db: IDBDatabase): Backend => {
+  const store = (name: string, mode: IDBTransactionMode) => db.transaction(name, mode).objectStore(name);
+  // Value and metadata change together or not at all
+  const writeBoth = (apply: (records: IDBObjectStore, meta: IDBObjectStore) => void) => {
+    const tx = db.transaction([STORE, META_STORE], 'readwrite');
+    apply(tx.objectStore(STORE), tx.objectStore(META_STORE));
+    return transactionDone(tx);
+  };
+  return {
+    durable: true,
+    get: (namespace, key) => promisify(store(STORE, 'readonly').get([namespace, key])),
+    getMeta: (namespace, key) => promisify(store(META_STORE, 'readonly').get([namespace, key])),
+    put: (record, meta) => writeBoth((records, metas) => { records.put(record); metas.put(meta); }),
+    touch: async (meta) => { await promisify(store(META_STORE, 'readwrite').put(meta)); },
+    delete: (namespace, key) => writeBoth((records, metas) => { records.delete([namespace, key]); metas.delete([namespace, key]); }),
+    listMeta: (namespace) => promisify(store(META_STORE, 'readonly').index('namespace').getAll(namespace)),
+  };
+};
+
+const memoryBackend = (): Backend => {
+  const records = new Map<string, StoredRecord>();
+  const metas = new Map<string, RecordMeta>();
+  const id = (namespace: StorageNamespace, key: string) => `${namespace}\u0000${key}`;
+  return {
+    durable: false,
+    get: async (namespace, key) => records.get(id(namespace, key)),
+    getMeta: async (namespace, key) => metas.get(id(namespace, key)),
+    put: async (record, meta) => {
+      records.set(id(record.namespace, record.key), record);
+      metas.set(id(meta.namespace, meta.key), meta);
+    },
+    touch: async (meta) => { metas.set(id(meta.namespace, meta.key), meta); },
+    delete: async (namespace, key) => {
+      records.delete(id(namespace, key));
+      metas.delete(id(namespace, key));
+    },
+    listMeta: async (namespace) => Array.from(metas.values()).filter(m => m.namespace === namespace),
+  };
+};
+
+let backendPromise: Promise<Backend> | null = null;
+
+const getBackend = (): Promise<Backend> => {
+  if (!backendPromise) {
+    backendPromise = typeof indexedDB === 'undefined'
+      ? Promise.resolve(memoryBackend())
+      : openDatabase().then(indexedDbBackend).catch((e) => {
+          console.warn("IndexedDB unavailable, falling back to in-memory storage", e);
+          return memoryBackend();
+        });
+  }
+  return backendPromise;
+};
+
+// --- HELPERS ---
+const sizeOf = (value: unknown) => new Blob([JSON.stringify(value) ?? '']).size;
+
+const isExpired = (meta: RecordMeta, now: number) => meta.expiresAt !== undefined && meta.expiresAt <= now;
+
+// Drops expired records, then the least recently used until the namespace fits its budget
+const enforceBudget = async (backend: Backend, namespace: StorageNamespace) => {
+  const now = Date.now();
+  const live: RecordMeta[] = [];
+  let total = 0;
+
+  for (const meta of await backend.listMeta(namespace)) {
+    if (isExpired(meta, now)) {
+      await backend.delete(namespace, meta.key);
+    } else {
+      live.push(meta);
+      total += meta.size;
+    }
+  }
+
+  for (const meta of live.sort((a, b) => a.accessedAt - b.accessedAt)) {
+    if (total <= NAMESPACES[namespace].maxBytes) break;
+    await backend.delete(namespace, meta.key);
+    total -= meta.size;
+  }
+};
+
+// Null when missing or expired; a hit refreshes the record's LRU position
+const getEntry = async <T>(namespace: StorageNamespace, key: string): Promise<{ value: T; savedAt: number } | null> => {
+  try {
+    const backend = await getBackend();
+    const meta = await backend.getMeta(namespace, key);
+    if (!meta) return null;
+    if (isExpired(meta, Date.now())) {
+      await backend.delete(namespace, key);
+      return null;
+    }
+    const record = await backend.get(namespace, key);
+    if (!record) return null;
+    await backend.touch({ ...meta, accessedAt: Date.now() });
+    return { value: record.value as T, savedAt: meta.createdAt };
+  } catch (e) {
+    console.warn(`Storage read failed for "${namespace}/${key}"`, e);
+    return null;
+  }
+};
+
+export const storageService = {
+  get: async <T>(namespace: StorageNamespace, key: string): Promise<T | null> =>
+    (await getEntry<T>(namespace, key))?.value ?? null,
+
+  // Same as get, plus when the value was written (for freshness checks and "saved at" labels)
+  getEntry,
+
+  // Returns false when the value could not be stored (larger than the whole budget, or a write error)
+  set: async <T>(namespace: StorageNamespace, key: string, value: T, ttlMs: number | undefined = NAMESPACES[namespace].defaultTtlMs): Promise<boolean> => {
+    const size = sizeOf(value);
+    if (size > NAMESPACES[namespace].maxBytes) {
+      console.warn(`"${namespace}/${key}" exceeds the ${namespace} storage budget`);
+      return false;
+    }
+    try {
+      const backend = await getBackend();
+      const now = Date.now();
+      await backend.put({ namespace, key, value }, {
+        namespace,
+        key,
+        size,
+        createdAt: now,
+        accessedAt: now,
+        expiresAt: ttlMs !== undefined ? now + ttlMs : undefined,
+      });
+      await enforceBudget(backend, namespace);
+      return true;
+    } catch (e) {
+      console.warn(`Storage write failed for "${namespace}/${key}"`, e);
+      return false;
+    }
+  },
+
+  remove: async (namespace: StorageNamespace, key: string): Promise<void> => {
+    try {
+      await (await getBackend()).delete(namespace, key);
+    } catch (e) {
+      console.warn(`Storage delete failed for "${namespace}/${key}"`, e);
+    }
+  },
+
+  // Deletes every key in the namespace matching the predicate (all keys when omitted)
+  clear: async (namespace: StorageNamespace, predicate: (key: string) => boolean = () => true): Promise<void> => {
+    try {
+      const backend = await getBackend();
+      for (const meta of await backend.listMeta(namespace)) {
+        if (predicate(meta.key)) await backend.delete(namespace, meta.key);
+      }
+    } catch (e) {
+      console.warn(`Storage clear failed for "${namespace}"`, e);
+    }
+  },
+
+  // False when writes only land in the in-memory fallback and will not survive a reload
+  isDurable: async (): Promise<boolean> => (await getBackend()).durable,
+
+  usage: async (namespace: StorageNamespace): Promise<{ bytes: number; maxBytes: number; records: number }> => {
+    const metas = await (await getBackend()).listMeta(namespace);
+    return {
+      bytes: metas.reduce((sum, m) => sum + m.size, 0),
+      maxBytes: NAMESPACES[namespace].maxBytes,
+      records: metas.length,
+    };
+  },
+};
@@ -0,0 +1,216 @@
+import { MatchFixture, SportType, TeamEntity } from "../types";
+
+// Local registry of known teams and players. Providers and users spell the same club many
+// ways ("Man City", "Manchester City", "Man. City FC"); everything that keys on a team name
+// goes through here so those spellings land on one canonical entity.
+
+const FUZZY_THRESHOLD = 0.8; // Bigram similarity needed to accept a non-exact match
+const FUZZY_MIN_LENGTH = 6; // Shorter names are too easy to confuse ("Paris" vs "Paris SG")
+const TOKEN_THRESHOLD = 0.6; // Per-word similarity for a misspelt word to count as the same word
+const SUGGESTION_LIMIT = 6;
+
+// Tokens that never tell two teams apart. "SC" is not one of them: Barcelona SC is not FC Barcelona
+const NOISE_TOKENS = new Set(['fc', 'afc', 'cf', 'fk', 'the', 'football', 'club']);
+
+// Tokens naming another side of the same club (women's, youth, reserve teams); a fuzzy match never crosses them
+const SIDE_TOKEN = /^(women|womens|ladies|w|femenino|feminin|u\d{2}|b|ii|iii|reserves?|youth|academy|next|gen|nextgen)$/;
+
+// Lower-case, accent-free, punctuation-free, without club suffixes
+export const normalizeTeamName = (name: string) =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[.'’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(token => token && !NOISE_TOKENS.has(token))
+    .join(' ');
+
+const team = (sport: SportType, name: string, country: string, league: string, aliases: string[] = []): TeamEntity => ({
+  id: `${sport.toLowerCase()}:${normalizeTeamName(name).replace(/ /g, '-')}`,
+  name, aliases, country, league, sport,
+});
+
+// --- REGISTRY DATA ---
+const TEAMS: TeamEntity[] = [
+  // Soccer
+  team('SOCCER', 'Manchester City', 'England', 'Premier League', ['Man City', 'Man. City', 'MCFC']),
+  team('SOCCER', 'Manchester United', 'England', 'Premier League', ['Man United', 'Man Utd', 'Manchester Utd', 'Man. United', 'MUFC']),
+  team('SOCCER', 'Arsenal', 'England', 'Premier League', ['Gunners']),
+  team('SOCCER', 'Liverpool', 'England', 'Premier League', ['LFC']),
+  team('SOCCER', 'Chelsea', 'England', 'Premier League', ['CFC']),
+  team('SOCCER', 'Tottenham Hotspur', 'England', 'Premier League', ['Tottenham', 'Spurs']),
+  team('SOCCER', 'Newcastle United', 'England', 'Premier League', ['Newcastle', 'NUFC']),
+  team('SOCCER', 'Aston Villa', 'England', 'Premier League', ['Villa']),
+  team('SOCCER', 'Leeds United', 'England', 'Championship', ['Leeds']),
+  team('SOCCER', 'Leicester City', 'England', 'Championship', ['Leicester']),
+  team('SOCCER', 'Real Madrid', 'Spain', 'La Liga', ['Real Madrid CF']),
+  team('SOCCER', 'Barcelona', 'Spain', 'La Liga', ['FC Barcelona', 'Barca', 'Barça']),
+  team('SOCCER', 'Atlético Madrid', 'Spain', 'La Liga', ['Atletico Madrid', 'Atlético de Madrid']),
+  team('SOCCER', 'Bayern Munich', 'Germany', 'Bundesliga', ['Bayern München', 'FC Bayern', 'Bayern']),
+  team('SOCCER', 'Borussia Dortmund', 'Germany', 'Bundesliga', ['Dortmund', 'BVB']),
+  team('SOCCER', 'Bayer Leverkusen', 'Germany', 'Bundesliga', ['Leverkusen']),
+  team('SOCCER', 'Inter Milan', 'Italy', 'Serie A', ['Inter', 'Internazionale', 'FC Internazionale Milano']),
+  team('SOCCER', 'AC Milan', 'Italy', 'Serie A', ['Milan']),
+  team('SOCCER', 'Juventus', 'Italy', 'Serie A', ['Juve']),
+  team('SOCCER', 'Napoli', 'Italy', 'Serie A', ['SSC Napoli']),
+  team('SOCCER', 'Paris Saint-Germain', 'France', 'Ligue 1', ['PSG', 'Paris SG']),
+  team('SOCCER', 'Olympique de Marseille', 'France', 'Ligue 1', ['Marseille', 'OM']),
+  team('SOCCER', 'Ajax', 'Netherlands', 'Eredivisie', ['AFC Ajax', 'Ajax Amsterdam']),
+  team('SOCCER', 'Feyenoord', 'Netherlands', 'Eredivisie', ['Feyenoord Rotterdam']),
+  team('SOCCER', 'PSV Eindhoven', 'Netherlands', 'Eredivisie', ['PSV']),
+  team('SOCCER', 'Benfica', 'Portugal', 'Primeira Liga', ['SL Benfica']),
+  team('SOCCER', 'Porto', 'Portugal', 'Primeira Liga', ['FC Porto']),
+  team('SOCCER', 'Sporting CP', 'Portugal', 'Primeira Liga', ['Sporting Lisbon', 'Sporting Lisboa']),
+  team('SOCCER', 'Galatasaray', 'Turkey', 'Süper Lig', ['Galatasaray SK']),
+  team('SOCCER', 'Fenerbahçe', 'Turkey', 'Süper Lig', ['Fenerbahce', 'Fenerbahce SK']),
+  team('SOCCER', 'Copenhagen', 'Denmark', 'Superliga', ['FC Copenhagen', 'FC København', 'FCK']),
+  team('SOCCER', 'Brøndby', 'Denmark', 'Superliga', ['Brondby', 'Brøndby IF']),
+  team('SOCCER', 'Olympiacos', 'Greece', 'Super League Greece', ['Olympiakos', 'Olympiacos Piraeus']),
+  team('SOCCER', 'PAOK', 'Greece', 'Super League Greece', ['PAOK Thessaloniki']),
+  team('SOCCER', 'Legia Warsaw', 'Poland', 'Ekstraklasa', ['Legia Warszawa', 'Legia']),
+  team('SOCCER', 'Lech Poznań', 'Poland', 'Ekstraklasa', ['Lech Poznan', 'Lech']),
+  team('SOCCER', 'Dinamo Zagreb', 'Croatia', 'HNL', ['GNK Dinamo Zagreb']),
+  team('SOCCER', 'Hajduk Split', 'Croatia', 'HNL', ['HNK Hajduk Split', 'Hajduk']),
+  team('SOCCER', 'Celtic', 'Scotland', 'Scottish Premiership', ['Celtic Glasgow']),
+  team('SOCCER', 'Rangers', 'Scotland', 'Scottish Premiership', ['Glasgow Rangers']),
+  team('SOCCER', 'Flamengo', 'Brazil', 'Brasileirão', ['CR Flamengo', 'Clube de Regatas do Flamengo']),
+  team('SOCCER', 'Palmeiras', 'Brazil', 'Brasileirão', ['SE Palmeiras']),
+  team('SOCCER', 'Corinthians', 'Brazil', 'Brasileirão', ['SC Corinthians', 'Corinthians Paulista']),
+  team('SOCCER', 'São Paulo', 'Brazil', 'Brasileirão', ['Sao Paulo', 'São Paulo FC', 'SPFC']),
+  team('SOCCER', 'Fluminense', 'Brazil', 'Brasileirão', ['Fluminense FC']),
+  team('SOCCER', 'Botafogo', 'Brazil', 'Brasileirão', ['Botafogo FR']),
+
+  // Basketball
+  team('BASKETBALL', 'Los Angeles Lakers', 'USA', 'NBA', ['Lakers', 'LA Lakers', 'LAL']),
+  team('BASKETBALL', 'Golden State Warriors', 'USA', 'NBA', ['Warriors', 'Golden State', 'GSW']),
+  team('BASKETBALL', 'Boston Celtics', 'USA', 'NBA', ['Celtics', 'Boston']),
+  team('BASKETBALL', 'Miami Heat', 'USA', 'NBA', ['Heat', 'Miami']),
+  team('BASKETBALL', 'Real Madrid Baloncesto', 'Spain', 'EuroLeague', ['Real Madrid', 'Real Madrid Basket']),
+  team('BASKETBALL', 'FC Barcelona Bàsquet', 'Spain', 'EuroLeague', ['Barcelona', 'Barça Basket', 'Barcelona Basket']),
+
+  // Hockey
+  team('HOCKEY', 'Toronto Maple Leafs', 'Canada', 'NHL', ['Maple Leafs', 'Toronto', 'Leafs']),
+  team('HOCKEY', 'Montreal Canadiens', 'Canada', 'NHL', ['Canadiens', 'Montreal', 'Habs']),
+  team('HOCKEY', 'Boston Bruins', 'USA', 'NHL', ['Bruins']),
+  team('HOCKEY', 'New York Rangers', 'USA', 'NHL', ['NY Rangers', 'Rangers']),
+
+  // Handball
+  team('HANDBALL', 'Paris Saint-Germain Handball', 'France', 'Champions League', ['PSG Handball', 'PSG']),
+  team('HANDBALL', 'THW Kiel', 'Germany', 'Champions League', ['Kiel']),
+  team('HANDBALL', 'Barça Handbol', 'Spain', 'Champions League', ['Barcelona', 'FC Barcelona Handbol']),
+  team('HANDBALL', 'Veszprém', 'Hungary', 'Champions League', ['Telekom Veszprém', 'Veszprem']),
+
+  // Tennis
+  team('TENNIS', 'Jannik Sinner', 'Italy', 'ATP', ['Sinner', 'J. Sinner']),
+  team('TENNIS', 'Carlos Alcaraz', 'Spain', 'ATP', ['Alcaraz', 'C. Alcaraz']),
+  team('TENNIS', 'Novak Djokovic', 'Serbia', 'ATP', ['Djokovic', 'N. Djokovic']),
+  team('TENNIS', 'Alexander Zverev', 'Germany', 'ATP', ['Zverev', 'A. Zverev', 'Sascha Zverev']),
+  team('TENNIS', 'Aryna Sabalenka', 'Belarus', 'WTA', ['Sabalenka', 'A. Sabalenka']),
+  team('TENNIS', 'Iga Swiatek', 'Poland', 'WTA', ['Iga Świątek', 'Swiatek', 'I. Swiatek']),
+  team('TENNIS', 'Coco Gauff', 'USA', 'WTA', ['Gauff', 'Cori Gauff', 'C. Gauff']),
+  team('TENNIS', 'Elena Rybakina', 'Kazakhstan', 'WTA', ['Rybakina', 'E. Rybakina']),
+];
+
+// Every normalised spelling, name first so exact canonical hits win over shared aliases
+const INDEX: { key: string; team: TeamEntity }[] = TEAMS.flatMap(t =>
+  [t.name, ...t.aliases].map(spelling => ({ key: normalizeTeamName(spelling), team: t }))
+);
+
+// Dice coefficient over character bigrams, 0..1
+const bigrams = (s: string) => {
+  const compact = s.replace(/ /g, '');
+  const grams: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) grams.push(compact.slice(i, i + 2));
+  return grams;
+};
+
+const similarity = (a: string, b: string) => {
+  if (a === b) return 1;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (!left.length || !right.length) return 0;
+  const pool = [...right];
+  let shared = 0;
+  left.forEach(gram => {
+    const at = pool.indexOf(gram);
+    if (at >= 0) { shared++; pool.splice(at, 1); }
+  });
+  return (2 * shared) / (left.length + right.length);
+};
+
+// A fuzzy match may fix spelling, but every token on either side needs a close counterpart on the
+// other, and the side tokens must agree: "Arsenal U21" and "Manchester City Women" are other teams
+const sideOf = (key: string) => key.split(' ').filter(token => SIDE_TOKEN.test(token)).sort().join(' ');
+
+const tokensCorrespond = (a: string, b: string) => {
+  const covered = (from: string, to: string) => {
+    const targets = to.split(' ');
+    return from.split(' ').every(token => targets.some(t => t === token || similarity(t, token) >= TOKEN_THRESHOLD));
+  };
+  return covered(a, b) && covered(b, a);
+};
+
+const fuzzyCompatible = (query: string, key: string) =>
+  key.length >= FUZZY_MIN_LENGTH && sideOf(query) === sideOf(key) && tokensCorrespond(query, key);
+
+const candidates = (sport?: SportType) => sport ? INDEX.filter(entry => entry.team.sport === sport) : INDEX;
+
+const resolved = new Map<string, TeamEntity | null>();
+
+// How well a typed prefix matches one spelling, for ranking suggestions
+const suggestionScore = (query: string, key: string) => {
+  if (key.startsWith(query)) return 3;
+  if (key.split(' ').some(token => token.startsWith(query))) return 2;
+  if (key.includes(query)) return 1;
+  const score = similarity(query, key);
+  return score >= 0.5 ? score : 0;
+};
+
+export const teamRegistry = {
+  // Exact alias match first, then the closest spelling above the fuzzy threshold
+  resolve: (name: string, sport?: SportType): TeamEntity | undefined => {
+    const key = normalizeTeamName(name);
+    if (!key) return undefined;
+    const cacheKey = `${sport || '*'}|${key}`;
+    if (resolved.has(cacheKey)) return resolved.get(cacheKey) || undefined;
+
+    const pool = candidates(sport);
+    let match = pool.find(entry => entry.key === key)?.team;
+    if (!match && key.length >= FUZZY_MIN_LENGTH) {
+      let best = FUZZY_THRESHOLD;
+      for (const entry of pool.filter(entry => fuzzyCompatible(key, entry.key))) {
+        const score = similarity(key, entry.key);
+        if (score >= best) { best = score; match = entry.team; }
+      }
+    }
+    resolved.set(cacheKey, match || null);
+    return match;
+  },
+
+  canonicalName: (name: string, sport?: SportType) => teamRegistry.resolve(name, sport)?.name || name.trim(),
+
+  // Join key for a team name: the entity id when known, otherwise the normalised spelling
+  keyOf: (name: string, sport?: SportType) => teamRegistry.resolve(name, sport)?.id || normalizeTeamName(name),
+
+  // Autocomplete for a partially typed name, best matches first
+  search: (query: string, sport: SportType, limit = SUGGESTION_LIMIT): TeamEntity[] => {
+    const q = normalizeTeamName(query);
+    if (!q) return [];
+    const best = new Map<TeamEntity, number>();
+    candidates(sport).forEach(({ key, team }) => {
+      const score = suggestionScore(q, key);
+      if (score > (best.get(team) || 0)) best.set(team, score);
+    });
+    return [...best.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].name.localeCompare(b[0].name))
+      .slice(0, limit)
+      .map(([team]) => team);
+  },
+
+  normalizeFixture: (fixture: MatchFixture, sport: SportType): MatchFixture => ({
+    ...fixture,
+    home: teamRegistry.canonicalName(fixture.home, fixture.sport || sport),
+    away: teamRegistry.canonicalName(fixture.away, fixture.sport || sport),
+  }),
+};
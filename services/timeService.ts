@@ -0,0 +1,127 @@
+import { MatchFixture } from "../types";
+
+// Calendar dates (YYYY-MM-DD) and kickoff instants in the user's chosen timezone. Date-only
+// strings are handled as plain calendar values so stepping a day never crosses a UTC boundary.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const browserTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch (e) {
+    return 'UTC';
+  }
+};
+
+// Zones offered in settings; older browsers without supportedValuesOf get a short list
+export const listTimeZones = (): string[] => {
+  try {
+    return Intl.supportedValuesOf('timeZone');
+  } catch (e) {
+    return ['UTC', 'Europe/London', 'Europe/Paris', 'Europe/Athens', 'Africa/Lagos', 'Africa/Johannesburg', 'America/New_York', 'America/Chicago', 'America/Los_Angeles', 'America/Sao_Paulo', 'Asia/Dubai', 'Asia/Kolkata', 'Asia/Tokyo', 'Australia/Sydney'];
+  }
+};
+
+const isValidZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone });
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+// An empty or unknown setting means "follow the browser"
+export const resolveTimeZone = (setting?: string) => setting && isValidZone(setting) ? setting : browserTimeZone();
+
+// Wall-clock fields of an instant in a zone
+const partsIn = (epochMs: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(epochMs);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+};
+
+// Minutes the zone is ahead of UTC at an instant
+const offsetMinutes = (epochMs: number, timeZone: string) => {
+  const p = partsIn(epochMs, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - Math.floor(epochMs / 1000) * 1000) / 60000);
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatOffset = (minutes: number) => {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+};
+
+const parseDate = (date: string) => {
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return match ? { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) } : undefined;
+};
+
+// Epoch ms of a kickoff string; only ISO timestamps with an explicit offset or Z count
+export const parseKickoff = (kickoff?: string): number | undefined => {
+  if (!kickoff || !/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i.test(kickoff)) return undefined;
+  const ms = Date.parse(kickoff);
+  return isNaN(ms) ? undefined : ms;
+};
+
+export const timeService = {
+  // Calendar date of an instant in the zone
+  dateIn: (epochMs: number, timeZone: string): string => {
+    const p = partsIn(epochMs, timeZone);
+    return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+  },
+
+  today: (timeZone: string): string => timeService.dateIn(Date.now(), timeZone),
+
+  // Calendar arithmetic on YYYY-MM-DD, independent of any zone
+  shiftDate: (date: string, days: number): string => {
+    const d = parseDate(date);
+    if (!d) return date;
+    const shifted = new Date(Date.UTC(d.year, d.month - 1, d.day) + days * DAY_MS);
+    return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`;
+  },
+
+  // Instant of a wall-clock time ("HH:MM") on a date in the zone
+  zonedEpoch: (date: string, time: string, timeZone: string): number | undefined => {
+    const d = parseDate(date);
+    const t = time.match(/^(\d{1,2}):(\d{2})$/);
+    if (!d || !t) return undefined;
+    const wall = Date.UTC(d.year, d.month - 1, d.day, Number(t[1]), Number(t[2]));
+    // Correct by the zone's offset, then once more in case that step crossed a DST change
+    let epoch = wall - offsetMinutes(wall, timeZone) * 60000;
+    epoch = wall - offsetMinutes(epoch, timeZone) * 60000;
+    return epoch;
+  },
+
+  // ISO timestamp with the zone's offset, e.g. 2025-03-08T20:00:00+01:00
+  toZonedIso: (epochMs: number, timeZone: string): string => {
+    const p = partsIn(epochMs, timeZone);
+    return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}${formatOffset(offsetMinutes(epochMs, timeZone))}`;
+  },
+
+  formatTime: (epochMs: number, timeZone: string): string =>
+    new Date(epochMs).toLocaleTimeString(undefined, { timeZone, hour: '2-digit', minute: '2-digit' }),
+
+  // "Sat, Mar 8" for a YYYY-MM-DD; formatted at UTC noon of that date so no zone can shift it
+  formatDate: (date: string): string => {
+    const d = parseDate(date);
+    if (!d) return date;
+    return new Date(Date.UTC(d.year, d.month - 1, d.day, 12)).toLocaleDateString(undefined, { timeZone: 'UTC', weekday: 'short', month: 'short', day: 'numeric' });
+  },
+
+  // "UTC+01:00" for the zone right now
+  offsetLabel: (timeZone: string): string => `UTC${formatOffset(offsetMinutes(Date.now(), timeZone))}`,
+
+  // Kickoff clock time in the zone for scheduled fixtures; otherwise the provider's own label (LIVE 23', FT, TBD)
+  fixtureTime: (fixture: MatchFixture, timeZone: string): string => {
+    const kickoff = parseKickoff(fixture.kickoff);
+    return kickoff !== undefined && (fixture.status || 'SCHEDULED') === 'SCHEDULED' ? timeService.formatTime(kickoff, timeZone) : fixture.time;
+  },
+};
@@ -0,0 +1,69 @@
+// Registers the service worker and tracks when a newer build has installed and is
+// waiting. The waiting worker only takes over once the user accepts the update,
+// so a page never runs against assets from a different build.
+const SKIP_WAITING_MESSAGE = 'SKIP_WAITING';
+const UPDATE_CHECK_MS = 30 * 60 * 1000;
+
+type Listener = (available: boolean) => void;
+
+let waiting: ServiceWorker | null = null;
+let updateAccepted = false;
+const listeners = new Set<Listener>();
+
+const setWaiting = (worker: ServiceWorker | null) => {
+  waiting = worker;
+  listeners.forEach(listener => listener(worker !== null));
+};
+
+// A worker that installs while another controls the page is an update; the first install is not
+const watchInstalling = (worker: ServiceWorker) => {
+  worker.addEventListener('statechange', () => {
+    if (worker.state === 'installed' && navigator.serviceWorker.controller) setWaiting(worker);
+  });
+};
+
+export const updateService = {
+  register: () => {
+    if (!('serviceWorker' in navigator)) return;
+
+    // Fired once the accepted worker takes control; reload so every asset comes from the new build.
+    // A first install also fires it (clients.claim), and that page has nothing stale to replace,
+    // so only reload for an accepted update or a page that was already controlled (another tab accepted it)
+    const hadController = !!navigator.serviceWorker.controller;
+    let reloading = false;
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+      if (reloading || !(updateAccepted || hadController)) return;
+      reloading = true;
+      window.location.reload();
+    });
+
+    window.addEventListener('load', async () => {
+      try {
+        const registration = await navigator.serviceWorker.register('./service-worker.js');
+        if (registration.waiting && navigator.serviceWorker.controller) setWaiting(registration.waiting);
+        if (registration.installing) watchInstalling(registration.installing);
+        registration.addEventListener('updatefound', () => {
+          if (registration.installing) watchInstalling(registration.installing);
+        });
+        setInterval(() => { registration.update().catch(() => {}); }, UPDATE_CHECK_MS);
+      } catch (err) {
+        console.log('Worker registration failed: ', err);
+      }
+    });
+  },
+
+  isUpdateAvailable: () => waiting !== null,
+
+  // Returns an unsubscribe function
+  subscribe: (listener: Listener) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  },
+
+  // Activates the waiting worker; the controllerchange handler then reloads the page
+  applyUpdate: () => {
+    if (!waiting) return;
+    updateAccepted = true;
+    waiting.postMessage({ type: SKIP_WAITING_MESSAGE });
+  },
+};
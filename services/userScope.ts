@@ -0,0 +1,36 @@
+import { storageService } from "./storageService";
+
+// Namespaces persisted user data by the signed-in account, so two accounts on one
+// device never read each other's ledger, settings, slip or bankroll
+let activeUserId: string | null = null;
+
+export const setActiveUser = (userId: string | null) => {
+  activeUserId = userId;
+};
+
+export const getActiveUser = () => activeUserId;
+
+// "matchoracle_ledger" -> "matchoracle_ledger:<userId>". Data saved before accounts
+// existed is handed over to the first account that reads it.
+export const userKey = (key: string): string => {
+  if (!activeUserId) return key;
+  const scoped = `${key}:${activeUserId}`;
+  try {
+    const legacy = localStorage.getItem(key);
+    if (legacy !== null && localStorage.getItem(scoped) === null) {
+      localStorage.setItem(scoped, legacy);
+      localStorage.removeItem(key);
+    }
+  } catch (e) {
+    console.warn(`Could not migrate "${key}" to the signed-in account`);
+  }
+  return scoped;
+};
+
+// Removes everything stored under an account's namespace
+export const clearUserData = async (userId: string) => {
+  Object.keys(localStorage)
+    .filter(k => k.endsWith(`:${userId}`))
+    .forEach(k => localStorage.removeItem(k));
+  await storageService.clear('cache', key => key.startsWith(`${userId}_`));
+};
@@ -0,0 +1,494 @@
+import { Schema, Type } from "@google/genai";
+import { CourtSurface, LiveScore, MatchFixture, MatchStats, PlayerStat, SportType, ValidationIssue } from "../types";
+import { getSport } from "./sportRegistry";
+import { parseKickoff } from "./timeService";
+
+export type OddsPayload = NonNullable<MatchStats['odds']>;
+export type ComparisonPayload = NonNullable<MatchStats['comparison']>;
+
+export interface ValidationResult<T> {
+  data?: T;
+  issues: ValidationIssue[];
+}
+
+// --- RESPONSE SCHEMAS (Gemini structured-output mode) ---
+const oddsSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    homeWin: { type: Type.NUMBER },
+    draw: { type: Type.NUMBER },
+    awayWin: { type: Type.NUMBER },
+  },
+  required: ['homeWin', 'draw', 'awayWin'],
+};
+
+const comparisonSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    homeValue: { type: Type.STRING },
+    awayValue: { type: Type.STRING },
+    homePosition: { type: Type.STRING },
+    awayPosition: { type: Type.STRING },
+    homeRating: { type: Type.INTEGER },
+    awayRating: { type: Type.INTEGER },
+  },
+  required: ['homeRating', 'awayRating'],
+};
+
+const playerSchema: Schema = {
+  type: Type.OBJECT,
+  properties: { name: { type: Type.STRING }, stat: { type: Type.STRING } },
+  required: ['name', 'stat'],
+};
+
+export const SCHEMAS = {
+  odds: oddsSchema,
+  comparison: comparisonSchema,
+  fixtures: {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        home: { type: Type.STRING },
+        away: { type: Type.STRING },
+        time: { type: Type.STRING },
+        kickoff: { type: Type.STRING },
+        league: { type: Type.STRING },
+        score: { type: Type.STRING },
+        status: { type: Type.STRING, enum: ['SCHEDULED', 'LIVE', 'FINISHED'] },
+        surface: { type: Type.STRING, enum: ['HARD', 'CLAY', 'GRASS', 'INDOOR'] },
+        round: { type: Type.STRING },
+      },
+      required: ['home', 'away', 'time', 'league', 'status'],
+    },
+  } as Schema,
+  liveScore: {
+    type: Type.OBJECT,
+    properties: {
+      score: { type: Type.STRING },
+      time: { type: Type.STRING },
+      status: { type: Type.STRING, enum: ['SCHEDULED', 'LIVE', 'FINISHED'] },
+    },
+    required: ['score', 'time', 'status'],
+  } as Schema,
+  matchStats: {
+    type: Type.OBJECT,
+    properties: {
+      homeLast5Goals: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+      awayLast5Goals: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+      possession: {
+        type: Type.OBJECT,
+        properties: { home: { type: Type.NUMBER }, away: { type: Type.NUMBER } },
+      },
+      winProbability: {
+        type: Type.OBJECT,
+        properties: { home: { type: Type.NUMBER }, draw: { type: Type.NUMBER }, away: { type: Type.NUMBER } },
+        required: ['home', 'draw', 'away'],
+      },
+      odds: oddsSchema,
+      comparison: comparisonSchema,
+      keyPlayers: {
+        type: Type.OBJECT,
+        properties: {
+          home: { type: Type.ARRAY, items: playerSchema },
+          away: { type: Type.ARRAY, items: playerSchema },
+        },
+      },
+      homeLogo: { type: Type.STRING },
+      awayLogo: { type: Type.STRING },
+      surface: { type: Type.STRING, enum: ['HARD', 'CLAY', 'GRASS', 'INDOOR'] },
+      tiebreakProbability: { type: Type.NUMBER },
+    },
+    required: ['homeLast5Goals', 'awayLast5Goals', 'winProbability'],
+  } as Schema,
+};
+
+// --- JSON EXTRACTION ---
+// Finds the first balanced {...} or [...] block, ignoring brackets inside strings
+const findBalanced = (text: string, open: '{' | '['): string | null => {
+  const close = open === '{' ? '}' : ']';
+  let start = text.indexOf(open);
+  while (start !== -1) {
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+      const ch = text[i];
+      if (inString) {
+        if (ch === '\\') i++;
+        else if (ch === '"') inString = false;
+      } else if (ch === '"') {
+        inString = true;
+      } else if (ch === open) {
+        depth++;
+      } else if (ch === close && --depth === 0) {
+        return text.slice(start, i + 1);
+      }
+    }
+    start = text.indexOf(open, start + 1);
+  }
+  return null;
+};
+
+// Repairs common near-miss JSON: smart quotes, trailing commas, comments, NaN
+const repairJson = (json: string) =>
+  json
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'")
+    .replace(/\/\/[^\n"]*$/gm, '')
+    .replace(/,\s*([}\]])/g, '$1')
+    .replace(/:\s*(NaN|undefined)\b/g, ': null');
+
+export const extractJson = (text: string, kind: 'object' | 'array'): unknown => {
+  const open = kind === 'object' ? '{' : '[';
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  const candidates = [fenced?.[1], findBalanced(fenced?.[1] || '', open), findBalanced(text, open)]
+    .filter((c): c is string => !!c && c.trim().startsWith(open));
+
+  for (const candidate of candidates) {
+    try { return JSON.parse(candidate); } catch (e) {}
+    try { return JSON.parse(repairJson(candidate)); } catch (e) {}
+  }
+  return undefined;
+};
+
+// --- FIELD COERCION ---
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+
+const toNumber = (v: unknown): number | null => {
+  if (typeof v === 'number') return Number.isFinite(v) ? v : null;
+  if (typeof v === 'string') {
+    const n = parseFloat(v.replace(',', '.').replace(/[%\s]/g, ''));
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+};
+
+const toText = (v: unknown): string | undefined => {
+  if (typeof v === 'string') return v.trim() || undefined;
+  if (typeof v === 'number') return String(v);
+  return undefined;
+};
+
+// Accepts decimal, fractional ("5/2") and American ("+150"/"-200") quotes
+const toDecimalOdd = (v: unknown): { value: number | null; repaired: boolean } => {
+  if (typeof v === 'string') {
+    const fractional = v.match(/^\s*(\d+)\s*\/\s*(\d+)\s*$/);
+    if (fractional) return { value: 1 + parseInt(fractional[1], 10) / parseInt(fractional[2], 10), repaired: true };
+    const american = v.match(/^\s*([+-])(\d{3,})\s*$/);
+    if (american) {
+      const n = parseInt(american[2], 10);
+      return { value: american[1] === '+' ? 1 + n / 100 : 1 + 100 / n, repaired: true };
+    }
+  }
+  const n = toNumber(v);
+  return { value: n, repaired: n !== null && typeof v !== 'number' };
+};
+
+const SURFACE_ALIASES: Record<string, CourtSurface> = {
+  HARD: 'HARD', 'HARD COURT': 'HARD', OUTDOOR: 'HARD', ACRYLIC: 'HARD',
+  CLAY: 'CLAY', 'RED CLAY': 'CLAY', 'GREEN CLAY': 'CLAY',
+  GRASS: 'GRASS', LAWN: 'GRASS',
+  INDOOR: 'INDOOR', 'INDOOR HARD': 'INDOOR', CARPET: 'INDOOR',
+};
+
+const toSurface = (v: unknown): CourtSurface | undefined => {
+  const text = toText(v)?.toUpperCase();
+  return text ? SURFACE_ALIASES[text] : undefined;
+};
+
+const round = (n: number, dp = 0) => Math.round(n * 10 ** dp) / 10 ** dp;
+
+// Scales a set of shares so they sum to 100; accepts 0-1 fractions
+const normalizeShares = <K extends string>(raw: Record<string, unknown>, keys: K[], path: string, issues: ValidationIssue[]): Record<K, number> | null => {
+  const values = {} as Record<K, number>;
+  for (const key of keys) {
+    const n = toNumber(raw[key]);
+    if (n === null || n < 0) {
+      if (raw[key] !== undefined) issues.push({ field: `${path}.${key}`, reason: `invalid value ${JSON.stringify(raw[key])}`, action: 'repaired' });
+      values[key] = 0;
+    } else {
+      values[key] = n;
+    }
+  }
+  const sum = keys.reduce((acc, k) => acc + values[k], 0);
+  if (sum <= 0) {
+    issues.push({ field: path, reason: 'no usable values', action: 'rejected' });
+    return null;
+  }
+  if (Math.abs(sum - 100) > 1) {
+    issues.push({ field: path, reason: `values summed to ${round(sum, 2)}, rescaled to 100`, action: 'repaired' });
+    keys.forEach(k => { values[k] = round((values[k] / sum) * 100); });
+  }
+  return values;
+};
+
+const validateGoalSeries = (raw: unknown, path: string, issues: ValidationIssue[]): number[] => {
+  if (!Array.isArray(raw)) {
+    issues.push({ field: path, reason: 'missing or not an array', action: 'rejected' });
+    return [];
+  }
+  const values = raw.map(toNumber).filter((n): n is number => n !== null && n >= 0);
+  if (values.length !== raw.length) {
+    issues.push({ field: path, reason: `dropped ${raw.length - values.length} non-numeric entries`, action: 'repaired' });
+  }
+  if (values.length > 5) {
+    issues.push({ field: path, reason: `trimmed ${values.length} entries to last 5`, action: 'repaired' });
+    return values.slice(-5);
+  }
+  return values;
+};
+
+const validatePlayers = (raw: unknown, path: string, issues: ValidationIssue[]): PlayerStat[] => {
+  if (!Array.isArray(raw)) return [];
+  const players = raw
+    .filter(isObject)
+    .map(p => ({ name: toText(p.name), stat: toText(p.stat) || '' }))
+    .filter((p): p is PlayerStat => !!p.name);
+  if (players.length !== raw.length) {
+    issues.push({ field: path, reason: `dropped ${raw.length - players.length} malformed players`, action: 'repaired' });
+  }
+  return players;
+};
+
+const isUrl = (v: unknown): v is string => typeof v === 'string' && /^https?:\/\/\S+$/.test(v);
+
+// --- PAYLOAD VALIDATORS ---
+// Sports without a draw have no draw market; whatever price came back for one is dropped
+export const validateOdds = (raw: unknown, sport?: SportType, path = 'odds'): ValidationResult<OddsPayload> => {
+  const issues: ValidationIssue[] = [];
+  if (!isObject(raw)) {
+    issues.push({ field: path, reason: 'missing or not an object', action: 'rejected' });
+    return { issues };
+  }
+
+  const read = (key: keyof OddsPayload, allowZero: boolean): number | null => {
+    const { value, repaired } = toDecimalOdd(raw[key]);
+    if (value === null) {
+      issues.push({ field: `${path}.${key}`, reason: `not a price: ${JSON.stringify(raw[key])}`, action: 'rejected' });
+      return null;
+    }
+    if (allowZero && value === 0) return 0; // No draw market
+    if (value <= 1.0) {
+      issues.push({ field: `${path}.${key}`, reason: `decimal odds must exceed 1.0 (got ${value})`, action: 'rejected' });
+      return null;
+    }
+    if (repaired) issues.push({ field: `${path}.${key}`, reason: `converted ${JSON.stringify(raw[key])} to decimal`, action: 'repaired' });
+    return round(value, 2);
+  };
+
+  const homeWin = read('homeWin', false);
+  const twoWay = sport !== undefined && !getSport(sport).hasDraw;
+  if (twoWay && toNumber(raw.draw)) {
+    issues.push({ field: `${path}.draw`, reason: `${getSport(sport).label.toLowerCase()} has no draw, set to 0`, action: 'repaired' });
+  }
+  const draw = twoWay || raw.draw === undefined || raw.draw === null ? 0 : read('draw', true);
+  const awayWin = read('awayWin', false);
+  if (homeWin === null || awayWin === null || draw === null) return { issues };
+  return { data: { homeWin, draw, awayWin }, issues };
+};
+
+export const validateComparison = (raw: unknown, path = 'comparison'): ValidationResult<ComparisonPayload> => {
+  const issues: ValidationIssue[] = [];
+  if (!isObject(raw)) {
+    issues.push({ field: path, reason: 'missing or not an object', action: 'rejected' });
+    return { issues };
+  }
+
+  const parse = (key: 'homeRating' | 'awayRating'): number | undefined => {
+    const n = toNumber(raw[key]);
+    if (n !== null) return n;
+    issues.push({ field: `${path}.${key}`, reason: `not a number: ${JSON.stringify(raw[key])}`, action: 'rejected' });
+    return undefined;
+  };
+  const parsed = { homeRating: parse('homeRating'), awayRating: parse('awayRating') };
+  // Ratings on a 0-10 scale are a common near-miss; both sides are read on the same scale
+  const given = Object.values(parsed).filter((n): n is number => n !== undefined);
+  const tenScale = given.length > 0 && given.every(n => n <= 10) && given.some(n => n > 0);
+
+  const data: ComparisonPayload = {
+    homeValue: toText(raw.homeValue) || '',
+    awayValue: toText(raw.awayValue) || '',
+    homePosition: toText(raw.homePosition) || '',
+    awayPosition: toText(raw.awayPosition) || '',
+  };
+  // A rating that didn't parse is left out rather than shown as 0
+  (['homeRating', 'awayRating'] as const).forEach(key => {
+    const n = parsed[key];
+    if (n === undefined) return;
+    const clamped = Math.min(100, Math.max(0, tenScale ? n * 10 : n));
+    if (clamped !== n) issues.push({ field: `${path}.${key}`, reason: `${n} normalised to ${round(clamped)} (range 0-100)`, action: 'repaired' });
+    data[key] = round(clamped);
+  });
+
+  return { data, issues };
+};
+
+export const validateMatchStats = (raw: unknown, sport?: SportType): ValidationResult<MatchStats> => {
+  const issues: ValidationIssue[] = [];
+  if (!isObject(raw)) {
+    issues.push({ field: 'stats', reason: 'no JSON data block found in reply', action: 'rejected' });
+    return { issues };
+  }
+
+  if (!isObject(raw.winProbability)) {
+    issues.push({ field: 'winProbability', reason: 'missing required field', action: 'rejected' });
+    return { issues };
+  }
+  let rawWinProbability = raw.winProbability;
+  // Sports without a draw: any share the model gave it is spread back over the two sides
+  if (sport && !getSport(sport).hasDraw && toNumber(rawWinProbability.draw)) {
+    issues.push({ field: 'winProbability.draw', reason: `${getSport(sport).label.toLowerCase()} has no draw, set to 0`, action: 'repaired' });
+    rawWinProbability = { ...rawWinProbability, draw: 0 };
+  }
+  const winProbability = normalizeShares(rawWinProbability, ['home', 'draw', 'away'], 'winProbability', issues);
+  if (!winProbability) return { issues };
+
+  let possession = { home: 50, away: 50 };
+  if (isObject(raw.possession)) {
+    const p = { ...raw.possession };
+    // Derive the missing side when only one is reported
+    if (toNumber(p.home) !== null && toNumber(p.away) === null) p.away = 100 - toNumber(p.home)!;
+    if (toNumber(p.away) !== null && toNumber(p.home) === null) p.home = 100 - toNumber(p.away)!;
+    possession = normalizeShares(p, ['home', 'away'], 'possession', issues) || possession;
+  } else {
+    issues.push({ field: 'possession', reason: 'missing, defaulted to 50/50', action: 'repaired' });
+  }
+
+  const stats: MatchStats = {
+    homeLast5Goals: validateGoalSeries(raw.homeLast5Goals, 'homeLast5Goals', issues),
+    awayLast5Goals: validateGoalSeries(raw.awayLast5Goals, 'awayLast5Goals', issues),
+    possession,
+    winProbability,
+  };
+
+  if (raw.odds !== undefined) {
+    const odds = validateOdds(raw.odds, sport);
+    issues.push(...odds.issues);
+    stats.odds = odds.data;
+  }
+  if (raw.comparison !== undefined) {
+    const comparison = validateComparison(raw.comparison);
+    issues.push(...comparison.issues);
+    stats.comparison = comparison.data;
+  }
+  if (isObject(raw.keyPlayers)) {
+    stats.keyPlayers = {
+      home: validatePlayers(raw.keyPlayers.home, 'keyPlayers.home', issues),
+      away: validatePlayers(raw.keyPlayers.away, 'keyPlayers.away', issues),
+    };
+  }
+  (['homeLogo', 'awayLogo'] as const).forEach(key => {
+    if (raw[key] === undefined || raw[key] === '') return;
+    if (isUrl(raw[key])) stats[key] = raw[key];
+    else issues.push({ field: key, reason: 'not an http(s) URL', action: 'rejected' });
+  });
+
+  if (raw.surface !== undefined) {
+    stats.surface = toSurface(raw.surface);
+    if (!stats.surface) issues.push({ field: 'surface', reason: `unknown surface ${JSON.stringify(raw.surface)}`, action: 'rejected' });
+  }
+  if (raw.tiebreakProbability !== undefined) {
+    const n = toNumber(raw.tiebreakProbability);
+    if (n === null || n < 0 || n > 100) {
+      issues.push({ field: 'tiebreakProbability', reason: `not a percentage: ${JSON.stringify(raw.tiebreakProbability)}`, action: 'rejected' });
+    } else {
+      // 0-1 fractions are a common near-miss
+      stats.tiebreakProbability = n > 0 && n < 1 ? round(n * 100) : round(n);
+    }
+  }
+
+  return { data: stats, issues };
+};
+
+const STATUS_ALIASES: Record<string, MatchFixture['status']> = {
+  SCHEDULED: 'SCHEDULED', NS: 'SCHEDULED', UPCOMING: 'SCHEDULED', 'NOT STARTED': 'SCHEDULED',
+  LIVE: 'LIVE', 'IN PLAY': 'LIVE', INPLAY: 'LIVE', HT: 'LIVE', 'HALF TIME': 'LIVE',
+  FINISHED: 'FINISHED', FT: 'FINISHED', 'FULL TIME': 'FINISHED', ENDED: 'FINISHED', AET: 'FINISHED',
+};
+
+export const validateFixtures = (raw: unknown, sport: SportType): ValidationResult<MatchFixture[]> => {
+  const issues: ValidationIssue[] = [];
+  if (!Array.isArray(raw)) {
+    issues.push({ field: 'fixtures', reason: 'reply was not a JSON array', action: 'rejected' });
+    return { issues };
+  }
+
+  const fixtures: MatchFixture[] = [];
+  raw.forEach((item, idx) => {
+    const path = `[${idx}]`;
+    if (!isObject(item)) {
+      issues.push({ field: path, reason: 'not an object', action: 'rejected' });
+      return;
+    }
+    const home = toText(item.home);
+    const away = toText(item.away);
+    if (!home || !away || home.toLowerCase() === away.toLowerCase()) {
+      issues.push({ field: `${path}.home`, reason: 'missing or identical team names', action: 'rejected' });
+      return;
+    }
+
+    const rawStatus = toText(item.status)?.toUpperCase();
+    let status = rawStatus ? STATUS_ALIASES[rawStatus] : undefined;
+    if (rawStatus && !status) issues.push({ field: `${path}.status`, reason: `unknown status "${rawStatus}"`, action: 'repaired' });
+    if (!status) status = 'SCHEDULED';
+
+    const rawScore = toText(item.score);
+    const scoreMatch = rawScore?.match(/^(\d+)\s*[-:]\s*(\d+)$/);
+    if (rawScore && !scoreMatch) issues.push({ field: `${path}.score`, reason: `unparseable score "${rawScore}"`, action: 'rejected' });
+
+    // A kickoff without an explicit offset is ambiguous across timezones, so it is dropped
+    const rawKickoff = toText(item.kickoff);
+    const kickoff = parseKickoff(rawKickoff) !== undefined ? rawKickoff : undefined;
+    if (rawKickoff && !kickoff) issues.push({ field: `${path}.kickoff`, reason: `no ISO timestamp with offset in "${rawKickoff}"`, action: 'rejected' });
+
+    fixtures.push({
+      home,
+      away,
+      time: toText(item.time) || 'TBD',
+      kickoff,
+      league: toText(item.league) || 'Unknown League',
+      status,
+      score: scoreMatch ? `${scoreMatch[1]}-${scoreMatch[2]}` : undefined,
+      sport,
+      ...(sport === 'TENNIS' ? { surface: toSurface(item.surface), round: toText(item.round) } : {}),
+    });
+  });
+
+  return { data: fixtures, issues };
+};
+
+export const validateLiveScore = (raw: unknown, path = 'liveScore'): ValidationResult<LiveScore> => {
+  const issues: ValidationIssue[] = [];
+  if (!isObject(raw)) {
+    issues.push({ field: path, reason: 'missing or not an object', action: 'rejected' });
+    return { issues };
+  }
+
+  const rawScore = toText(raw.score);
+  const scoreMatch = rawScore?.match(/^(\d+)\s*[-:]\s*(\d+)$/);
+  if (!scoreMatch) {
+    issues.push({ field: `${path}.score`, reason: `unparseable score "${rawScore}"`, action: 'rejected' });
+    return { issues };
+  }
+
+  const rawStatus = toText(raw.status)?.toUpperCase();
+  let status = rawStatus ? STATUS_ALIASES[rawStatus] : undefined;
+  if (!status) {
+    issues.push({ field: `${path}.status`, reason: `unknown status "${rawStatus}", assuming LIVE`, action: 'repaired' });
+    status = 'LIVE';
+  }
+
+  return {
+    data: {
+      score: `${scoreMatch[1]}-${scoreMatch[2]}`,
+      time: toText(raw.time) || (status === 'FINISHED' ? 'FT' : 'LIVE'),
+      status,
+    },
+    issues,
+  };
+};
+
+export const logIssues = (label: string, issues: ValidationIssue[]) => {
+  if (issues.length === 0) return;
+  console.warn(`[${label}] schema validation`, issues.map(i => `${i.action}: ${i.field} (${i.reason})`));
+};
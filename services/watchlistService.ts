@@ -0,0 +1,114 @@
+import { FixtureStatus, MatchFixture, SportType, WatchedFixture } from "../types";
+import { userKey } from "./userScope";
+import { teamRegistry } from "./teamRegistry";
+import { settingsService } from "./settingsService";
+import { parseKickoff, resolveTimeZone, timeService } from "./timeService";
+
+// Fixtures the user wants kickoff reminders and status alerts for
+const WATCHLIST_KEY = 'matchoracle_watchlist';
+const MAX_AGE_DAYS = 2; // Entries listed more than this many days ago are pruned
+
+export interface StatusChange {
+  item: WatchedFixture;
+  status: Exclude<FixtureStatus, 'SCHEDULED'>;
+}
+
+export const watchIdOf = (fixture: MatchFixture, sport: SportType, date: string) =>
+  `${sport}|${date}|${teamRegistry.keyOf(fixture.home, sport)}|${teamRegistry.keyOf(fixture.away, sport)}`;
+
+const statusOf = (fixture: MatchFixture): FixtureStatus => fixture.status || 'SCHEDULED';
+
+// The fixture's ISO kickoff, else "14:00" on the listed date read in the user's timezone.
+// LIVE / FT strings have no kickoff to remind about.
+export const kickoffOf = (fixture: MatchFixture, date: string): number | undefined =>
+  parseKickoff(fixture.kickoff) ?? timeService.zonedEpoch(date, fixture.time, resolveTimeZone(settingsService.get().timeZone));
+
+const isStale = (item: WatchedFixture) =>
+  new Date(`${item.date}T00:00:00`).getTime() < Date.now() - MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+
+// Ids are re-derived on every load, so items saved under an older id format (or before a
+// team was added to the registry) still match fresh fixture lists; merged duplicates collapse
+const rekey = (items: WatchedFixture[]): WatchedFixture[] => {
+  const byId = new Map<string, WatchedFixture>();
+  items.forEach(i => {
+    const id = watchIdOf(i.fixture, i.sport, i.date);
+    if (!byId.has(id)) byId.set(id, { ...i, id });
+  });
+  return Array.from(byId.values());
+};
+
+const loadItems = (): WatchedFixture[] => {
+  try {
+    const item = localStorage.getItem(userKey(WATCHLIST_KEY));
+    const items = item ? JSON.parse(item) : [];
+    return Array.isArray(items) ? rekey(items.filter(i => !isStale(i))) : [];
+  } catch (e) {
+    localStorage.removeItem(userKey(WATCHLIST_KEY));
+    return [];
+  }
+};
+
+const saveItems = (items: WatchedFixture[]): WatchedFixture[] => {
+  try {
+    localStorage.setItem(userKey(WATCHLIST_KEY), JSON.stringify(items));
+  } catch (e) {
+    console.warn("Watchlist storage full");
+  }
+  return items;
+};
+
+export const watchlistService = {
+  getItems: (): WatchedFixture[] => loadItems(),
+
+  toggle: (fixture: MatchFixture, sport: SportType, date: string): WatchedFixture[] => {
+    const items = loadItems();
+    const id = watchIdOf(fixture, sport, date);
+    if (items.some(i => i.id === id)) return saveItems(items.filter(i => i.id !== id));
+    return saveItems([...items, {
+      id,
+      fixture,
+      sport,
+      date,
+      kickoffAt: kickoffOf(fixture, date),
+      reminded: false,
+      lastStatus: statusOf(fixture),
+    }]);
+  },
+
+  remove: (id: string): WatchedFixture[] => saveItems(loadItems().filter(i => i.id !== id)),
+
+  // Scheduled fixtures kicking off within the window; each is returned once
+  takeDueReminders: (minutesBefore: number, now: number = Date.now()): WatchedFixture[] => {
+    const items = loadItems();
+    const due = items.filter(i =>
+      !i.reminded && i.lastStatus === 'SCHEDULED' && i.kickoffAt !== undefined &&
+      i.kickoffAt - minutesBefore * 60 * 1000 <= now && i.kickoffAt > now
+    );
+    if (due.length > 0) {
+      saveItems(items.map(i => due.includes(i) ? { ...i, reminded: true } : i));
+    }
+    return due.map(i => ({ ...i, reminded: true }));
+  },
+
+  // Reconcile watched fixtures with a fresh fixture list; returns LIVE / FINISHED transitions
+  applyRefresh: (fixtures: MatchFixture[], sport: SportType, date: string): StatusChange[] => {
+    const items = loadItems();
+    const latest = new Map(fixtures.map(f => [watchIdOf(f, f.sport || sport, date), f]));
+    const changes: StatusChange[] = [];
+
+    const next = items.map(item => {
+      const fixture = latest.get(item.id);
+      if (!fixture) return item;
+      const status = statusOf(fixture);
+      const merged = { ...item.fixture, ...fixture };
+      const updated = { ...item, fixture: merged, kickoffAt: kickoffOf(merged, item.date) ?? item.kickoffAt, lastStatus: status };
+      if (status !== item.lastStatus && status !== 'SCHEDULED') {
+        changes.push({ item: updated, status });
+      }
+      return updated;
+    });
+
+    if (next.some((item, i) => item !== items[i])) saveItems(next);
+    return changes;
+  },
+};
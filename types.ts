@@ -1,5 +1,7 @@
 
-export type SportType = 'SOCCER' | 'BASKETBALL' | 'HOCKEY' | 'HANDBALL';
+export type SportType = 'SOCCER' | 'BASKETBALL' | 'HOCKEY' | 'HANDBALL' | 'TENNIS';
+
+export type CourtSurface = 'HARD' | 'CLAY' | 'GRASS' | 'INDOOR';
 
 export interface User {
   id: string;
@@ -18,14 +20,25 @@ export interface GroundingChunk {
   };
 }
 
+// Where a fixture or analysis came from. Anything other than "live" is shown in
+// degraded mode: no betting angles, no sharing.
+export type Provenance = 'live' | 'cached' | 'fallback' | 'mock';
+
+// Tennis reuses the team-sport shape: home/away are the two players, league is the
+// tournament and score counts sets.
 export interface MatchFixture {
   home: string;
   away: string;
   time: string; // e.g., "14:00", "LIVE 23'", "FT"
+  kickoff?: string; // ISO 8601 with offset, e.g. "2025-03-08T20:00:00+01:00"; preferred over time for display
   league: string;
   score?: string; // e.g., "1-0"
-  status?: 'SCHEDULED' | 'LIVE' | 'FINISHED';
+  surface?: CourtSurface; // Tennis only
+  round?: string; // Tennis only, e.g. "R32", "QF", "Final"
+  status?: FixtureStatus;
   sport?: SportType;
+  provenance?: Provenance; // Absent on data stored before provenance was tracked; treated as live
+  cachedAt?: number; // Epoch ms the saved copy was written, when served from storage while offline
 }
 
 export interface PlayerStat {
@@ -48,8 +61,8 @@ export interface MatchStats {
     awayValue: string;
     homePosition: string;
     awayPosition: string;
-    homeRating: number; // 0-100
-    awayRating: number; // 0-100
+    homeRating?: number; // 0-100; absent when the model gave none
+    awayRating?: number; // 0-100
   };
   keyPlayers?: {
     home: PlayerStat[];
@@ -57,25 +70,61 @@ export interface MatchStats {
   };
   homeLogo?: string;
   awayLogo?: string;
+  surface?: CourtSurface; // Tennis: the Last5 series are sets won in the last 5 matches on this surface
+  tiebreakProbability?: number; // Tennis: percent chance the match has at least one tiebreak
 }
 
 export interface LiveState {
   isLive: boolean;
   currentScore: string;
   matchTime: string;
+  finished?: boolean; // Final whistle seen by the live tracker; polling has stopped
+}
+
+// Score and clock of an in-play fixture, as polled by the live tracker
+export interface LiveScore {
+  score: string; // "home-away"
+  time: string; // e.g. "67'", "HT", "Q3 4:12"
+  status: FixtureStatus;
+}
+
+export type LiveRefreshTrigger = 'INITIAL' | 'SCORE_CHANGE' | 'INTERVAL';
+
+export interface LiveTimelineEntry {
+  analysis: MatchAnalysis;
+  trigger: LiveRefreshTrigger;
+  analyzedAt: number;
+}
+
+export interface ValidationIssue {
+  field: string; // Dotted path, e.g. "winProbability.draw" or "[3].home"
+  reason: string;
+  action: 'repaired' | 'rejected';
+}
+
+export type CalibrationMethod = 'PLATT' | 'ISOTONIC';
+
+export interface CalibrationInfo {
+  method: CalibrationMethod;
+  samples: number; // Outcome pairs the calibration was fitted on
+  raw: { home: number; draw: number; away: number }; // Stated winProbability before recalibration
 }
 
 export interface MatchAnalysis {
   rawText: string;
   groundingChunks?: GroundingChunk[];
   stats?: MatchStats;
+  validationIssues?: ValidationIssue[]; // Fields the schema layer repaired or dropped
+  calibration?: CalibrationInfo; // Present when stats.winProbability has been recalibrated
   liveState?: LiveState; // Added for In-Play context
+  provenance?: Provenance;
+  cachedAt?: number; // Epoch ms the saved copy was written, when provenance is "cached"
   sections: {
     scorePrediction?: string;
     scoreProbability?: string; // Estimated probability of the specific score
-    totalGoals?: string; // Generic container for Primary Stat (Goals/Points)
-    corners?: string; // Generic container for Secondary Stat (Corners/Rebounds/Shots)
-    cards?: string; // Generic container for Tertiary Stat (Cards/Fouls/Penalties)
+    totalGoals?: string; // Generic container for Primary Stat (Goals/Points/Games)
+    corners?: string; // Generic container for Secondary Stat (Corners/Rebounds/Shots/Tiebreaks)
+    cards?: string; // Generic container for Tertiary Stat (Cards/Fouls/Penalties/Aces)
     weather?: string; // New: Weather conditions
     referee?: string; // New: Referee stats
     redFlags?: string; // New section for integrity/referee warnings
@@ -91,9 +140,143 @@ export interface MatchAnalysis {
   };
 }
 
+export interface LedgerSettlement {
+  finalScore: string;
+  settledAt: number;
+  outcomeHit?: boolean; // Undefined when the analysis gave neither probabilities nor a score to pick a side from
+  exactScoreHit: boolean;
+  totalsHit?: boolean; // Undefined when no gradable line was predicted or the line pushed
+}
+
+export interface LedgerEntry {
+  id: string;
+  homeTeam: string;
+  awayTeam: string;
+  league: string;
+  sport: SportType;
+  date: string; // YYYY-MM-DD the fixture was listed under
+  createdAt: number;
+  isLive: boolean; // Prediction was made in-play
+  scorePrediction?: string;
+  totalsLine?: string; // e.g. "Over 2.5"
+  winProbability?: { home: number; draw: number; away: number };
+  odds?: { homeWin: number; draw: number; awayWin: number };
+  confidence?: string;
+  settlement?: LedgerSettlement;
+}
+
+export type FixtureStatus = 'SCHEDULED' | 'LIVE' | 'FINISHED';
+
+export interface WatchedFixture {
+  id: string;
+  fixture: MatchFixture;
+  sport: SportType;
+  date: string; // YYYY-MM-DD the fixture was listed under
+  kickoffAt?: number; // Epoch ms, when the fixture time is a clock time
+  reminded: boolean; // Kickoff reminder already sent
+  lastStatus: FixtureStatus; // Status seen on the last fixture refresh
+}
+
+// A known team (or tennis player) with the spellings it turns up under
+export interface TeamEntity {
+  id: string; // Stable across aliases; joins cache, ledger and watchlist keys
+  name: string; // Canonical display name
+  aliases: string[];
+  country: string;
+  league: string; // Tour for tennis players
+  sport: SportType;
+}
+
+export type LeagueRegion = 'EUROPE' | 'ASIA' | 'AFRICA' | 'SOUTH_AMERICA' | 'NORTH_AMERICA' | 'INTERNATIONAL';
+export type EuropeanArea = 'WESTERN' | 'NORDIC' | 'CENTRAL' | 'EASTERN' | 'BALKANS' | 'SOUTHERN';
+
+// When a competition plays: across the turn of the year, within one calendar year, or all year
+export type SeasonFormat = 'AUTUMN_SPRING' | 'SPRING_AUTUMN' | 'CALENDAR_YEAR' | 'YEAR_ROUND';
+
+export interface LeagueEntity {
+  id: string;
+  name: string; // Canonical display name
+  aliases: string[];
+  country: string; // "International" for cross-border competitions
+  region: LeagueRegion;
+  area?: EuropeanArea; // European leagues only
+  tier: number; // 1 = top flight
+  sport: SportType;
+  seasonFormat: SeasonFormat;
+}
+
+export interface FavouriteItem {
+  name: string;
+  sport: SportType;
+}
+
+export interface Favourites {
+  teams: FavouriteItem[];
+  leagues: FavouriteItem[];
+}
+
+export type BetMarket = '1X2' | 'TOTALS' | 'CORRECT_SCORE';
+
+export interface BetSelection {
+  id: string;
+  homeTeam: string;
+  awayTeam: string;
+  league: string;
+  sport: SportType;
+  date: string;
+  market: BetMarket;
+  pick: string; // "HOME" | "DRAW" | "AWAY", "Over 2.5", "2-1"
+  label: string;
+  odds?: number; // Decimal; user-entered when the market price is unknown
+  modelProbability?: number; // Percent
+  addedAt: number;
+}
+
+export type StakingPlan = 'FLAT' | 'PERCENTAGE' | 'KELLY';
+
+export interface BankrollBet {
+  id: string;
+  homeTeam: string;
+  awayTeam: string;
+  selection: 'HOME' | 'DRAW' | 'AWAY';
+  odds: number; // Decimal
+  stake: number;
+  probability: number; // Analysis win probability at placement, percent
+  plan: StakingPlan;
+  placedAt: number;
+  result?: 'WON' | 'LOST' | 'VOID';
+  settledAt?: number;
+}
+
+export interface Bankroll {
+  startingBalance: number;
+  plan: StakingPlan;
+  flatStake: number; // Units per bet
+  percentage: number; // Percent of current balance per bet
+  kellyFraction: number; // e.g. 0.25 for quarter Kelly
+  bets: BankrollBet[];
+}
+
 export enum LoadingState {
   IDLE = 'IDLE',
   ANALYZING = 'ANALYZING',
   COMPLETE = 'COMPLETE',
-  ERROR = 'ERROR'
+  ERROR = 'ERROR',
+  QUEUED = 'QUEUED' // Requested while offline; runs when connectivity returns
+}
+
+export interface QueuedAnalysis {
+  id: string;
+  home: string;
+  away: string;
+  league: string;
+  sport: SportType;
+  date: string; // Fixture date the request was made for (YYYY-MM-DD)
+  queuedAt: number;
+  failure?: string; // Last replay failed for a reason other than connectivity; held until retried or cancelled
+}
+
+export interface CompletedAnalysis {
+  request: QueuedAnalysis;
+  analysis: MatchAnalysis;
 }
@@ -1,7 +1,35 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import crypto from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Writes dist/service-worker.js from the root template, prefixed with the build's
+// hashed files (read from the Vite manifest) and a cache id derived from them
+const serviceWorker = (): Plugin => {
+  let outDir = 'dist';
+  return {
+    name: 'matchoracle-service-worker',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    writeBundle() {
+      const manifest: Record<string, { file: string; src?: string; css?: string[]; assets?: string[] }> =
+        JSON.parse(fs.readFileSync(path.join(outDir, '.vite', 'manifest.json'), 'utf-8'));
+      const files = new Set(['./', './index.html']);
+      // Provider recordings are only fetched by the mock provider, so they are not precached
+      Object.values(manifest).filter(chunk => !chunk.src?.startsWith('recordings/')).forEach(chunk => {
+        [chunk.file, ...(chunk.css || []), ...(chunk.assets || [])].forEach(file => files.add(`./${file}`));
+      });
+      const precache = Array.from(files).sort();
+      const id = crypto.createHash('sha256').update(precache.join('\n')).digest('hex').slice(0, 12);
+      const template = fs.readFileSync(path.resolve(__dirname, 'service-worker.js'), 'utf-8');
+      fs.writeFileSync(path.join(outDir, 'service-worker.js'), `self.__SW_BUILD__ = ${JSON.stringify({ id, precache })};\n\n${template}`);
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +37,15 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      build: {
+        manifest: true,
+      },
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.ORACLE_PROVIDER': JSON.stringify(env.ORACLE_PROVIDER || 'gemini'),
+        'process.env.ORACLE_RECORD': JSON.stringify(env.ORACLE_RECORD || 'false')
       },
       resolve: {
         alias: {